@@ -0,0 +1,9 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+    preset: 'ts-jest',
+    testEnvironment: 'node',
+    roots: ['<rootDir>/src'],
+    testMatch: ['**/__tests__/**/*.test.ts'],
+    // Contract tests run under hardhat (npm run contract:test)
+    testPathIgnorePatterns: ['/node_modules/', '<rootDir>/src/blockchain/']
+};
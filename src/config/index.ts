@@ -1,12 +1,56 @@
 // src/config/index.ts
 import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { CDSHooksConfig, TrustedIssuer } from '../types/cds-hooks';
+import { RoleConfig } from '../middleware/roleMiddleware';
+import { LLMProviderConfig, LLMProviderName } from '../services/llm/LLMProvider';
 
 // Load environment variables from .env file
 dotenv.config();
 
-if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
-}
+// Comma-separated ids of CDS services to leave out of discovery and routing
+const disabledCdsServices = (process.env.CDS_DISABLED_SERVICES || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+// EHRs allowed to call CDS services, as JSON inline or in a file:
+// [{ "iss": "https://ehr.example.org", "jwks": ["https://ehr.example.org/.well-known/jwks.json"] }]
+const loadTrustedIssuers = (): TrustedIssuer[] => {
+    const json = process.env.CDS_TRUSTED_ISSUERS_FILE
+        ? readFileSync(process.env.CDS_TRUSTED_ISSUERS_FILE, 'utf8')
+        : process.env.CDS_TRUSTED_ISSUERS;
+    return json ? JSON.parse(json) : [];
+};
+
+// Prices by model in USD per million tokens, e.g. { "my-model": { "input": 0.5, "output": 1.5 } }
+const llmPrices = process.env.LLM_PRICES ? JSON.parse(process.env.LLM_PRICES) : undefined;
+
+const optionalNumber = (value?: string): number | undefined => (value ? parseFloat(value) : undefined);
+
+// LLM backend of one call site; LLM_<SITE>_<SETTING> overrides LLM_<SETTING>. Embeddings
+// take no model from LLM_MODEL, which names a chat model.
+const loadLLMProvider = (site: string, defaultModel: string = 'gpt-4o-mini'): LLMProviderConfig => {
+    const setting = (name: string) => process.env[`LLM_${site}_${name}`] || process.env[`LLM_${name}`];
+    const provider = (setting('PROVIDER') || 'openai') as LLMProviderName;
+    // The OpenAI key is never sent to other servers
+    const apiKey = setting('API_KEY') || (provider === 'openai' ? process.env.OPENAI_API_KEY : undefined);
+
+    if (provider === 'openai' && !apiKey) {
+        throw new Error(`OPENAI_API_KEY or LLM_API_KEY environment variable is required for the openai LLM provider (${site.toLowerCase()})`);
+    }
+
+    return {
+        provider,
+        model: (site === 'EMBEDDINGS' ? process.env.LLM_EMBEDDINGS_MODEL : setting('MODEL')) || defaultModel,
+        baseUrl: setting('BASE_URL') || undefined,
+        apiKey,
+        timeoutMs: parseInt(setting('TIMEOUT_MS') || '30000'),
+        fixturesPath: setting('FIXTURES_FILE') || undefined,
+        maxRepairs: parseInt(setting('MAX_REPAIRS') || '2'),
+        prices: llmPrices
+    };
+};
 
 if (!process.env.NFT_CONTRACT_ADDRESS || !process.env.NFT_PRIVATE_KEY) {
     throw new Error('NFT_CONTRACT_ADDRESS and NFT_PRIVATE_KEY environment variables are required');
@@ -17,10 +61,31 @@ export const config = {
     
     // Analysis Queue Configuration
     analysisQueue: {
+        // amqp by default; the local file driver must be selected explicitly
+        driver: (process.env.ANALYSIS_QUEUE_DRIVER || 'amqp') as 'amqp' | 'file',
         amqp: {
             url: process.env.AMQP_URL || 'amqp://localhost:5672',
             queue: process.env.AMQP_QUEUE || 'analysis-queue'
         },
+        file: {
+            path: process.env.ANALYSIS_QUEUE_FILE || 'data/queue/analysis-queue.json',
+            pollIntervalMs: parseInt(process.env.ANALYSIS_QUEUE_POLL_INTERVAL_MS || '1000')
+        },
+        retry: {
+            maxRetries: parseInt(process.env.ANALYSIS_QUEUE_MAX_RETRIES || '3'),
+            messageTtlMs: parseInt(process.env.ANALYSIS_QUEUE_MESSAGE_TTL_MS || '86400000')
+        },
+        // Analyses of an unchanged clinical context keep the latest recommendations
+        reuseUnchanged: {
+            enabled: process.env.ANALYSIS_REUSE_UNCHANGED !== 'false',
+            maxAgeMs: parseInt(process.env.ANALYSIS_REUSE_MAX_AGE_DAYS || '30') * 24 * 60 * 60 * 1000
+        },
+        // Separate workers (npm run worker) need the amqp driver and embedded set to false
+        worker: {
+            embedded: process.env.ANALYSIS_WORKER_EMBEDDED !== 'false',
+            concurrency: parseInt(process.env.ANALYSIS_WORKER_CONCURRENCY || '1'),
+            prefetch: parseInt(process.env.ANALYSIS_WORKER_PREFETCH || '1')
+        },
         nft: {
             contractAddress: process.env.NFT_CONTRACT_ADDRESS,
             privateKey: process.env.NFT_PRIVATE_KEY,
@@ -34,15 +99,47 @@ export const config = {
                 token: process.env.FHIR_AUTH_TOKEN
             }
         },
-        openai: {
-            apiKey: process.env.OPENAI_API_KEY,
-            model: process.env.OPENAI_MODEL || 'gpt-4',
-            temperature: parseFloat(process.env.OPENAI_TEMPERATURE || '0.7'),
-            maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '2000')
-        },
         systemId: process.env.SYSTEM_ID || 'ai-expert-panel-system'
     },
 
+    // LLM provider of each call site: openai, openai-compatible (llama.cpp, Ollama, ...) or fixture
+    llm: {
+        recommendations: loadLLMProvider('RECOMMENDATIONS'),
+        genesis: loadLLMProvider('GENESIS'),
+        chat: loadLLMProvider('CHAT'),
+        embeddings: loadLLMProvider('EMBEDDINGS', 'text-embedding-3-small')
+    },
+
+    // Token usage and estimated LLM cost; new analyses and chats stop once a monthly budget is spent
+    usage: {
+        path: process.env.USAGE_LEDGER_FILE || 'data/usage/ledger.json',
+        budgets: {
+            tenantMonthlyUsd: optionalNumber(process.env.USAGE_BUDGET_TENANT_MONTHLY_USD),
+            // Per-tenant limits as JSON: { "acme": 250 }
+            tenants: process.env.USAGE_BUDGET_TENANTS ? JSON.parse(process.env.USAGE_BUDGET_TENANTS) as Record<string, number> : undefined,
+            totalMonthlyUsd: optionalNumber(process.env.USAGE_BUDGET_TOTAL_MONTHLY_USD)
+        }
+    },
+
+    // Prompt files that add versions or tenant variants of the built-in prompts
+    prompts: {
+        directory: process.env.PROMPTS_DIR || undefined
+    },
+
+    // Population analyses started through POST /batch-analysis
+    batchAnalysis: {
+        maxPatients: parseInt(process.env.BATCH_ANALYSIS_MAX_PATIENTS || '1000'),
+        ratePerMinute: parseInt(process.env.BATCH_ANALYSIS_RATE_PER_MINUTE || '30')
+    },
+
+    // Scheduled re-analysis policies; enable on one server only
+    reanalysis: {
+        enabled: process.env.REANALYSIS_SCHEDULER_ENABLED === 'true',
+        path: process.env.REANALYSIS_SCHEDULE_FILE || 'data/reanalysis/schedule.json',
+        intervalMs: parseInt(process.env.REANALYSIS_SCHEDULER_INTERVAL_MS || '300000'),
+        maxPerRun: parseInt(process.env.REANALYSIS_SCHEDULER_MAX_PER_RUN || '10')
+    },
+
     // NFT Configuration
     nft: {
         contractAddress: process.env.NFT_CONTRACT_ADDRESS,
@@ -57,9 +154,78 @@ export const config = {
         baseUrl: process.env.FHIR_SERVER_URL || 'http://fhir-server/fhir',
         auth: {
             token: process.env.FHIR_AUTH_TOKEN
+        },
+        // Used when an EHR omits prefetch data and we query its fhirServer directly
+        prefetch: {
+            maxPages: parseInt(process.env.FHIR_PREFETCH_MAX_PAGES || '10'),
+            pageSize: parseInt(process.env.FHIR_PREFETCH_PAGE_SIZE || '50')
+        },
+        // Mirror each analysis as a FHIR Task on the EHR's FHIR server (or the server above)
+        taskTracking: {
+            enabled: process.env.FHIR_TASK_TRACKING === 'true'
         }
     },
 
+    // CDS Hooks services; each id needs a handler registered in routes/cdsHooksService.ts
+    cdsHooks: {
+        baseUrl: process.env.BASE_URL || 'http://localhost:3000',
+        // Signed JWTs the EHR sends with each hook call
+        auth: {
+            type: 'jwt',
+            enabled: process.env.CDS_AUTH_DISABLED !== 'true',
+            trustedIssuers: loadTrustedIssuers(),
+            audiences: (process.env.CDS_JWT_AUDIENCES || '').split(',').map(aud => aud.trim()).filter(Boolean),
+            clockToleranceSec: parseInt(process.env.CDS_JWT_CLOCK_TOLERANCE_SEC || '60'),
+            maxLifetimeSec: parseInt(process.env.CDS_JWT_MAX_LIFETIME_SEC || '300'),
+            jwksCacheTtlMs: parseInt(process.env.CDS_JWKS_CACHE_TTL_MS || '3600000')
+        },
+        services: [{
+            id: 'ai-expert-panel',
+            hook: 'patient-view',
+            title: 'AI Expert Panel Analysis',
+            description: 'Provides AI-powered specialist panel recommendations based on patient context',
+            enabled: !disabledCdsServices.includes('ai-expert-panel'),
+            prefetch: {
+                patient: 'Patient/{{context.patientId}}',
+                conditions: 'Condition?patient={{context.patientId}}',
+                medications: 'MedicationStatement?patient={{context.patientId}}&_include=MedicationStatement:medication',
+                observations: 'Observation?patient={{context.patientId}}',
+                encounters: 'Encounter?patient={{context.patientId}}&_sort=-date',
+                encounter: 'Encounter/{{context.encounterId}}'
+            },
+            config: {
+                // How long to wait for the analysis before falling back to the launch card (0 disables)
+                syncTimeoutMs: parseInt(process.env.AI_EXPERT_PANEL_SYNC_TIMEOUT_MS || '0'),
+                // How long an unchanged chart reuses the patient's last analysis (0 disables)
+                reuseWindowMs: parseInt(process.env.AI_EXPERT_PANEL_REUSE_WINDOW_MS || '900000')
+            }
+        }, {
+            id: 'medication-safety',
+            hook: 'order-select',
+            title: 'Medication Safety Check',
+            description: 'Flags drug interactions, duplicate therapy and contraindications for the selected draft medication orders',
+            enabled: !disabledCdsServices.includes('medication-safety'),
+            prefetch: {
+                patient: 'Patient/{{context.patientId}}',
+                conditions: 'Condition?patient={{context.patientId}}&clinical-status=active',
+                medications: 'MedicationRequest?patient={{context.patientId}}&status=active&_include=MedicationRequest:medication',
+                observations: 'Observation?patient={{context.patientId}}&category=laboratory,vital-signs&_sort=-date'
+            }
+        }, {
+            id: 'order-safety-review',
+            hook: 'order-sign',
+            title: 'Medication Order Safety Review',
+            description: 'Final safety review of all draft orders before signing, with suggested dose changes and monitoring labs',
+            enabled: !disabledCdsServices.includes('order-safety-review'),
+            prefetch: {
+                patient: 'Patient/{{context.patientId}}',
+                conditions: 'Condition?patient={{context.patientId}}&clinical-status=active',
+                medications: 'MedicationRequest?patient={{context.patientId}}&status=active&_include=MedicationRequest:medication',
+                observations: 'Observation?patient={{context.patientId}}&category=laboratory,vital-signs&_sort=-date'
+            }
+        }]
+    } as CDSHooksConfig,
+
     // SMART App Configuration
     smartApp: {
         launchUrl: process.env.SMART_APP_LAUNCH_URL || 'http://localhost:5173/launch',
@@ -87,6 +253,13 @@ export const config = {
             allowedOrigins: (process.env.ALLOWED_ORIGINS || '').split(','),
             allowedMethods: ['GET', 'POST']
         },
+        // Granted by a roles claim in the introspected token, a scope or a listed subject
+        roles: {
+            admin: {
+                scopes: (process.env.ADMIN_SCOPES || 'mithram/admin').split(',').map(scope => scope.trim()).filter(Boolean),
+                subjects: (process.env.ADMIN_SUBJECTS || '').split(',').map(sub => sub.trim()).filter(Boolean)
+            }
+        } as RoleConfig,
         rateLimit: {
             windowMs: 15 * 60 * 1000, // 15 minutes
             max: 100 // limit each IP to 100 requests per windowMs
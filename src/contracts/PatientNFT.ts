@@ -16,6 +16,9 @@ import { v5 as uuidv5 } from 'uuid'
 import { keccak256, toBytes } from 'viem/utils'
 import { S3Client, PutObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
 import axios from 'axios';
+import type { ValidationFailure } from '../services/llm/structuredOutput';
+import type { GenerationRecord } from '../services/llm/LLMProvider';
+import type { UsageSummary } from '../services/llm/usage';
 
 // Custom error class for NFT operations
 export class NFTError extends Error {
@@ -37,12 +40,39 @@ export interface NFTClientConfig {
 
 // Metadata types
 export interface AnalysisData {
-  status: 'pending' | 'in-progress' | 'completed' | 'failed';
+  status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'cancelled';
+  // User the analysis was requested for, who may cancel it while pending
+  requestedBy?: string;
   clinicalContext?: any;
   recommendations?: any;
+  // Model responses rejected by schema validation: repaired ones on completed analyses,
+  // the last attempts on failed ones
+  validationFailures?: ValidationFailure[];
+  // Hash of the normalized clinical context the analysis was made from
+  contextFingerprint?: string;
+  // Provider, model, temperature and prompt versions the recommendations were generated with
+  generation?: GenerationRecord;
+  // LLM calls of the attempt that completed the analysis, with tokens and estimated cost
+  usage?: UsageSummary;
+  // Set when the clinical context was unchanged and an earlier analysis's recommendations were kept
+  reusedFrom?: ReusedAnalysis;
   error?: string;
   completedAt?: string;
   failedAt?: string;
+  cancelledAt?: string;
+}
+
+// The earlier analysis holding the recommendations of an unchanged one
+export interface ReusedAnalysis {
+  analysisId: string;
+  // Storage key of that analysis's metadata, as in previousAnalysis
+  metadataKey: string;
+  completedAt?: string;
+}
+
+// Callbacks for the steps of a mint or metadata update
+export interface NFTWriteHooks {
+  onMetadataStored?: (tokenURI: string) => void;
 }
 
 export interface NFTMetadata {
@@ -309,13 +339,14 @@ export class PatientNFTClient {
     return `data:application/json;base64,${Buffer.from(JSON.stringify(metadata)).toString('base64')}`;
   }
 
-  async mintPatientNFT(patientId: string, metadata: NFTMetadata): Promise<{ tokenId: bigint; hash: Hash }> {
+  async mintPatientNFT(patientId: string, metadata: NFTMetadata, hooks: NFTWriteHooks = {}): Promise<{ tokenId: bigint; hash: Hash }> {
     try {
       if (!metadata.analysisId) {
         throw new NFTError('Analysis ID is required', 'INVALID_METADATA');
       }
 
       const tokenURI = await this.storeMetadata(metadata);
+      hooks.onMetadataStored?.(tokenURI);
       
       // Generate metadata hash using keccak256
       const metadataHash = keccak256(toBytes(JSON.stringify(metadata)));
@@ -350,7 +381,7 @@ export class PatientNFTClient {
     }
   }
 
-  async updateMetadata(analysisId: string, metadata: NFTMetadata): Promise<Hash> {
+  async updateMetadata(analysisId: string, metadata: NFTMetadata, hooks: NFTWriteHooks = {}): Promise<Hash> {
     try {
       // Get token ID using patient ID since the analysis ID won't exist yet
       const tokenId = await this.publicClient.readContract({
@@ -361,6 +392,7 @@ export class PatientNFTClient {
       });
 
       const tokenURI = await this.storeMetadata(metadata);
+      hooks.onMetadataStored?.(tokenURI);
 
       // Generate metadata hash using keccak256
       const metadataHash = keccak256(toBytes(JSON.stringify(metadata)));
@@ -385,6 +417,14 @@ export class PatientNFTClient {
     }
   }
 
+  /**
+   * Wait until a submitted transaction is mined
+   */
+  async waitForTransaction(hash: Hash): Promise<{ status: 'success' | 'reverted'; blockNumber: bigint }> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    return { status: receipt.status, blockNumber: receipt.blockNumber };
+  }
+
   async getMetadata(analysisId: string): Promise<NFTMetadata> {
     try {
       // Get token ID from contract using analysis ID
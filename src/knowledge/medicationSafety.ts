@@ -0,0 +1,750 @@
+// src/knowledge/medicationSafety.ts
+//
+// Curated medication safety knowledge used by the order-select and order-sign
+// services. Medications are matched to drug classes by ingredient or brand name,
+// conditions by SNOMED CT / ICD-10 code or display keyword, and observations by
+// LOINC code. Rules may also name a follow-up monitoring lab and a dose limit,
+// which the order-sign service turns into suggested system actions.
+
+export type SafetySeverity = 'critical' | 'warning';
+
+export interface DrugClass {
+    id: string;
+    display: string;
+    // Lower-case ingredient and brand names that identify the class
+    ingredients: string[];
+    // Whether two concurrent orders from this class count as duplicate therapy
+    duplicateTherapy: boolean;
+}
+
+export interface MonitoringLab {
+    code: string;
+    display: string;
+    // Human-readable window for drawing the lab, e.g. "within 1 week"
+    timeframe: string;
+}
+
+export interface InteractionRule {
+    id: string;
+    classes: [string, string];
+    severity: SafetySeverity;
+    summary: string;
+    detail: string;
+    monitoring?: MonitoringLab;
+}
+
+export interface ConditionMatcher {
+    codes?: string[];
+    codePrefixes?: string[];
+    keywords: string[];
+}
+
+export interface ObservationMatcher {
+    codes: string[];
+    display: string;
+    comparator: 'gt' | 'lt';
+    threshold: number;
+    unit?: string;
+}
+
+export interface ContraindicationRule {
+    id: string;
+    drugClass: string;
+    severity: SafetySeverity;
+    summary: string;
+    detail: string;
+    condition?: ConditionMatcher;
+    observation?: ObservationMatcher;
+    monitoring?: MonitoringLab;
+}
+
+export interface DoseAdjustmentRule {
+    id: string;
+    ingredient: string;
+    severity: SafetySeverity;
+    summary: string;
+    detail: string;
+    // The rule applies when the observation matches or an interacting class is also ordered/active.
+    // Rules with a factor only apply when the interacting class is a draft order in the same bundle.
+    observation?: ObservationMatcher;
+    interactingClass?: string;
+    adjustment: {
+        // Cap on the total daily dose, in milligrams
+        maxDailyDoseMg?: number;
+        // Multiplier applied to the ordered dose
+        factor?: number;
+    };
+}
+
+export interface OverrideReason {
+    code: string;
+    system: string;
+    display: string;
+}
+
+export const OVERRIDE_REASON_SYSTEM = 'http://example.org/fhir/CodeSystem/cds-override-reason';
+
+export const OVERRIDE_REASONS: OverrideReason[] = [
+    { code: 'benefit-outweighs-risk', system: OVERRIDE_REASON_SYSTEM, display: 'Benefit outweighs risk' },
+    { code: 'tolerated-previously', system: OVERRIDE_REASON_SYSTEM, display: 'Patient has tolerated this combination previously' },
+    { code: 'will-monitor', system: OVERRIDE_REASON_SYSTEM, display: 'Will monitor closely' },
+    { code: 'therapy-intended', system: OVERRIDE_REASON_SYSTEM, display: 'Combined or duplicate therapy is intended' },
+    { code: 'not-applicable', system: OVERRIDE_REASON_SYSTEM, display: 'Alert does not apply to this patient' }
+];
+
+const CBC: MonitoringLab = { code: '58410-2', display: 'CBC panel - Blood by Automated count', timeframe: 'within 1 week' };
+const INR: MonitoringLab = { code: '6301-6', display: 'INR in Platelet poor plasma by Coagulation assay', timeframe: 'within 3-5 days' };
+const BASIC_METABOLIC_PANEL: MonitoringLab = { code: '51990-0', display: 'Basic metabolic panel - Blood', timeframe: 'within 1 week' };
+const LITHIUM_LEVEL: MonitoringLab = { code: '14334-7', display: 'Lithium [Moles/volume] in Serum or Plasma', timeframe: 'within 5 days' };
+const DIGOXIN_LEVEL: MonitoringLab = { code: '10535-3', display: 'Digoxin [Mass/volume] in Serum or Plasma', timeframe: 'within 1 week' };
+const CREATINE_KINASE: MonitoringLab = { code: '2157-6', display: 'Creatine kinase [Enzymatic activity/volume] in Serum or Plasma', timeframe: 'if muscle symptoms develop' };
+
+export const DRUG_CLASSES: DrugClass[] = [
+    {
+        id: 'anticoagulant',
+        display: 'Anticoagulant',
+        ingredients: ['warfarin', 'coumadin', 'apixaban', 'eliquis', 'rivaroxaban', 'xarelto', 'dabigatran', 'edoxaban', 'heparin', 'enoxaparin', 'dalteparin'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'antiplatelet',
+        display: 'Antiplatelet',
+        ingredients: ['aspirin', 'clopidogrel', 'plavix', 'prasugrel', 'ticagrelor'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'nsaid',
+        display: 'NSAID',
+        ingredients: ['ibuprofen', 'naproxen', 'diclofenac', 'celecoxib', 'ketorolac', 'meloxicam', 'indomethacin', 'etodolac'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'ace-inhibitor',
+        display: 'ACE inhibitor',
+        ingredients: ['lisinopril', 'enalapril', 'ramipril', 'captopril', 'benazepril', 'perindopril', 'quinapril'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'arb',
+        display: 'Angiotensin II receptor blocker',
+        ingredients: ['losartan', 'valsartan', 'irbesartan', 'candesartan', 'olmesartan', 'telmisartan'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'potassium-sparing-diuretic',
+        display: 'Potassium-sparing diuretic',
+        ingredients: ['spironolactone', 'eplerenone', 'amiloride', 'triamterene'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'potassium-supplement',
+        display: 'Potassium supplement',
+        ingredients: ['potassium chloride', 'potassium citrate', 'klor-con'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'beta-blocker',
+        display: 'Beta blocker',
+        ingredients: ['metoprolol', 'atenolol', 'bisoprolol', 'carvedilol', 'propranolol', 'nadolol', 'labetalol', 'nebivolol'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'nonselective-beta-blocker',
+        display: 'Non-selective beta blocker',
+        ingredients: ['propranolol', 'nadolol', 'carvedilol', 'labetalol', 'sotalol', 'timolol'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'statin',
+        display: 'HMG-CoA reductase inhibitor',
+        ingredients: ['atorvastatin', 'simvastatin', 'rosuvastatin', 'pravastatin', 'lovastatin', 'pitavastatin'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'cyp3a4-sensitive-statin',
+        display: 'CYP3A4-metabolised statin',
+        ingredients: ['simvastatin', 'lovastatin'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'strong-cyp3a4-inhibitor',
+        display: 'Strong CYP3A4 inhibitor',
+        ingredients: ['clarithromycin', 'itraconazole', 'ketoconazole', 'posaconazole', 'ritonavir'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'ssri',
+        display: 'Selective serotonin reuptake inhibitor',
+        ingredients: ['sertraline', 'fluoxetine', 'citalopram', 'escitalopram', 'paroxetine', 'fluvoxamine'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'maoi',
+        display: 'Monoamine oxidase inhibitor',
+        ingredients: ['phenelzine', 'tranylcypromine', 'isocarboxazid', 'selegiline', 'rasagiline', 'linezolid'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'triptan',
+        display: 'Triptan',
+        ingredients: ['sumatriptan', 'rizatriptan', 'zolmitriptan', 'eletriptan', 'naratriptan'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'opioid',
+        display: 'Opioid',
+        ingredients: ['morphine', 'oxycodone', 'hydrocodone', 'hydromorphone', 'fentanyl', 'tramadol', 'codeine', 'methadone', 'tapentadol'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'serotonergic-opioid',
+        display: 'Serotonergic opioid',
+        ingredients: ['tramadol', 'tapentadol', 'methadone', 'fentanyl'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'benzodiazepine',
+        display: 'Benzodiazepine',
+        ingredients: ['diazepam', 'lorazepam', 'alprazolam', 'clonazepam', 'midazolam', 'temazepam', 'chlordiazepoxide'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'nitrate',
+        display: 'Nitrate',
+        ingredients: ['nitroglycerin', 'glyceryl trinitrate', 'isosorbide mononitrate', 'isosorbide dinitrate'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'pde5-inhibitor',
+        display: 'PDE5 inhibitor',
+        ingredients: ['sildenafil', 'tadalafil', 'vardenafil', 'avanafil'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'biguanide',
+        display: 'Biguanide',
+        ingredients: ['metformin', 'glucophage'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'macrolide',
+        display: 'Macrolide antibiotic',
+        ingredients: ['clarithromycin', 'erythromycin', 'azithromycin'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'fluoroquinolone',
+        display: 'Fluoroquinolone',
+        ingredients: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'ofloxacin'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'azole-antifungal',
+        display: 'Azole antifungal',
+        ingredients: ['fluconazole', 'itraconazole', 'ketoconazole', 'voriconazole', 'posaconazole'],
+        duplicateTherapy: true
+    },
+    {
+        id: 'metronidazole',
+        display: 'Metronidazole',
+        ingredients: ['metronidazole'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'methotrexate',
+        display: 'Methotrexate',
+        ingredients: ['methotrexate'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'trimethoprim',
+        display: 'Trimethoprim',
+        ingredients: ['trimethoprim', 'co-trimoxazole', 'bactrim'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'lithium',
+        display: 'Lithium',
+        ingredients: ['lithium'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'digoxin',
+        display: 'Digoxin',
+        ingredients: ['digoxin'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'amiodarone',
+        display: 'Amiodarone',
+        ingredients: ['amiodarone'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'ppi-cyp2c19-inhibitor',
+        display: 'CYP2C19-inhibiting proton pump inhibitor',
+        ingredients: ['omeprazole', 'esomeprazole'],
+        duplicateTherapy: false
+    },
+    {
+        id: 'clopidogrel',
+        display: 'Clopidogrel',
+        ingredients: ['clopidogrel', 'plavix'],
+        duplicateTherapy: false
+    }
+];
+
+export const INTERACTION_RULES: InteractionRule[] = [
+    {
+        id: 'anticoagulant-nsaid',
+        classes: ['anticoagulant', 'nsaid'],
+        severity: 'critical',
+        summary: 'Bleeding risk: anticoagulant with NSAID',
+        detail: 'Concurrent NSAID use with an anticoagulant substantially increases the risk of gastrointestinal and other major bleeding. Prefer acetaminophen for analgesia.',
+        monitoring: CBC
+    },
+    {
+        id: 'anticoagulant-antiplatelet',
+        classes: ['anticoagulant', 'antiplatelet'],
+        severity: 'warning',
+        summary: 'Bleeding risk: anticoagulant with antiplatelet',
+        detail: 'Combined anticoagulant and antiplatelet therapy increases bleeding risk. Confirm a clear indication (e.g. recent ACS or stent) and the intended duration.',
+        monitoring: CBC
+    },
+    {
+        id: 'raas-potassium-sparing',
+        classes: ['ace-inhibitor', 'potassium-sparing-diuretic'],
+        severity: 'warning',
+        summary: 'Hyperkalemia risk: ACE inhibitor with potassium-sparing diuretic',
+        detail: 'ACE inhibitors combined with potassium-sparing diuretics can cause clinically significant hyperkalemia, particularly with reduced renal function.',
+        monitoring: BASIC_METABOLIC_PANEL
+    },
+    {
+        id: 'arb-potassium-sparing',
+        classes: ['arb', 'potassium-sparing-diuretic'],
+        severity: 'warning',
+        summary: 'Hyperkalemia risk: ARB with potassium-sparing diuretic',
+        detail: 'ARBs combined with potassium-sparing diuretics can cause clinically significant hyperkalemia, particularly with reduced renal function.',
+        monitoring: BASIC_METABOLIC_PANEL
+    },
+    {
+        id: 'ace-potassium-supplement',
+        classes: ['ace-inhibitor', 'potassium-supplement'],
+        severity: 'warning',
+        summary: 'Hyperkalemia risk: ACE inhibitor with potassium supplement',
+        detail: 'ACE inhibitors reduce potassium excretion; supplementation may cause hyperkalemia.',
+        monitoring: BASIC_METABOLIC_PANEL
+    },
+    {
+        id: 'arb-potassium-supplement',
+        classes: ['arb', 'potassium-supplement'],
+        severity: 'warning',
+        summary: 'Hyperkalemia risk: ARB with potassium supplement',
+        detail: 'ARBs reduce potassium excretion; supplementation may cause hyperkalemia.',
+        monitoring: BASIC_METABOLIC_PANEL
+    },
+    {
+        id: 'dual-raas-blockade',
+        classes: ['ace-inhibitor', 'arb'],
+        severity: 'warning',
+        summary: 'Dual RAAS blockade: ACE inhibitor with ARB',
+        detail: 'Combining an ACE inhibitor and an ARB increases the risk of hyperkalemia, hypotension and acute kidney injury without cardiovascular benefit in most patients.',
+        monitoring: BASIC_METABOLIC_PANEL
+    },
+    {
+        id: 'ssri-maoi',
+        classes: ['ssri', 'maoi'],
+        severity: 'critical',
+        summary: 'Serotonin syndrome risk: SSRI with MAOI',
+        detail: 'SSRIs are contraindicated with MAOIs, including linezolid. Allow an adequate washout period between agents.'
+    },
+    {
+        id: 'maoi-triptan',
+        classes: ['maoi', 'triptan'],
+        severity: 'critical',
+        summary: 'Serotonin syndrome risk: MAOI with triptan',
+        detail: 'Triptans are contraindicated during and within two weeks of MAOI therapy.'
+    },
+    {
+        id: 'ssri-triptan',
+        classes: ['ssri', 'triptan'],
+        severity: 'warning',
+        summary: 'Serotonin syndrome risk: SSRI with triptan',
+        detail: 'Monitor for signs of serotonin syndrome when combining SSRIs with triptans.'
+    },
+    {
+        id: 'ssri-serotonergic-opioid',
+        classes: ['ssri', 'serotonergic-opioid'],
+        severity: 'warning',
+        summary: 'Serotonin syndrome risk: SSRI with serotonergic opioid',
+        detail: 'Tramadol, tapentadol, methadone and fentanyl add serotonergic activity and may lower the seizure threshold.'
+    },
+    {
+        id: 'opioid-benzodiazepine',
+        classes: ['opioid', 'benzodiazepine'],
+        severity: 'critical',
+        summary: 'Respiratory depression risk: opioid with benzodiazepine',
+        detail: 'Concomitant opioid and benzodiazepine use carries an FDA boxed warning for profound sedation, respiratory depression and death. Limit doses and duration if co-prescribing is unavoidable.'
+    },
+    {
+        id: 'nitrate-pde5',
+        classes: ['nitrate', 'pde5-inhibitor'],
+        severity: 'critical',
+        summary: 'Severe hypotension: nitrate with PDE5 inhibitor',
+        detail: 'PDE5 inhibitors are contraindicated with any nitrate because of the risk of severe, refractory hypotension.'
+    },
+    {
+        id: 'statin-cyp3a4',
+        classes: ['cyp3a4-sensitive-statin', 'strong-cyp3a4-inhibitor'],
+        severity: 'critical',
+        summary: 'Rhabdomyolysis risk: simvastatin/lovastatin with strong CYP3A4 inhibitor',
+        detail: 'Strong CYP3A4 inhibitors markedly raise simvastatin and lovastatin exposure. Hold the statin for the course or switch to a non-interacting statin.',
+        monitoring: CREATINE_KINASE
+    },
+    {
+        id: 'warfarin-macrolide',
+        classes: ['anticoagulant', 'macrolide'],
+        severity: 'warning',
+        summary: 'Anticoagulant effect increased by macrolide antibiotic',
+        detail: 'Macrolides can potentiate warfarin and some DOACs. Monitor INR or signs of bleeding closely during the course.',
+        monitoring: INR
+    },
+    {
+        id: 'warfarin-fluoroquinolone',
+        classes: ['anticoagulant', 'fluoroquinolone'],
+        severity: 'warning',
+        summary: 'Anticoagulant effect increased by fluoroquinolone',
+        detail: 'Fluoroquinolones can potentiate warfarin. Monitor INR closely during the course.',
+        monitoring: INR
+    },
+    {
+        id: 'warfarin-azole',
+        classes: ['anticoagulant', 'azole-antifungal'],
+        severity: 'critical',
+        summary: 'Anticoagulant effect markedly increased by azole antifungal',
+        detail: 'Azole antifungals inhibit warfarin metabolism and raise DOAC exposure. Consider an empiric dose reduction and close INR monitoring.',
+        monitoring: INR
+    },
+    {
+        id: 'warfarin-metronidazole',
+        classes: ['anticoagulant', 'metronidazole'],
+        severity: 'critical',
+        summary: 'Anticoagulant effect markedly increased by metronidazole',
+        detail: 'Metronidazole inhibits warfarin metabolism and frequently causes supratherapeutic INR.',
+        monitoring: INR
+    },
+    {
+        id: 'methotrexate-trimethoprim',
+        classes: ['methotrexate', 'trimethoprim'],
+        severity: 'critical',
+        summary: 'Bone marrow suppression: methotrexate with trimethoprim',
+        detail: 'Trimethoprim reduces methotrexate clearance and has additive antifolate effects, causing potentially fatal pancytopenia.',
+        monitoring: CBC
+    },
+    {
+        id: 'lithium-nsaid',
+        classes: ['lithium', 'nsaid'],
+        severity: 'warning',
+        summary: 'Lithium toxicity risk with NSAID',
+        detail: 'NSAIDs reduce renal lithium clearance. Monitor lithium levels when starting or stopping an NSAID.',
+        monitoring: LITHIUM_LEVEL
+    },
+    {
+        id: 'lithium-ace',
+        classes: ['lithium', 'ace-inhibitor'],
+        severity: 'warning',
+        summary: 'Lithium toxicity risk with ACE inhibitor',
+        detail: 'ACE inhibitors reduce renal lithium clearance. Monitor lithium levels and renal function.',
+        monitoring: LITHIUM_LEVEL
+    },
+    {
+        id: 'digoxin-amiodarone',
+        classes: ['digoxin', 'amiodarone'],
+        severity: 'warning',
+        summary: 'Digoxin toxicity risk with amiodarone',
+        detail: 'Amiodarone increases digoxin concentrations; reduce the digoxin dose by about half and monitor levels.',
+        monitoring: DIGOXIN_LEVEL
+    },
+    {
+        id: 'clopidogrel-ppi',
+        classes: ['clopidogrel', 'ppi-cyp2c19-inhibitor'],
+        severity: 'warning',
+        summary: 'Reduced clopidogrel efficacy with omeprazole/esomeprazole',
+        detail: 'Omeprazole and esomeprazole inhibit CYP2C19 activation of clopidogrel. Prefer pantoprazole if gastroprotection is needed.'
+    }
+];
+
+const CHRONIC_KIDNEY_DISEASE: ConditionMatcher = {
+    codes: ['709044004', '431855005', '431856006', '433144002', '431857002', '433146000', '46177005'],
+    codePrefixes: ['N18'],
+    keywords: ['chronic kidney disease', 'chronic renal', 'renal failure', 'end stage renal', 'end-stage renal']
+};
+
+const PREGNANCY: ConditionMatcher = {
+    codes: ['77386006', '72892002'],
+    codePrefixes: ['Z33', 'Z34'],
+    keywords: ['pregnan']
+};
+
+const GASTROINTESTINAL_BLEEDING: ConditionMatcher = {
+    codes: ['74474003', '13200003', '397825006', '40845000'],
+    codePrefixes: ['K25', 'K26', 'K27', 'K28', 'K92.2'],
+    keywords: ['gastrointestinal hemorrhage', 'gastrointestinal bleed', 'gi bleed', 'peptic ulcer', 'gastric ulcer', 'duodenal ulcer']
+};
+
+const EGFR_CODES = ['33914-3', '48642-3', '48643-1', '62238-1', '69405-9', '98979-8', '98980-6'];
+const POTASSIUM_CODES = ['2823-3', '6298-4'];
+
+export const CONTRAINDICATION_RULES: ContraindicationRule[] = [
+    {
+        id: 'nsaid-ckd',
+        drugClass: 'nsaid',
+        severity: 'warning',
+        summary: 'NSAID in chronic kidney disease',
+        detail: 'NSAIDs can precipitate acute kidney injury and accelerate CKD progression. Avoid where possible or use the lowest dose for the shortest duration.',
+        monitoring: BASIC_METABOLIC_PANEL,
+        condition: CHRONIC_KIDNEY_DISEASE
+    },
+    {
+        id: 'nsaid-heart-failure',
+        drugClass: 'nsaid',
+        severity: 'warning',
+        summary: 'NSAID in heart failure',
+        detail: 'NSAIDs cause sodium and fluid retention and are associated with heart failure exacerbation and hospitalisation.',
+        condition: {
+            codes: ['84114007', '42343007', '85232009', '88805009'],
+            codePrefixes: ['I50'],
+            keywords: ['heart failure', 'cardiac failure']
+        }
+    },
+    {
+        id: 'nsaid-gi-bleed',
+        drugClass: 'nsaid',
+        severity: 'critical',
+        summary: 'NSAID with history of GI bleeding or peptic ulcer',
+        detail: 'NSAIDs are contraindicated in active or recurrent peptic ulceration or gastrointestinal bleeding.',
+        condition: GASTROINTESTINAL_BLEEDING
+    },
+    {
+        id: 'anticoagulant-gi-bleed',
+        drugClass: 'anticoagulant',
+        severity: 'warning',
+        summary: 'Anticoagulant with history of GI bleeding',
+        detail: 'Review bleeding risk (e.g. HAS-BLED) and confirm the bleeding source has been addressed before anticoagulating.',
+        monitoring: CBC,
+        condition: GASTROINTESTINAL_BLEEDING
+    },
+    {
+        id: 'nonselective-beta-blocker-asthma',
+        drugClass: 'nonselective-beta-blocker',
+        severity: 'warning',
+        summary: 'Non-selective beta blocker in asthma',
+        detail: 'Non-selective beta blockers can provoke bronchospasm in patients with asthma. Prefer a cardioselective agent if a beta blocker is required.',
+        condition: {
+            codes: ['195967001', '233678006', '389145006'],
+            codePrefixes: ['J45', 'J46'],
+            keywords: ['asthma']
+        }
+    },
+    {
+        id: 'ace-pregnancy',
+        drugClass: 'ace-inhibitor',
+        severity: 'critical',
+        summary: 'ACE inhibitor in pregnancy',
+        detail: 'ACE inhibitors are fetotoxic, particularly in the second and third trimesters, and are contraindicated in pregnancy.',
+        condition: PREGNANCY
+    },
+    {
+        id: 'arb-pregnancy',
+        drugClass: 'arb',
+        severity: 'critical',
+        summary: 'ARB in pregnancy',
+        detail: 'ARBs are fetotoxic, particularly in the second and third trimesters, and are contraindicated in pregnancy.',
+        condition: PREGNANCY
+    },
+    {
+        id: 'statin-pregnancy',
+        drugClass: 'statin',
+        severity: 'critical',
+        summary: 'Statin in pregnancy',
+        detail: 'Statins should be discontinued during pregnancy.',
+        condition: PREGNANCY
+    },
+    {
+        id: 'methotrexate-pregnancy',
+        drugClass: 'methotrexate',
+        severity: 'critical',
+        summary: 'Methotrexate in pregnancy',
+        detail: 'Methotrexate is teratogenic and abortifacient and is contraindicated in pregnancy.',
+        condition: PREGNANCY
+    },
+    {
+        id: 'fluoroquinolone-myasthenia',
+        drugClass: 'fluoroquinolone',
+        severity: 'critical',
+        summary: 'Fluoroquinolone in myasthenia gravis',
+        detail: 'Fluoroquinolones carry a boxed warning for exacerbation of muscle weakness in myasthenia gravis.',
+        condition: {
+            codes: ['91637004'],
+            codePrefixes: ['G70.0'],
+            keywords: ['myasthenia']
+        }
+    },
+    {
+        id: 'metformin-egfr',
+        drugClass: 'biguanide',
+        severity: 'critical',
+        summary: 'Metformin with eGFR below 30',
+        detail: 'Metformin is contraindicated when eGFR is below 30 mL/min/1.73m² because of the risk of lactic acidosis.',
+        observation: {
+            codes: EGFR_CODES,
+            display: 'eGFR',
+            comparator: 'lt',
+            threshold: 30,
+            unit: 'mL/min/1.73m2'
+        }
+    },
+    {
+        id: 'nsaid-egfr',
+        drugClass: 'nsaid',
+        severity: 'warning',
+        summary: 'NSAID with eGFR below 30',
+        detail: 'Avoid NSAIDs in severe renal impairment.',
+        monitoring: BASIC_METABOLIC_PANEL,
+        observation: {
+            codes: EGFR_CODES,
+            display: 'eGFR',
+            comparator: 'lt',
+            threshold: 30,
+            unit: 'mL/min/1.73m2'
+        }
+    },
+    {
+        id: 'ace-hyperkalemia',
+        drugClass: 'ace-inhibitor',
+        severity: 'warning',
+        summary: 'ACE inhibitor with potassium above 5.5',
+        detail: 'Starting or continuing an ACE inhibitor with existing hyperkalemia risks dangerous potassium elevation.',
+        monitoring: BASIC_METABOLIC_PANEL,
+        observation: {
+            codes: POTASSIUM_CODES,
+            display: 'Potassium',
+            comparator: 'gt',
+            threshold: 5.5,
+            unit: 'mmol/L'
+        }
+    },
+    {
+        id: 'arb-hyperkalemia',
+        drugClass: 'arb',
+        severity: 'warning',
+        summary: 'ARB with potassium above 5.5',
+        detail: 'Starting or continuing an ARB with existing hyperkalemia risks dangerous potassium elevation.',
+        monitoring: BASIC_METABOLIC_PANEL,
+        observation: {
+            codes: POTASSIUM_CODES,
+            display: 'Potassium',
+            comparator: 'gt',
+            threshold: 5.5,
+            unit: 'mmol/L'
+        }
+    },
+    {
+        id: 'potassium-sparing-hyperkalemia',
+        drugClass: 'potassium-sparing-diuretic',
+        severity: 'critical',
+        summary: 'Potassium-sparing diuretic with potassium above 5.5',
+        detail: 'Potassium-sparing diuretics are contraindicated in hyperkalemia.',
+        observation: {
+            codes: POTASSIUM_CODES,
+            display: 'Potassium',
+            comparator: 'gt',
+            threshold: 5.5,
+            unit: 'mmol/L'
+        }
+    },
+    {
+        id: 'potassium-supplement-hyperkalemia',
+        drugClass: 'potassium-supplement',
+        severity: 'critical',
+        summary: 'Potassium supplement with potassium above 5.0',
+        detail: 'Potassium supplementation is inappropriate when serum potassium is already elevated.',
+        observation: {
+            codes: POTASSIUM_CODES,
+            display: 'Potassium',
+            comparator: 'gt',
+            threshold: 5.0,
+            unit: 'mmol/L'
+        }
+    },
+    {
+        id: 'beta-blocker-bradycardia',
+        drugClass: 'beta-blocker',
+        severity: 'warning',
+        summary: 'Beta blocker with heart rate below 50',
+        detail: 'Beta blockers may worsen symptomatic bradycardia.',
+        observation: {
+            codes: ['8867-4'],
+            display: 'Heart rate',
+            comparator: 'lt',
+            threshold: 50,
+            unit: '/min'
+        }
+    },
+    {
+        id: 'anticoagulant-inr',
+        drugClass: 'anticoagulant',
+        severity: 'critical',
+        summary: 'Anticoagulant ordered with INR above 4',
+        detail: 'The most recent INR is supratherapeutic. Hold or reduce anticoagulation and assess for bleeding.',
+        monitoring: INR,
+        observation: {
+            codes: ['6301-6', '34714-6', '46418-0'],
+            display: 'INR',
+            comparator: 'gt',
+            threshold: 4
+        }
+    }
+];
+
+export const DOSE_ADJUSTMENT_RULES: DoseAdjustmentRule[] = [
+    {
+        id: 'metformin-renal-dose',
+        ingredient: 'metformin',
+        severity: 'warning',
+        summary: 'Reduce metformin dose for eGFR below 45',
+        detail: 'With eGFR 30-45 mL/min/1.73m² the total daily metformin dose should not exceed 1000 mg.',
+        observation: {
+            codes: EGFR_CODES,
+            display: 'eGFR',
+            comparator: 'lt',
+            threshold: 45,
+            unit: 'mL/min/1.73m2'
+        },
+        adjustment: {
+            maxDailyDoseMg: 1000
+        }
+    },
+    {
+        id: 'digoxin-amiodarone-dose',
+        ingredient: 'digoxin',
+        severity: 'warning',
+        summary: 'Halve digoxin dose when starting amiodarone',
+        detail: 'Amiodarone roughly doubles digoxin concentrations; when starting amiodarone, reduce the digoxin dose by 50% and check a level.',
+        interactingClass: 'amiodarone',
+        adjustment: {
+            factor: 0.5
+        }
+    },
+    {
+        id: 'simvastatin-amiodarone-dose',
+        ingredient: 'simvastatin',
+        severity: 'warning',
+        summary: 'Limit simvastatin to 20 mg daily with amiodarone',
+        detail: 'Amiodarone increases simvastatin exposure and myopathy risk; do not exceed 20 mg simvastatin daily.',
+        interactingClass: 'amiodarone',
+        adjustment: {
+            maxDailyDoseMg: 20
+        }
+    }
+];
@@ -0,0 +1,25 @@
+// src/knowledge/modelPrices.ts
+//
+// List prices of hosted models in USD per million tokens, used to estimate what each
+// LLM call costs. Provider-reported model names such as gpt-4o-mini-2024-07-18 are
+// matched by their longest listed prefix. LLM_PRICES adds or replaces entries.
+
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+    'o4-mini': { input: 1.1, output: 4.4 },
+    'text-embedding-3-small': { input: 0.02, output: 0 },
+    'text-embedding-3-large': { input: 0.13, output: 0 },
+    'text-embedding-ada-002': { input: 0.1, output: 0 }
+};
@@ -0,0 +1,12 @@
+// src/knowledge/referrals.ts
+import { Coding } from '../types/cds-hooks';
+import { OVERRIDE_REASON_SYSTEM } from './medicationSafety';
+
+// Override reasons offered on AI specialist referral cards
+export const REFERRAL_OVERRIDE_REASONS: Coding[] = [
+    { code: 'already-under-care', system: OVERRIDE_REASON_SYSTEM, display: 'Patient already under care of this specialty' },
+    { code: 'not-clinically-indicated', system: OVERRIDE_REASON_SYSTEM, display: 'Referral not clinically indicated' },
+    { code: 'patient-declined', system: OVERRIDE_REASON_SYSTEM, display: 'Patient declined referral' },
+    { code: 'defer-reassess', system: OVERRIDE_REASON_SYSTEM, display: 'Will reassess at a later visit' },
+    { code: 'insufficient-evidence', system: OVERRIDE_REASON_SYSTEM, display: 'Recommendation not supported by chart data' }
+];
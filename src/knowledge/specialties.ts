@@ -0,0 +1,68 @@
+// src/knowledge/specialties.ts
+//
+// Local value set of the clinical specialties (SNOMED CT qualifier values under
+// 394658006 |Clinical specialty|) that specialist recommendations may refer patients
+// to. Codes outside this list are never sent to EHRs. Synonyms are lower-case
+// alternative names, including the practitioner titles models tend to use.
+
+export const SNOMED_SYSTEM = 'http://snomed.info/sct';
+
+export interface SpecialtyConcept {
+    code: string;
+    display: string;
+    synonyms: string[];
+}
+
+export const SPECIALTY_VALUE_SET: SpecialtyConcept[] = [
+    { code: '408439002', display: 'Allergy', synonyms: ['allergist', 'allergology', 'allergy and immunology'] },
+    { code: '394577000', display: 'Anesthetics', synonyms: ['anesthesiology', 'anesthesiologist', 'anaesthetics'] },
+    { code: '394579002', display: 'Cardiology', synonyms: ['cardiologist', 'cardiovascular medicine', 'cardiovascular disease'] },
+    { code: '408466002', display: 'Cardiac surgery', synonyms: ['cardiac surgeon', 'heart surgery'] },
+    { code: '394603008', display: 'Cardiothoracic surgery', synonyms: ['cardiothoracic surgeon', 'thoracic surgery'] },
+    { code: '394580004', display: 'Clinical genetics', synonyms: ['genetics', 'medical genetics', 'geneticist'] },
+    { code: '394803006', display: 'Clinical hematology', synonyms: ['hematology', 'hematologist', 'haematology'] },
+    { code: '408480009', display: 'Clinical immunology', synonyms: ['immunology', 'immunologist'] },
+    { code: '394592004', display: 'Clinical oncology', synonyms: ['radiation oncology', 'radiation oncologist'] },
+    { code: '408464004', display: 'Colorectal surgery', synonyms: ['colorectal surgeon'] },
+    { code: '408469009', display: 'Breast surgery', synonyms: ['breast surgeon'] },
+    { code: '408478003', display: 'Critical care medicine', synonyms: ['intensive care', 'intensivist', 'critical care'] },
+    { code: '394582007', display: 'Dermatology', synonyms: ['dermatologist'] },
+    { code: '408475000', display: 'Diabetic medicine', synonyms: ['diabetology', 'diabetologist', 'diabetes'] },
+    { code: '394604002', display: 'Ear, nose and throat surgery', synonyms: ['otolaryngology', 'otolaryngologist', 'ent', 'ear nose and throat'] },
+    { code: '773568002', display: 'Emergency medicine', synonyms: ['emergency physician', 'emergency department'] },
+    { code: '394583002', display: 'Endocrinology', synonyms: ['endocrinologist'] },
+    { code: '419772000', display: 'Family practice', synonyms: ['family medicine', 'family physician'] },
+    { code: '394584008', display: 'Gastroenterology', synonyms: ['gastroenterologist', 'gi'] },
+    { code: '394802001', display: 'General medicine', synonyms: ['general physician'] },
+    { code: '394814009', display: 'General practice', synonyms: ['general practitioner', 'gp', 'primary care'] },
+    { code: '394609007', display: 'General surgery', synonyms: ['general surgeon', 'surgery'] },
+    { code: '394811001', display: 'Geriatric medicine', synonyms: ['geriatrics', 'geriatrician'] },
+    { code: '394586005', display: 'Gynecology', synonyms: ['gynecologist', 'gynaecology'] },
+    { code: '408472002', display: 'Hepatology', synonyms: ['hepatologist'] },
+    { code: '408474001', display: 'Hepatobiliary and pancreatic surgery', synonyms: ['hepatobiliary surgeon', 'hpb surgery'] },
+    { code: '394807007', display: 'Infectious diseases', synonyms: ['infectious disease', 'infectious disease specialist', 'infectiologist'] },
+    { code: '419192003', display: 'Internal medicine', synonyms: ['internist', 'general internal medicine'] },
+    { code: '394593009', display: 'Medical oncology', synonyms: ['oncology', 'oncologist', 'medical oncologist'] },
+    { code: '394589003', display: 'Nephrology', synonyms: ['nephrologist', 'renal medicine'] },
+    { code: '394591006', display: 'Neurology', synonyms: ['neurologist'] },
+    { code: '394610002', display: 'Neurosurgery', synonyms: ['neurosurgeon', 'neurological surgery'] },
+    { code: '394649004', display: 'Nuclear medicine', synonyms: ['nuclear medicine physician'] },
+    { code: '408470005', display: 'Obstetrics', synonyms: ['obstetrician'] },
+    { code: '394585009', display: 'Obstetrics and gynecology', synonyms: ['ob/gyn', 'obgyn', 'obstetrics and gynaecology'] },
+    { code: '394821009', display: 'Occupational medicine', synonyms: ['occupational health'] },
+    { code: '394594003', display: 'Ophthalmology', synonyms: ['ophthalmologist', 'eye specialist'] },
+    { code: '394882004', display: 'Pain management', synonyms: ['pain medicine', 'pain specialist', 'pain clinic'] },
+    { code: '394806003', display: 'Palliative medicine', synonyms: ['palliative care', 'hospice and palliative medicine'] },
+    { code: '394537008', display: 'Pediatric specialty', synonyms: ['pediatrics', 'pediatrician', 'paediatrics'] },
+    { code: '394588006', display: 'Child and adolescent psychiatry', synonyms: ['pediatric psychiatry', 'child psychiatrist'] },
+    { code: '394611003', display: 'Plastic surgery', synonyms: ['plastic surgeon'] },
+    { code: '394587001', display: 'Psychiatry', synonyms: ['psychiatrist', 'mental health'] },
+    { code: '418112009', display: 'Pulmonary medicine', synonyms: ['pulmonology', 'pulmonologist', 'respiratory medicine', 'chest medicine'] },
+    { code: '394914008', display: 'Radiology', synonyms: ['radiologist', 'diagnostic radiology'] },
+    { code: '394602003', display: 'Rehabilitation', synonyms: ['physical medicine and rehabilitation', 'physiatry', 'physiatrist'] },
+    { code: '394810000', display: 'Rheumatology', synonyms: ['rheumatologist'] },
+    { code: '394590007', display: 'Thoracic medicine', synonyms: [] },
+    { code: '394801008', display: 'Trauma and orthopedics', synonyms: ['orthopedics', 'orthopedic surgery', 'orthopedic surgeon', 'orthopaedics'] },
+    { code: '394612005', display: 'Urology', synonyms: ['urologist'] },
+    { code: '408463005', display: 'Vascular surgery', synonyms: ['vascular surgeon'] }
+];
@@ -0,0 +1,223 @@
+// src/middleware/__tests__/cdsJwtMiddleware.test.ts
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Request, RequestHandler, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { createCdsJwtMiddleware } from '../cdsJwtMiddleware';
+import { CDSClientAuthConfig } from '../../types/cds-hooks';
+import { JwtClaims } from '../../utils/jwt';
+import { generateTestKey, signJwt } from '../../utils/__tests__/jwtFixtures';
+
+const BASE_URL = 'https://cds.example.org';
+const SERVICE_URL = `${BASE_URL}/cds-services/ai-expert-panel`;
+const ISSUER = 'https://ehr.example.org';
+
+interface CallResult {
+    status?: number;
+    body?: { errorDetail?: string };
+    passed: boolean;
+    req: Request;
+}
+
+async function call(middleware: RequestHandler, token?: string): Promise<CallResult> {
+    const req = {
+        headers: token ? { authorization: `Bearer ${token}` } : {},
+        params: { id: 'ai-expert-panel' },
+        originalUrl: '/cds-services/ai-expert-panel'
+    } as unknown as Request;
+    const result: CallResult = { passed: false, req };
+    const res = {
+        status(code: number) {
+            result.status = code;
+            return this;
+        },
+        json(body: CallResult['body']) {
+            result.body = body;
+            return this;
+        }
+    } as unknown as Response;
+
+    await middleware(req, res, () => {
+        result.passed = true;
+    });
+    return result;
+}
+
+describe('createCdsJwtMiddleware', () => {
+    const key = generateTestKey('ehr-1');
+    const rotatedKey = generateTestKey('ehr-2', 'ES256');
+    let dir: string;
+    let jwksPath: string;
+    let otherJwksPath: string;
+
+    const claims = (overrides: JwtClaims = {}): JwtClaims => {
+        const now = Math.floor(Date.now() / 1000);
+        return { iss: ISSUER, sub: 'ehr-client', aud: SERVICE_URL, iat: now, exp: now + 300, jti: uuidv4(), ...overrides };
+    };
+
+    const middleware = (auth: Partial<CDSClientAuthConfig> = {}) => createCdsJwtMiddleware({
+        baseUrl: BASE_URL,
+        auth: {
+            type: 'jwt',
+            enabled: true,
+            trustedIssuers: [{ iss: ISSUER, jwks: [jwksPath, otherJwksPath] }],
+            ...auth
+        }
+    });
+
+    const rejection = async (token: string, handler = middleware()) => {
+        const result = await call(handler, token);
+        expect(result.passed).toBe(false);
+        expect(result.status).toBe(401);
+        return result.body?.errorDetail;
+    };
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cds-jwks-'));
+        jwksPath = path.join(dir, 'jwks.json');
+        otherJwksPath = path.join(dir, 'other-jwks.json');
+        await fs.writeFile(jwksPath, JSON.stringify({ keys: [key.jwk] }));
+        await fs.writeFile(otherJwksPath, JSON.stringify({ keys: [rotatedKey.jwk] }));
+    });
+
+    afterAll(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('accepts a valid token and attaches the client', async () => {
+        const result = await call(middleware(), signJwt(key, claims({ jti: 'first' })));
+
+        expect(result.passed).toBe(true);
+        expect(result.req.cdsClient).toMatchObject({ iss: ISSUER, sub: 'ehr-client', jti: 'first' });
+    });
+
+    it('rejects calls without a token', async () => {
+        const result = await call(middleware());
+
+        expect(result.status).toBe(401);
+        expect(result.body?.errorDetail).toBe('No Bearer token provided');
+    });
+
+    it('lets every call through when disabled', async () => {
+        const result = await call(middleware({ enabled: false }));
+
+        expect(result.passed).toBe(true);
+    });
+
+    describe('algorithms', () => {
+        it('rejects unsigned tokens', async () => {
+            const [header, body] = signJwt(key, claims(), { alg: 'none' }).split('.');
+
+            expect(await rejection(`${header}.${body}.`)).toBe('Unsupported JWT algorithm none');
+        });
+
+        it('rejects HMAC tokens', async () => {
+            expect(await rejection(signJwt(key, claims(), { alg: 'HS256' }))).toBe('Unsupported JWT algorithm HS256');
+        });
+
+        it('rejects a token whose alg does not match its key', async () => {
+            expect(await rejection(signJwt(key, claims(), { alg: 'ES256' })))
+                .toBe('No signing key ehr-1 found for issuer https://ehr.example.org');
+        });
+    });
+
+    describe('issuers and keys', () => {
+        it('rejects untrusted issuers', async () => {
+            expect(await rejection(signJwt(key, claims({ iss: 'https://evil.example.org' }))))
+                .toBe('Issuer https://evil.example.org is not trusted');
+        });
+
+        it('rejects a jku outside the issuer allowlist', async () => {
+            const token = signJwt(key, claims(), { jku: 'https://evil.example.org/jwks.json' });
+
+            expect(await rejection(token)).toBe(`jku https://evil.example.org/jwks.json is not allowed for issuer ${ISSUER}`);
+        });
+
+        it('fetches keys from an allowlisted jku', async () => {
+            const result = await call(middleware(), signJwt(rotatedKey, claims(), { jku: otherJwksPath }));
+
+            expect(result.passed).toBe(true);
+        });
+
+        it('uses the first JWKS without a jku', async () => {
+            expect(await rejection(signJwt(rotatedKey, claims())))
+                .toBe('No signing key ehr-2 found for issuer https://ehr.example.org');
+        });
+
+        it('rejects an invalid signature', async () => {
+            const forger = generateTestKey('ehr-1');
+
+            expect(await rejection(signJwt(forger, claims()))).toBe('Invalid JWT signature');
+        });
+    });
+
+    describe('claims', () => {
+        it('rejects expired tokens', async () => {
+            const now = Math.floor(Date.now() / 1000);
+
+            expect(await rejection(signJwt(key, claims({ iat: now - 600, exp: now - 300 })))).toBe('Token has expired');
+        });
+
+        it('rejects tokens without iat', async () => {
+            expect(await rejection(signJwt(key, claims({ iat: undefined })))).toBe('Token has no iat');
+        });
+
+        it('rejects tokens that live longer than maxLifetimeSec', async () => {
+            const now = Math.floor(Date.now() / 1000);
+
+            expect(await rejection(signJwt(key, claims({ exp: now + 3600 })))).toBe('Token lifetime exceeds 300 seconds');
+        });
+
+        it('rejects another audience', async () => {
+            expect(await rejection(signJwt(key, claims({ aud: `${BASE_URL}/cds-services/other` }))))
+                .toBe(`Token audience does not match ${SERVICE_URL}`);
+        });
+
+        it('accepts configured extra audiences', async () => {
+            const result = await call(
+                middleware({ audiences: ['https://cds.example.org'] }),
+                signJwt(key, claims({ aud: 'https://cds.example.org' }))
+            );
+
+            expect(result.passed).toBe(true);
+        });
+    });
+
+    describe('jti replay', () => {
+        it('rejects a jti that was already used', async () => {
+            const handler = middleware();
+            const token = signJwt(key, claims());
+
+            expect((await call(handler, token)).passed).toBe(true);
+            expect(await rejection(token, handler)).toBe('Token jti has already been used');
+        });
+
+        it('rejects tokens without a jti', async () => {
+            expect(await rejection(signJwt(key, claims({ jti: undefined })))).toBe('Token has no jti');
+        });
+    });
+
+    describe('tenant', () => {
+        it('takes the tenant claim for issuers without a tenant', async () => {
+            const result = await call(middleware(), signJwt(key, claims({ tenant: 'acme' })));
+
+            expect(result.req.cdsClient?.tenant).toBe('acme');
+        });
+
+        it('keeps the configured tenant of the issuer', async () => {
+            const handler = middleware({ trustedIssuers: [{ iss: ISSUER, jwks: [jwksPath], tenant: 'hospital' }] });
+            const result = await call(handler, signJwt(key, claims({ tenant: 'acme' })));
+
+            expect(result.req.cdsClient?.tenant).toBe('hospital');
+        });
+    });
+});
@@ -79,4 +79,10 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
     }
 };
 
+// Tenant claim of the introspected token, which the caller's LLM usage is charged to
+export function tokenTenant(req: Request): string | undefined {
+    const tenant = req.tokenIntrospection?.tenant;
+    return typeof tenant === 'string' && tenant ? tenant : undefined;
+}
+
 export default authMiddleware;
\ No newline at end of file
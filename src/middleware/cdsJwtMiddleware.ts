@@ -0,0 +1,190 @@
+// src/middleware/cdsJwtMiddleware.ts
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { CDSClientAuthConfig, CDSServiceError, TrustedIssuer } from '../types/cds-hooks';
+import { JwksCache } from '../services/JwksCache';
+import { JwtClaims, JwtError, decodeJwt, isSupportedAlgorithm, verifyJwtSignature } from '../utils/jwt';
+
+export interface CDSClient {
+    iss: string;
+    sub?: string;
+    jti: string;
+    tenant?: string;
+    claims: JwtClaims;
+}
+
+// Extend Express Request type
+declare module 'express-serve-static-core' {
+    interface Request {
+        cdsClient?: CDSClient;
+    }
+}
+
+/**
+ * Remembers jtis until their token expires so a captured token cannot be replayed
+ */
+export class JtiReplayCache {
+    private seen: Map<string, number> = new Map();
+
+    /**
+     * Record a jti; returns false if it was already used and has not expired
+     */
+    checkAndStore(iss: string, jti: string, expiresAt: number): boolean {
+        const now = Date.now();
+        this.purge(now);
+
+        const key = `${iss}|${jti}`;
+        if ((this.seen.get(key) ?? 0) > now) {
+            return false;
+        }
+
+        this.seen.set(key, expiresAt);
+        return true;
+    }
+
+    private purge(now: number): void {
+        for (const [key, expiresAt] of this.seen) {
+            if (expiresAt <= now) {
+                this.seen.delete(key);
+            }
+        }
+    }
+}
+
+interface CdsJwtMiddlewareOptions {
+    baseUrl: string;
+    auth: CDSClientAuthConfig;
+    jwksCache?: JwksCache;
+    replayCache?: JtiReplayCache;
+}
+
+class CdsAuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CdsAuthError';
+    }
+}
+
+/**
+ * Verifies the JWT an EHR sends with each CDS Hooks call: signature against the issuer's
+ * allowlisted JWKS, audience, expiry and jti replay.
+ */
+export function createCdsJwtMiddleware(options: CdsJwtMiddlewareOptions): RequestHandler {
+    const { auth } = options;
+    const baseUrl = options.baseUrl.replace(/\/+$/, '');
+    const clockToleranceSec = auth.clockToleranceSec ?? 60;
+    const maxLifetimeSec = auth.maxLifetimeSec ?? 300;
+    const jwksCache = options.jwksCache || new JwksCache({ ttlMs: auth.jwksCacheTtlMs });
+    const replayCache = options.replayCache || new JtiReplayCache();
+    const issuers = new Map<string, TrustedIssuer>(auth.trustedIssuers.map(issuer => [issuer.iss, issuer]));
+
+    if (!auth.enabled) {
+        console.warn('CDS client authentication is disabled; CDS service endpoints accept unauthenticated calls');
+    } else if (issuers.size === 0) {
+        console.warn('No trusted CDS client issuers configured; all CDS service calls will be rejected');
+    }
+
+    const reject = (res: Response, detail: string) => {
+        const body: CDSServiceError = {
+            error: 'Unauthorized',
+            errorDetail: detail
+        };
+        return res.status(401).json(body);
+    };
+
+    const authenticate = async (req: Request): Promise<CDSClient> => {
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            throw new CdsAuthError('No Bearer token provided');
+        }
+
+        const jwt = decodeJwt(authHeader.slice('Bearer '.length).trim());
+        const { header, claims } = jwt;
+
+        if (!isSupportedAlgorithm(header.alg)) {
+            throw new CdsAuthError(`Unsupported JWT algorithm ${header.alg}`);
+        }
+
+        const issuer = claims.iss ? issuers.get(claims.iss) : undefined;
+        if (!issuer) {
+            throw new CdsAuthError(`Issuer ${claims.iss || '(missing)'} is not trusted`);
+        }
+
+        // jku is only honoured if it is on the issuer's allowlist
+        if (header.jku && !issuer.jwks.includes(header.jku)) {
+            throw new CdsAuthError(`jku ${header.jku} is not allowed for issuer ${issuer.iss}`);
+        }
+
+        const source = header.jku || issuer.jwks[0];
+        if (!source) {
+            throw new CdsAuthError(`No JWKS configured for issuer ${issuer.iss}`);
+        }
+
+        const key = await jwksCache.getKey(source, header.kid, header.alg);
+        if (!key) {
+            throw new CdsAuthError(`No signing key${header.kid ? ` ${header.kid}` : ''} found for issuer ${issuer.iss}`);
+        }
+
+        if (!verifyJwtSignature(jwt, key)) {
+            throw new CdsAuthError('Invalid JWT signature');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        if (typeof claims.exp !== 'number' || claims.exp + clockToleranceSec < now) {
+            throw new CdsAuthError('Token has expired');
+        }
+        // Without iat the lifetime cannot be bounded, so a long-lived token could be reused
+        if (typeof claims.iat !== 'number') {
+            throw new CdsAuthError('Token has no iat');
+        }
+        if (claims.iat - clockToleranceSec > now) {
+            throw new CdsAuthError('Token issued in the future');
+        }
+        if (claims.exp - claims.iat > maxLifetimeSec) {
+            throw new CdsAuthError(`Token lifetime exceeds ${maxLifetimeSec} seconds`);
+        }
+
+        const serviceUrl = `${baseUrl}/cds-services/${req.params.id}`;
+        const expectedAudiences = [serviceUrl, `${baseUrl}${req.originalUrl.split('?')[0]}`, ...(auth.audiences || [])];
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.some(aud => aud && expectedAudiences.includes(aud.replace(/\/+$/, '')))) {
+            throw new CdsAuthError(`Token audience does not match ${serviceUrl}`);
+        }
+
+        if (!claims.jti) {
+            throw new CdsAuthError('Token has no jti');
+        }
+        if (!replayCache.checkAndStore(issuer.iss, claims.jti, (claims.exp + clockToleranceSec) * 1000)) {
+            throw new CdsAuthError('Token jti has already been used');
+        }
+
+        return {
+            iss: issuer.iss,
+            sub: claims.sub,
+            jti: claims.jti,
+            // A tenant configured for the issuer cannot be overridden by the token
+            tenant: issuer.tenant || claims.tenant,
+            claims
+        };
+    };
+
+    return async (req: Request, res: Response, next: NextFunction) => {
+        if (!auth.enabled) {
+            return next();
+        }
+
+        try {
+            req.cdsClient = await authenticate(req);
+            next();
+        } catch (error) {
+            if (error instanceof CdsAuthError || error instanceof JwtError) {
+                console.warn(`Rejected CDS client call to ${req.originalUrl}: ${error.message}`);
+                return reject(res, error.message);
+            }
+
+            console.error('CDS client authentication error:', error);
+            return reject(res, 'Unable to verify token');
+        }
+    };
+}
+
+export default createCdsJwtMiddleware;
@@ -0,0 +1,48 @@
+// src/middleware/roleMiddleware.ts
+import { Request, Response, NextFunction } from 'express';
+
+export type Role = 'admin';
+
+export interface RoleGrant {
+    // Token scopes that grant the role
+    scopes: string[];
+    // Token subjects (sub) that hold the role
+    subjects: string[];
+}
+
+export type RoleConfig = Record<Role, RoleGrant>;
+
+/**
+ * Whether an introspected token holds a role, through a roles/role claim, a granting
+ * scope or a listed subject
+ */
+export function hasRole(token: Request['tokenIntrospection'], role: Role, config: RoleConfig): boolean {
+    if (!token) return false;
+
+    const claimed = [token.roles, token.role].flat().filter((value): value is string => typeof value === 'string');
+    const scopes = (token.scope || '').split(' ').filter(Boolean);
+    const grant = config[role];
+
+    return claimed.includes(role) ||
+        scopes.some(scope => grant.scopes.includes(scope)) ||
+        (!!token.sub && grant.subjects.includes(token.sub));
+}
+
+/**
+ * Allow the request only if its token holds role. Must run after authMiddleware.
+ */
+export const requireRole = (role: Role, config: RoleConfig) =>
+    (req: Request, res: Response, next: NextFunction) => {
+        if (!req.tokenIntrospection) {
+            return res.status(401).json({ error: 'Not authenticated' });
+        }
+
+        if (!hasRole(req.tokenIntrospection, role, config)) {
+            return res.status(403).json({
+                error: 'Forbidden',
+                message: `The ${role} role is required`
+            });
+        }
+
+        next();
+    };
@@ -0,0 +1,117 @@
+// src/routes/__tests__/chatService.test.ts
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express, { NextFunction, Request, Response } from 'express';
+import chatRouter from '../chatService';
+import { createLLMProvider } from '../../services/llm/createLLMProvider';
+import { getUsageLedger } from '../../services/usageLedgerFactory';
+
+// Shared with the mocked ledger factory below, which runs before this module's code
+const LEDGER_DIR = path.join(os.tmpdir(), `chat-usage-${process.pid}`);
+
+// Chat answers come from the fixture provider, so every message makes one metered call
+const mockProvider = createLLMProvider({ provider: 'fixture', model: 'fixture' });
+
+jest.mock('../../config', () => ({ config: { llm: {}, prompts: {} } }));
+jest.mock('../../services/ChatService', () => ({
+    ChatService: jest.fn().mockImplementation(() => ({
+        initializeContext: jest.fn(async () => undefined),
+        processQuery: jest.fn(async (query: string) =>
+            (await mockProvider.complete({ task: 'chat-answer', messages: [{ role: 'user', content: query }] })).content)
+    }))
+}));
+jest.mock('../../services/NFTManager', () => ({ NFTManager: jest.fn() }));
+jest.mock('../../utils/analysisHistory', () => ({ AnalysisHistoryManager: jest.fn() }));
+jest.mock('../../middleware/authMiddleware', () => ({
+    __esModule: true,
+    ...jest.requireActual('../../middleware/authMiddleware'),
+    // The tenant claim is taken from a test header instead of token introspection
+    default: (req: Request, _res: Response, next: NextFunction) => {
+        const tenant = req.headers['x-tenant'];
+        req.tokenIntrospection = { active: true, client_id: 'test', scope: '', exp: 0, ...(tenant && { tenant }) };
+        next();
+    }
+}));
+jest.mock('../../services/usageLedgerFactory', () => {
+    const { join } = jest.requireActual('path');
+    const { tmpdir } = jest.requireActual('os');
+    const { UsageLedger } = jest.requireActual('../../services/UsageLedger');
+    const ledger = new UsageLedger({
+        path: join(tmpdir(), `chat-usage-${process.pid}`, 'ledger.json'),
+        budgets: { tenants: { acme: 1 } }
+    });
+    return { getUsageLedger: () => ledger };
+});
+
+async function waitFor(condition: () => Promise<boolean>, timeoutMs = 2000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await condition())) {
+        if (Date.now() > deadline) {
+            throw new Error('Timed out waiting for the usage ledger');
+        }
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+}
+
+describe('chat routes', () => {
+    let server: Server;
+    let baseUrl: string;
+    const ledger = getUsageLedger();
+    // Chat usage is recorded after the response is sent
+    const chatCalls = async (tenant: string) => (await ledger.getReport({ tenant })).tenants[0]?.chat.calls ?? 0;
+
+    const sendMessage = (tenant?: string) => fetch(`${baseUrl}/chat/p1/message`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(tenant && { 'x-tenant': tenant }) },
+        body: JSON.stringify({ message: 'How are you?', context: { sessionId: `session-${tenant}`, analysisHistory: [] } })
+    });
+
+    beforeAll(async () => {
+        await fs.rm(LEDGER_DIR, { recursive: true, force: true });
+        const app = express();
+        app.use(express.json());
+        app.use('/', chatRouter);
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        await fs.rm(LEDGER_DIR, { recursive: true, force: true });
+    });
+
+    it('charges a message to the tenant of the caller', async () => {
+        const response = await sendMessage('globex');
+
+        expect(response.status).toBe(200);
+        expect(((await response.json()) as { usage: unknown }).usage).toMatchObject({ calls: 1 });
+        await waitFor(async () => (await chatCalls('globex')) === 1);
+        expect((await ledger.getReport({ tenant: 'globex' })).tenants[0].chatSessionCount).toBe(1);
+    });
+
+    it('charges callers without a tenant to the default tenant', async () => {
+        expect((await sendMessage()).status).toBe(200);
+
+        await waitFor(async () => (await chatCalls('default')) === 1);
+    });
+
+    it('refuses messages once the tenant has spent its budget', async () => {
+        await ledger.recordChat({ sessionId: 'earlier', patientId: 'p1', tenant: 'acme' }, {
+            calls: 1, inputTokens: 0, outputTokens: 0, costUsd: 1, unpricedCalls: 0
+        });
+
+        const response = await sendMessage('acme');
+
+        expect(response.status).toBe(429);
+        expect(await response.json()).toMatchObject({
+            error: 'Usage budget exceeded',
+            budget: { tenant: 'acme', spentUsd: 1, limitUsd: 1, exceeded: true }
+        });
+        // The refused message was never answered or charged
+        expect(await chatCalls('acme')).toBe(1);
+    });
+});
@@ -1,35 +1,78 @@
 // src/routes/cdsHooksService.ts
 import express, { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { AnalysisQueue } from '../services/AnalysisQueue';
+import { FhirResource, ServiceRequest } from 'fhir/r4';
+import { AnalysisPriority, AnalysisQueueEvent, AnalysisUsageUpdate } from '../services/AnalysisQueue';
+import { createAnalysisQueue } from '../services/analysisQueueFactory';
+import { BudgetExceededError } from '../services/UsageLedger';
+import { getUsageLedger } from '../services/usageLedgerFactory';
+import { UsageMeter, meterUsage } from '../services/llm/usage';
 import { NFTManager } from '../services/NFTManager';
 import { FHIRClient } from '../services/FHIRClient';
-import { CDSHookRequest, Card, CDSServiceResponse, Indicator } from '../types/cds-hooks';
+import {
+    Action,
+    CDSHookRequest,
+    Card,
+    CDSServiceConfig,
+    CDSServiceError,
+    CDSServiceResponse,
+    FeedbackRequest,
+    Indicator,
+    OrderSelectContext,
+    OrderSignContext
+} from '../types/cds-hooks';
 import { config } from '../config';
 import { Specialist } from '../services/OpenAIService';
 import type { Chain } from 'viem/chains';
 import { ucanMapper } from '../middleware/ucanMapper'; 
-import authMiddleware from '../middleware/authMiddleware';
+import authMiddleware, { tokenTenant } from '../middleware/authMiddleware';
+import { hasRole, requireRole } from '../middleware/roleMiddleware';
+import { createCdsJwtMiddleware } from '../middleware/cdsJwtMiddleware';
 import { AnalysisHistoryManager } from '../utils/analysisHistory';
 import { GenesisService } from '../services/Genesis';
 import { TransactionStore } from '../services/TransactionStore';
+import {
+    MedicationSafetyService,
+    SafetyFinding,
+    SafetyReviewInput,
+    DoseAdjustment,
+    MonitoringSuggestion
+} from '../services/MedicationSafetyService';
+import { OVERRIDE_REASONS } from '../knowledge/medicationSafety';
+import { PrefetchResolver } from '../services/PrefetchResolver';
+import { CDSServiceInvocation, CDSServiceRegistry } from '../services/CDSServiceRegistry';
+import { FeedbackStore } from '../services/FeedbackStore';
+import { REFERRAL_OVERRIDE_REASONS } from '../knowledge/referrals';
+import { stableCardId } from '../utils/cardIds';
+import { clinicalFingerprint } from '../utils/fingerprint';
+import { buildEncounterContext, EncounterContext } from '../utils/encounters';
+import { normalizeMedications } from '../utils/medications';
+import { normalizeObservations } from '../utils/observations';
+import { AnalysisDeduplicator, DeduplicatedAnalysis } from '../services/AnalysisDeduplicator';
+import { FHIRTaskTracker } from '../services/FHIRTaskTracker';
+import { BatchAnalysisService } from '../services/BatchAnalysisService';
+import {
+    ReanalysisPolicyInput,
+    ReanalysisScheduler,
+    ReanalysisTrigger
+} from '../services/ReanalysisScheduler';
+import {
+    ANALYSIS_STAGE_LABELS,
+    AnalysisProgressEvent,
+    AnalysisProgressTracker,
+    AnalysisProgressUpdate,
+    isFinalStage
+} from '../services/AnalysisProgressTracker';
+import { NFTMetadata } from '../contracts/PatientNFT';
+import { LLMValidationError } from '../services/llm/structuredOutput';
+import { PromptScope } from '../services/llm/PromptRegistry';
+import { SNOMED_SYSTEM } from '../knowledge/specialties';
+import { normalizeSpecialist } from '../utils/specialties';
 
 const router = express.Router();
 
-// Initialize services
-const analysisQueue = new AnalysisQueue({
-    amqp: config.analysisQueue.amqp,
-    nft: {
-        contractAddress: process.env.NFT_CONTRACT_ADDRESS  as `0x${string}`,
-        privateKey: process.env.NFT_PRIVATE_KEY as `0x${string}`,
-        chain: process.env.NFT_CHAIN_ID ? parseInt(process.env.NFT_CHAIN_ID) : 31337,
-        rpcUrl: process.env.NFT_RPC_URL || 'http://127.0.0.1:8545',
-        storage: process.env.NFT_STORAGE_TYPE as unknown as 'ipfs' | 'datauri'
-    },
-    openai: {
-        apiKey: config.analysisQueue.openai.apiKey,
-    }
-});
+// Initialize services; analyses run here only when the worker is embedded
+const analysisQueue = createAnalysisQueue('server');
 
 const nftManager = new NFTManager({
     contractAddress: process.env.NFT_CONTRACT_ADDRESS as `0x${string}`,
@@ -44,40 +87,128 @@ const fhirClient = new FHIRClient(config.fhir);
 const historyManager = new AnalysisHistoryManager(nftManager);
 
 // Initialize Genesis service
-const genesisService = new GenesisService(config.analysisQueue.openai.apiKey);
+const genesisService = new GenesisService(config.llm.genesis, config.prompts);
 
 // Initialize TransactionStore
 const transactionStore = new TransactionStore();
 
+// Initialize FeedbackStore
+const feedbackStore = new FeedbackStore();
+
+// Initialize medication safety rules engine
+const medicationSafetyService = new MedicationSafetyService();
+
+// Reuses analyses for retried hookInstances and unchanged charts
+const analysisDeduplicator = new AnalysisDeduplicator({
+    reuseWindowMs: config.cdsHooks.services.find(service => service.id === 'ai-expert-panel')?.config?.reuseWindowMs
+});
+analysisQueue.on(AnalysisQueueEvent.ANALYSIS_FAILED, ({ taskId }: { taskId: string }) => {
+    analysisDeduplicator.invalidate(taskId);
+});
+analysisQueue.on(AnalysisQueueEvent.ANALYSIS_CANCELLED, ({ taskId }: { taskId: string }) => {
+    analysisDeduplicator.invalidate(taskId);
+});
+
+// Population analyses, followed through the queue's events
+const batchAnalysisService = new BatchAnalysisService(config.batchAnalysis);
+analysisQueue.on(AnalysisQueueEvent.ANALYSIS_COMPLETED, ({ taskId, metadata }: { taskId: string; metadata: NFTMetadata }) => {
+    batchAnalysisService.recordCompleted(taskId, metadata);
+});
+analysisQueue.on(AnalysisQueueEvent.ANALYSIS_FAILED, ({ taskId, error }: { taskId: string; error?: { message?: string } }) => {
+    batchAnalysisService.recordFailed(taskId, error?.message);
+});
+analysisQueue.on(AnalysisQueueEvent.ANALYSIS_CANCELLED, ({ taskId }: { taskId: string }) => {
+    batchAnalysisService.recordCancelled(taskId);
+});
+
+// Re-analyzes patients under the configured policies, using the configured FHIR server's access
+const reanalysisScheduler = config.reanalysis.enabled
+    ? new ReanalysisScheduler(config.reanalysis, {
+        enqueue: (patientId, priority, requestedBy, tenant) => queuePatientAnalysis(patientId, requestedBy || '', priority, tenant),
+        resolveGroup: groupId => fhirClient.getGroupPatientIds(groupId)
+    })
+    : null;
+if (reanalysisScheduler) {
+    analysisQueue.on(AnalysisQueueEvent.ANALYSIS_COMPLETED, ({ metadata }: { metadata: NFTMetadata }) => {
+        reanalysisScheduler.recordCompleted(metadata).catch(error => {
+            console.error('Error rescheduling re-analysis:', error);
+        });
+    });
+    reanalysisScheduler.start();
+}
+
+// Admin endpoints need a token holding the admin role
+const requireAdmin = requireRole('admin', config.security.roles);
+
+// Token usage and cost of every analysis attempt, including those run by workers
+const usageLedger = getUsageLedger();
+analysisQueue.on(AnalysisQueueEvent.ANALYSIS_USAGE, ({ taskId, patientId, tenant, usage }: AnalysisUsageUpdate) => {
+    usageLedger.recordAnalysis({ analysisId: taskId, patientId, tenant }, usage).catch(error => {
+        console.error(`Error recording usage of analysis ${taskId}:`, error);
+    });
+});
+
+// Stage history of recent analyses, streamed by the task events endpoint
+const progressTracker = new AnalysisProgressTracker();
+analysisQueue.on(AnalysisQueueEvent.ANALYSIS_PROGRESS, (update: AnalysisProgressUpdate) => {
+    progressTracker.record(update);
+});
+
+// Optionally mirrors analyses as FHIR Tasks
+const fhirTaskTracker = config.fhir.taskTracking.enabled
+    ? new FHIRTaskTracker({ defaultServer: config.fhir, resultsBaseUrl: config.server.baseUrl })
+    : null;
+if (fhirTaskTracker) {
+    analysisQueue.on(AnalysisQueueEvent.ANALYSIS_PROGRESS, (update: AnalysisProgressUpdate) => {
+        fhirTaskTracker.handleProgress(update);
+    });
+}
+
+// Interval of SSE comments that keep idle event streams open through proxies
+const EVENT_STREAM_HEARTBEAT_MS = 15000;
+
+// Fetches prefetch data the EHR did not send from its FHIR server
+const prefetchResolver = new PrefetchResolver(config.fhir.prefetch);
+
+type PatientData = ReturnType<typeof extractPatientData>;
+
+// Services are declared in config; each one is wired to its handler here
+const cdsServiceRegistry = new CDSServiceRegistry<PatientData>(config.cdsHooks.services)
+    .register('ai-expert-panel', handleExpertPanel)
+    .register('medication-safety', handleMedicationSafety)
+    .register('order-safety-review', handleOrderSafetyReview);
+cdsServiceRegistry.warnUnhandled();
+
+// EHR calls must carry a JWT signed by a trusted issuer
+const cdsClientAuth = createCdsJwtMiddleware({
+    baseUrl: config.cdsHooks.baseUrl,
+    auth: config.cdsHooks.auth!
+});
+
 // CDS Services Discovery Endpoint
 router.get('/cds-services', (req: Request, res: Response) => {
     res.set('Cache-Control', 'public, max-age=3600');
-    res.json({
-        services: [{
-            hook: 'patient-view',
-            title: 'AI Expert Panel Analysis',
-            description: 'Provides AI-powered specialist panel recommendations based on patient context',
-            id: 'ai-expert-panel',
-            prefetch: {
-                patient: 'Patient/{{context.patientId}}',
-                conditions: 'Condition?patient={{context.patientId}}',
-                medications: 'MedicationStatement?patient={{context.patientId}}',
-                observations: 'Observation?patient={{context.patientId}}',
-                encounters: 'Encounter?patient={{context.patientId}}'
-            }
-        }]
-    });
+    res.json(cdsServiceRegistry.getDiscovery());
 });
 
 // Main CDS Service Endpoint
-router.post('/cds-services/:id', async (req: Request, res: Response) => {
+router.post('/cds-services/:id', cdsClientAuth, async (req: Request, res: Response) => {
     try {
         const hookRequest = req.body as CDSHookRequest;
 
         console.log('Received request:', hookRequest);
 
+        const service = cdsServiceRegistry.get(req.params.id);
+        if (!service) {
+            const notFound: CDSServiceError = {
+                error: 'Unknown CDS service',
+                errorDetail: `No enabled CDS service with id "${req.params.id}"`
+            };
+            return res.status(404).json(notFound);
+        }
+
         // Validate request
-        const validationError = validateRequest(hookRequest);
+        const validationError = validateRequest(hookRequest, service);
         if (validationError) {
             return res.status(400).json({
                 cards: [{
@@ -89,6 +220,9 @@ router.post('/cds-services/:id', async (req: Request, res: Response) => {
             });
         }
 
+        // Fill in any prefetch the EHR left out from its FHIR server
+        hookRequest.prefetch = await prefetchResolver.resolve(hookRequest, service.prefetch);
+
         // Extract patient data
         const patientData = extractPatientData(hookRequest);
         if (!patientData.isValid) {
@@ -102,19 +236,13 @@ router.post('/cds-services/:id', async (req: Request, res: Response) => {
             });
         }
 
-        // Create analysis task
-        const task = await analysisQueue.createAnalysis(
-            { ...patientData.patient, conditions: patientData.conditions, observations: patientData.observations, medications: patientData.medications },
-            hookRequest.context.userId
-        );
-
-        // Generate response cards
-        const cards = generateResponseCards(task, hookRequest.context);
-        res.json({ cards });
-
-        // Log successful request
-        console.log(`Created analysis task ${task} for patient ${hookRequest.context.patientId}`);
-        // res.json({});
+        const response = await service.handler({
+            request: hookRequest,
+            service,
+            patientData,
+            tenant: req.cdsClient?.tenant
+        });
+        res.json(response);
     } catch (error) {
         console.error('Service error:', error);
         res.status(500).json({
@@ -128,6 +256,49 @@ router.post('/cds-services/:id', async (req: Request, res: Response) => {
     }
 });
 
+// CDS Hooks Feedback Endpoint
+router.post('/cds-services/:id/feedback', cdsClientAuth, async (req: Request, res: Response) => {
+    try {
+        const body = req.body as FeedbackRequest;
+
+        if (!cdsServiceRegistry.get(req.params.id)) {
+            const notFound: CDSServiceError = {
+                error: 'Unknown CDS service',
+                errorDetail: `No enabled CDS service with id "${req.params.id}"`
+            };
+            return res.status(404).json(notFound);
+        }
+
+        const validationError = validateFeedback(body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        await feedbackStore.storeFeedback(req.params.id, body.feedback);
+        console.log(`Recorded ${body.feedback.length} feedback entries for service ${req.params.id}`);
+
+        res.status(200).json({});
+    } catch (error) {
+        console.error('Error storing feedback:', error);
+        res.status(500).json({
+            error: 'Failed to store feedback'
+        });
+    }
+});
+
+// Acceptance report grouped by specialty and indicator
+router.get('/cds-services/:id/feedback/report', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const report = await feedbackStore.getReport(req.params.id);
+        res.json(report);
+    } catch (error) {
+        console.error('Error building feedback report:', error);
+        res.status(500).json({
+            error: 'Failed to build feedback report'
+        });
+    }
+});
+
 // Task Status Endpoint
 router.get('/task/:taskId/status', async (req: Request, res: Response) => {
     try {
@@ -147,7 +318,8 @@ router.get('/task/:taskId/status', async (req: Request, res: Response) => {
         }
 
         // Convert NFT metadata to CDS Hooks cards
-        const cards = await generateStatusCards(metadata);
+        const cards = await generateStatusCards(withLiveProgress(metadata, progressTracker.getLatest(taskId)));
+        recordStatusCards(metadata, cards);
         res.json({ cards });
 
     } catch (error) {
@@ -163,6 +335,93 @@ router.get('/task/:taskId/status', async (req: Request, res: Response) => {
     }
 });
 
+// Task Progress Stream (Server-Sent Events)
+router.get('/task/:taskId/events', async (req: Request, res: Response) => {
+    const taskId = req.params.taskId;
+    let history = progressTracker.getEvents(taskId);
+
+    // Nothing tracked here, e.g. after a restart; fall back to the recorded result
+    if (history.length === 0) {
+        const recorded = await nftManager.getMetadata(taskId).catch(() => null);
+        if (!recorded) {
+            return res.status(404).json({ error: 'Task not found' });
+        }
+        history = recordedProgress(taskId, recorded);
+    }
+
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const lastEventId = Number(req.get('Last-Event-ID')) || 0;
+    const send = (event: AnalysisProgressEvent) => {
+        res.write(`id: ${event.sequence}\nevent: ${event.stage}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    const replay = history.filter(event => event.sequence > lastEventId);
+    replay.forEach(send);
+
+    const last = history[history.length - 1];
+    if (last && isFinalStage(last.stage)) {
+        return res.end();
+    }
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), EVENT_STREAM_HEARTBEAT_MS);
+    const unsubscribe = progressTracker.subscribe(taskId, event => {
+        send(event);
+        if (isFinalStage(event.stage)) {
+            close();
+            res.end();
+        }
+    });
+    const close = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    };
+
+    req.on('close', close);
+});
+
+// Task Cancellation Endpoint, for the user who requested the task or an admin
+router.delete('/task/:taskId', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const taskId = req.params.taskId;
+        const token = req.tokenIntrospection;
+        const result = await analysisQueue.cancelAnalysis(taskId, requestedBy =>
+            (!!requestedBy && !!token?.sub && requestedBy === token.sub) ||
+            hasRole(token, 'admin', config.security.roles)
+        );
+
+        switch (result) {
+            case 'not-found':
+                return res.status(404).json({ error: 'Task not found' });
+            case 'forbidden':
+                return res.status(403).json({
+                    error: 'Forbidden',
+                    message: 'Only the user who requested the task or an admin can cancel it'
+                });
+            case 'finished':
+                return res.status(409).json({
+                    error: 'Task already finished',
+                    message: 'Only queued or running analyses can be cancelled'
+                });
+            default:
+                console.log(`Cancelled analysis task ${taskId}`);
+                res.json({ taskId, status: 'cancelled' });
+        }
+    } catch (error) {
+        console.error('Error cancelling task:', error);
+        res.status(500).json({
+            error: 'Failed to cancel task',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
 // Patient metadata endpoint
 router.get('/patient/:patientId/metadata', authMiddleware, async (req: Request, res: Response) => {
     try {
@@ -337,17 +596,39 @@ router.post('/analysis/:analysisId/deep-analysis', async (req: Request, res: Res
             }
         }));
 
-        // Process the analysis using GENESIS protocol
-        const deepAnalysis = await genesisService.processAnalysisHistory(formattedHistory);
+        // Charged to the tenant of the analysis it extends
+        const tenant = (await usageLedger.getAnalysisUsage(analysisId))?.tenant;
+        await usageLedger.assertWithinBudget(tenant);
+
+        // Process the analysis using GENESIS protocol, with the prompts of its tenant; its cost is added to the analysis
+        const meter = new UsageMeter();
+        const prompts: PromptScope = { tenant, used: [] };
+        const deepAnalysis = await meterUsage(meter, () => genesisService.processAnalysisHistory(formattedHistory, prompts))
+            .finally(() => {
+                usageLedger.recordAnalysis({ analysisId, patientId: history[0].patientId, tenant }, meter.totals()).catch(error => {
+                    console.error(`Error recording usage of deep analysis ${analysisId}:`, error);
+                });
+            });
 
         res.json({
             analysisId,
             timestamp: new Date().toISOString(),
-            deepAnalysis
+            deepAnalysis,
+            usage: meter.totals(),
+            prompts: prompts.used
         });
 
     } catch (error) {
         console.error('Error in deep analysis:', error);
+        if (error instanceof BudgetExceededError) {
+            return res.status(429).json({ error: 'Usage budget exceeded', message: error.message, budget: error.status });
+        }
+        if (error instanceof LLMValidationError) {
+            return res.status(502).json({
+                error: 'The model did not return a valid deep analysis',
+                validationFailures: error.failures
+            });
+        }
         res.status(500).json({
             error: 'Failed to perform deep analysis',
             details: error instanceof Error ? error.message : 'Unknown error'
@@ -355,15 +636,306 @@ router.post('/analysis/:analysisId/deep-analysis', async (req: Request, res: Res
     }
 });
 
-function validateRequest(request: CDSHookRequest): string | null {
+// Batch analysis of a FHIR Group or a list of patients on the configured FHIR server
+router.post('/batch-analysis', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const body = req.body as BatchAnalysisBody;
+        const validationError = validateBatchRequest(body);
+        if (validationError) {
+            return res.status(400).json({ error: 'Invalid batch request', message: validationError });
+        }
+
+        let group: string | undefined;
+        let patientIds: string[];
+        if (body.group) {
+            const groupId = body.group.replace(/^Group\//, '');
+            group = `Group/${groupId}`;
+            try {
+                patientIds = await fhirClient.getGroupPatientIds(groupId);
+            } catch (error) {
+                console.error(`Error reading ${group}:`, error);
+                return res.status(502).json({
+                    error: 'Failed to read group',
+                    details: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        } else {
+            patientIds = (body.patientIds || []).map(patientId => patientId.replace(/^Patient\//, ''));
+        }
+
+        if (patientIds.length === 0) {
+            return res.status(422).json({ error: 'No patients to analyze', message: `${group} has no active patient members` });
+        }
+        if (new Set(patientIds).size > batchAnalysisService.maxPatients) {
+            return res.status(422).json({
+                error: 'Batch too large',
+                message: `A batch may contain at most ${batchAnalysisService.maxPatients} patients`
+            });
+        }
+
+        const tenant = tokenTenant(req);
+        const budget = await usageLedger.checkBudget(tenant);
+        if (budget.exceeded) {
+            return res.status(429).json({ error: 'Usage budget exceeded', message: new BudgetExceededError(budget).message, budget });
+        }
+
+        const userId = req.tokenIntrospection?.sub || 'batch-analysis';
+        const batch = batchAnalysisService.start(
+            { patientIds, group, requestedBy: req.tokenIntrospection?.sub },
+            patientId => queuePatientAnalysis(patientId, userId, 'background', tenant)
+        );
+
+        console.log(`Started batch analysis ${batch.batchId} of ${batch.progress.total} patients`);
+        res.status(202).json({
+            ...batch,
+            statusUrl: `/batch-analysis/${batch.batchId}`
+        });
+    } catch (error) {
+        console.error('Error starting batch analysis:', error);
+        res.status(500).json({
+            error: 'Failed to start batch analysis',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+router.get('/batch-analysis/:batchId', authMiddleware, (req: Request, res: Response) => {
+    const batch = batchAnalysisService.get(req.params.batchId);
+    if (!batch) {
+        return res.status(404).json({ error: 'Batch not found' });
+    }
+    res.json(batch);
+});
+
+// Re-analysis schedule endpoints
+const requireReanalysisScheduler = (req: Request, res: Response, next: express.NextFunction) => {
+    if (!reanalysisScheduler) {
+        return res.status(503).json({
+            error: 'Re-analysis scheduling is disabled',
+            message: 'Set REANALYSIS_SCHEDULER_ENABLED=true to enable it'
+        });
+    }
+    next();
+};
+
+router.get('/reanalysis/schedule', authMiddleware, requireReanalysisScheduler, async (req: Request, res: Response) => {
+    try {
+        const schedule = await reanalysisScheduler!.getSchedule({
+            patientId: typeof req.query.patientId === 'string' ? req.query.patientId : undefined,
+            policyId: typeof req.query.policyId === 'string' ? req.query.policyId : undefined
+        });
+        res.json({ count: schedule.length, schedule });
+    } catch (error) {
+        console.error('Error reading re-analysis schedule:', error);
+        res.status(500).json({
+            error: 'Failed to read re-analysis schedule',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+router.get('/reanalysis/policies', authMiddleware, requireReanalysisScheduler, async (req: Request, res: Response) => {
+    try {
+        const policies = await reanalysisScheduler!.listPolicies();
+        res.json({ count: policies.length, policies });
+    } catch (error) {
+        console.error('Error listing re-analysis policies:', error);
+        res.status(500).json({
+            error: 'Failed to list re-analysis policies',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+router.post('/admin/reanalysis/policies', authMiddleware, requireAdmin, requireReanalysisScheduler, async (req: Request, res: Response) => {
+    try {
+        const body = req.body as ReanalysisPolicyInput;
+        const validationError = validateReanalysisPolicy(body);
+        if (validationError) {
+            return res.status(400).json({ error: 'Invalid policy', message: validationError });
+        }
+
+        const policy = await reanalysisScheduler!.createPolicy({
+            name: body.name,
+            cohort: {
+                ...(body.cohort?.patientIds && { patientIds: body.cohort.patientIds.map(id => id.replace(/^Patient\//, '')) }),
+                ...(body.cohort?.group && { group: body.cohort.group })
+            },
+            trigger: body.trigger,
+            createdBy: req.tokenIntrospection?.sub,
+            tenant: tokenTenant(req)
+        });
+        console.log(`Created re-analysis policy ${policy.id} (${policy.name})`);
+        res.status(201).json(policy);
+    } catch (error) {
+        console.error('Error creating re-analysis policy:', error);
+        res.status(500).json({
+            error: 'Failed to create re-analysis policy',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+router.delete('/admin/reanalysis/policies/:policyId', authMiddleware, requireAdmin, requireReanalysisScheduler, async (req: Request, res: Response) => {
+    try {
+        const deleted = await reanalysisScheduler!.deletePolicy(req.params.policyId);
+        if (!deleted) {
+            return res.status(404).json({ error: 'Policy not found' });
+        }
+        res.json({ policyId: req.params.policyId, deleted: true });
+    } catch (error) {
+        console.error('Error deleting re-analysis policy:', error);
+        res.status(500).json({
+            error: 'Failed to delete re-analysis policy',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Failed Analyses (dead-letter queue) admin endpoints
+router.get('/admin/failed-analyses', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const analyses = await analysisQueue.listFailedAnalyses();
+        res.json({ count: analyses.length, analyses });
+    } catch (error) {
+        console.error('Error listing failed analyses:', error);
+        res.status(500).json({
+            error: 'Failed to list failed analyses',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Replays the listed analysisIds, or every failed analysis when none are given
+router.post('/admin/failed-analyses/replay', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const analysisIds = req.body?.analysisIds;
+        if (analysisIds !== undefined && (!Array.isArray(analysisIds) || !analysisIds.every(id => typeof id === 'string'))) {
+            return res.status(400).json({ error: 'analysisIds must be an array of strings' });
+        }
+
+        const replayed = await analysisQueue.replayFailedAnalyses(analysisIds);
+        console.log(`Replayed ${replayed.length} failed analyses`);
+        res.json({ replayed });
+    } catch (error) {
+        console.error('Error replaying failed analyses:', error);
+        res.status(500).json({
+            error: 'Failed to replay failed analyses',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+router.post('/admin/failed-analyses/:analysisId/replay', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const replayed = await analysisQueue.replayFailedAnalyses([req.params.analysisId]);
+        if (replayed.length === 0) {
+            return res.status(404).json({ error: 'Failed analysis not found' });
+        }
+        res.json({ replayed });
+    } catch (error) {
+        console.error('Error replaying failed analysis:', error);
+        res.status(500).json({
+            error: 'Failed to replay failed analysis',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+router.delete('/admin/failed-analyses', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const purged = await analysisQueue.purgeFailedAnalyses();
+        res.json({ purged });
+    } catch (error) {
+        console.error('Error purging failed analyses:', error);
+        res.status(500).json({
+            error: 'Failed to purge failed analyses',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+router.delete('/admin/failed-analyses/:analysisId', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const purged = await analysisQueue.purgeFailedAnalyses([req.params.analysisId]);
+        if (purged.length === 0) {
+            return res.status(404).json({ error: 'Failed analysis not found' });
+        }
+        res.json({ purged });
+    } catch (error) {
+        console.error('Error purging failed analysis:', error);
+        res.status(500).json({
+            error: 'Failed to purge failed analysis',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// LLM usage and estimated cost per tenant for a month (YYYY-MM, default the current one)
+router.get('/admin/usage', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { period, tenant } = req.query;
+        if (period !== undefined && !/^\d{4}-\d{2}$/.test(String(period))) {
+            return res.status(400).json({ error: 'period must be a month such as 2024-05' });
+        }
+
+        const report = await usageLedger.getReport({
+            period: period as string | undefined,
+            tenant: tenant as string | undefined
+        });
+        res.json(report);
+    } catch (error) {
+        console.error('Error building usage report:', error);
+        res.status(500).json({
+            error: 'Failed to build usage report',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Cost of each analysis in a month, optionally of one tenant or patient
+router.get('/admin/usage/analyses', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { period, tenant, patientId } = req.query;
+        if (period !== undefined && !/^\d{4}-\d{2}$/.test(String(period))) {
+            return res.status(400).json({ error: 'period must be a month such as 2024-05' });
+        }
+
+        const analyses = await usageLedger.listAnalyses({
+            period: period as string | undefined,
+            tenant: tenant as string | undefined,
+            patientId: patientId as string | undefined
+        });
+        res.json({ count: analyses.length, analyses });
+    } catch (error) {
+        console.error('Error listing analysis usage:', error);
+        res.status(500).json({
+            error: 'Failed to list analysis usage',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+function validateRequest(request: CDSHookRequest, service: CDSServiceConfig): string | null {
     if (!request) return 'Missing request body';
     if (!request.hookInstance) return 'Missing hookInstance';
     if (!request.hook) return 'Missing hook';
-    if (request.hook !== 'patient-view') return 'Unsupported hook type';
+    if (request.hook !== service.hook) return `Service ${service.id} does not handle the ${request.hook} hook`;
     if (!request.context) return 'Missing context';
     if (!request.context.patientId) return 'Missing patient ID';
     if (!request.context.userId) return 'Missing user ID';
 
+    if (request.hook === 'order-select') {
+        const context = request.context as OrderSelectContext;
+        if (!Array.isArray(context.selections) || context.selections.length === 0) return 'Missing selections';
+        if (!context.draftOrders?.entry) return 'Missing draftOrders';
+    }
+
+    if (request.hook === 'order-sign') {
+        const context = request.context as OrderSignContext;
+        if (!context.draftOrders?.entry?.length) return 'Missing draftOrders';
+    }
+
     return null;
 }
 
@@ -373,7 +945,9 @@ function extractPatientData(request: CDSHookRequest) {
         if (!patientResource) {
             return {
                 isValid: false,
-                error: 'Missing patient resource in prefetch data'
+                error: request.fhirServer
+                    ? 'Missing patient resource in prefetch data and it could not be fetched from the FHIR server'
+                    : 'Missing patient resource in prefetch data'
             };
         }
 
@@ -415,113 +989,32 @@ function extractPatientData(request: CDSHookRequest) {
             };
         }).filter(condition => condition !== null);
 
-        // Process medications
-        const medications = (request.prefetch?.medications?.entry || []).map(entry => {
-            const resource = entry.resource;
-            if (!resource || resource.resourceType !== 'MedicationRequest') {
-                return null;
-            }
-
-            const medicationCoding = resource.medicationCodeableConcept?.coding?.[0];
-            const statusReason = resource.statusReason?.coding?.[0];
-            const categoryInfo = resource.category?.[0]?.coding?.[0];
-
-            return {
-                id: resource.id,
-                status: resource.status,
-                intent: resource.intent,
-                code: medicationCoding?.code,
-                system: medicationCoding?.system,
-                display: resource.medicationCodeableConcept?.text || medicationCoding?.display,
-                category: {
-                    code: categoryInfo?.code,
-                    system: categoryInfo?.system,
-                    display: categoryInfo?.display
-                },
-                authoredOn: resource.authoredOn,
-                statusReason: {
-                    code: statusReason?.code,
-                    display: statusReason?.display
-                },
-                dosageInstructions: resource.dosageInstruction?.map(dosage => ({
-                    text: dosage.text,
-                    timing: dosage.timing?.code?.coding?.[0]?.code,
-                    asNeeded: dosage.asNeeded,
-                    route: dosage.route?.coding?.[0]?.display,
-                    doseQuantity: dosage.doseAndRate?.[0]?.doseQuantity
-                })),
-                dispenseRequest: resource.dispenseRequest ? {
-                    quantity: resource.dispenseRequest.quantity,
-                    expectedSupplyDuration: resource.dispenseRequest.expectedSupplyDuration
-                } : undefined
-            };
-        }).filter(medication => medication !== null);
-
-        // Process observations
-        const observations = (request.prefetch?.observations?.entry || []).map(entry => {
-            const resource = entry.resource;
-            if (!resource || resource.resourceType !== 'Observation') {
-                return null;
-            }
+        // Process medications from any of the four medication resource types
+        const medications = normalizeMedications(
+            (request.prefetch?.medications?.entry || []).map((entry: { resource?: FhirResource }) => entry.resource)
+        );
 
-            const codeCoding = resource.code?.coding?.[0];
-            const categoryCoding = resource.category?.[0]?.coding?.[0];
-            
-            // Handle different types of values
-            let value;
-            if (resource.valueQuantity) {
-                value = {
-                    type: 'Quantity',
-                    value: resource.valueQuantity.value,
-                    unit: resource.valueQuantity.unit,
-                    system: resource.valueQuantity.system,
-                    code: resource.valueQuantity.code
-                };
-            } else if (resource.valueCodeableConcept) {
-                const valueCoding = resource.valueCodeableConcept.coding?.[0];
-                value = {
-                    type: 'CodeableConcept',
-                    code: valueCoding?.code,
-                    system: valueCoding?.system,
-                    display: resource.valueCodeableConcept.text || valueCoding?.display
-                };
-            } else if (resource.valueString) {
-                value = {
-                    type: 'String',
-                    value: resource.valueString
-                };
-            }
+        // Process observations, keeping components, reference ranges and panel members
+        const observations = normalizeObservations(
+            (request.prefetch?.observations?.entry || []).map((entry: { resource?: FhirResource }) => entry.resource)
+        );
 
-            return {
-                id: resource.id,
-                status: resource.status,
-                code: codeCoding?.code,
-                system: codeCoding?.system,
-                display: resource.code?.text || codeCoding?.display,
-                category: {
-                    code: categoryCoding?.code,
-                    system: categoryCoding?.system,
-                    display: categoryCoding?.display
-                },
-                effectiveDateTime: resource.effectiveDateTime || resource.effectivePeriod?.start,
-                issued: resource.issued,
-                value,
-                interpretation: resource.interpretation?.[0]?.coding?.[0]?.code,
-                referenceRange: resource.referenceRange?.map(range => ({
-                    low: range.low,
-                    high: range.high,
-                    type: range.type?.coding?.[0]?.code,
-                    text: range.text
-                }))
-            };
-        }).filter(observation => observation !== null);
+        // Current encounter (fetched on its own) plus recent encounters
+        const encounters = buildEncounterContext(
+            [
+                request.prefetch?.encounter,
+                ...(request.prefetch?.encounters?.entry || []).map((entry: { resource?: FhirResource }) => entry.resource)
+            ],
+            request.context.encounterId
+        );
 
         return {
             isValid: true,
             patient: patientResource,
             conditions,
             medications,
-            observations
+            observations,
+            encounters
         };
     } catch (error: any) {
         console.error('Error processing patient data:', error);
@@ -532,6 +1025,144 @@ function extractPatientData(request: CDSHookRequest) {
     }
 }
 
+// The patient as queued for analysis
+function buildAnalysisInput(patientData: PatientData) {
+    return {
+        ...patientData.patient,
+        conditions: patientData.conditions,
+        observations: patientData.observations,
+        medications: patientData.medications,
+        encounters: patientData.encounters
+    };
+}
+
+// Queues an AI specialist panel analysis, optionally waiting for it to finish
+async function handleExpertPanel({ request, service, patientData, tenant }: CDSServiceInvocation<PatientData>): Promise<CDSServiceResponse> {
+    const analysisInput = buildAnalysisInput(patientData);
+
+    // Create analysis task, unless this hookInstance or an unchanged chart already has one
+    let deduplicated: DeduplicatedAnalysis;
+    try {
+        deduplicated = await analysisDeduplicator.getOrCreate({
+            hookInstance: request.hookInstance,
+            patientId: request.context.patientId,
+            fingerprint: clinicalFingerprint(patientData)
+        }, async () => {
+            // Existing analyses are still handed out once the budget is spent
+            await usageLedger.assertWithinBudget(tenant);
+            return analysisQueue.createAnalysis(analysisInput, request.context.userId, {
+                priority: analysisPriority(patientData.encounters),
+                tenant
+            });
+        });
+    } catch (error) {
+        if (error instanceof BudgetExceededError) {
+            console.warn(`Not analyzing patient ${request.context.patientId}: ${error.message}`);
+            return {
+                cards: [{
+                    summary: 'AI Expert Panel analysis unavailable',
+                    indicator: 'warning',
+                    detail: 'No new analyses can be started because the monthly AI usage budget has been reached. Please contact your administrator.',
+                    source: getSourceInfo()
+                }]
+            };
+        }
+        throw error;
+    }
+    const { analysisId: task, reused, reason } = deduplicated;
+
+    if (reused) {
+        console.log(`Reusing analysis task ${task} for patient ${request.context.patientId} (${reason})`);
+    } else {
+        console.log(`Created analysis task ${task} for patient ${request.context.patientId}`);
+        fhirTaskTracker?.track(task, {
+            patientId: request.context.patientId,
+            userId: request.context.userId,
+            encounterId: request.context.encounterId,
+            fhirServer: request.fhirServer,
+            accessToken: request.fhirAuthorization?.access_token
+        });
+    }
+
+    // Optionally wait for the analysis so finished recommendations can be returned inline
+    const syncTimeoutMs = service.config?.syncTimeoutMs || 0;
+    if (syncTimeoutMs > 0) {
+        const metadata = await analysisQueue.waitForCompletion(task, syncTimeoutMs);
+        if (metadata?.analysis?.status === 'completed') {
+            const cards = generateStatusCards(metadata);
+            recordStatusCards(metadata, cards);
+            console.log(`Analysis ${task} completed within ${syncTimeoutMs}ms, returning recommendations inline`);
+            return { cards };
+        }
+    }
+
+    // Generate response cards
+    const cards = generateResponseCards(task, request.context);
+    recordIssuedCards(service.id, cards);
+    return { cards };
+}
+
+/**
+ * Fetch a patient's data from the configured FHIR server, with the expert panel's prefetch
+ * queries, and queue its analysis. Used by batches and scheduled re-analyses, which pass
+ * the tenant of whoever started them.
+ */
+async function queuePatientAnalysis(
+    patientId: string,
+    userId: string,
+    priority: AnalysisPriority,
+    tenant?: string
+): Promise<string> {
+    const expertPanel = config.cdsHooks.services.find(service => service.id === 'ai-expert-panel');
+    const request: CDSHookRequest = {
+        hook: 'patient-view',
+        hookInstance: uuidv4(),
+        fhirServer: config.fhir.baseUrl,
+        context: { patientId, userId },
+        prefetch: {}
+    };
+    request.prefetch = await prefetchResolver.resolve(request, expertPanel?.prefetch, { client: fhirClient });
+
+    const patientData = extractPatientData(request);
+    if (!patientData.isValid) {
+        throw new Error(patientData.error);
+    }
+
+    await usageLedger.assertWithinBudget(tenant);
+    const analysisId = await analysisQueue.createAnalysis(buildAnalysisInput(patientData), userId, { priority, tenant });
+    fhirTaskTracker?.track(analysisId, { patientId, userId });
+    return analysisId;
+}
+
+/**
+ * Emergency department analyses run first, then inpatient and observation stays
+ */
+function analysisPriority(encounters?: EncounterContext): AnalysisPriority {
+    switch (encounters?.current?.setting) {
+        case 'emergency':
+            return 'stat';
+        case 'inpatient':
+        case 'observation':
+            return 'urgent';
+        default:
+            return 'routine';
+    }
+}
+
+// Order-select runs a synchronous medication safety review
+function handleMedicationSafety({ request, service, patientData }: CDSServiceInvocation<PatientData>): CDSServiceResponse {
+    const cards = generateOrderSelectCards(request, patientData);
+    recordIssuedCards(service.id, cards);
+    return { cards };
+}
+
+// Order-sign runs the final safety review and proposes edits as system actions
+function handleOrderSafetyReview({ request, service, patientData }: CDSServiceInvocation<PatientData>): CDSServiceResponse {
+    const response = generateOrderSignResponse(request, patientData);
+    recordIssuedCards(service.id, response.cards);
+    return response;
+}
+
 function generateResponseCards(taskId: string, context: any): Card[] {
     const cards: Card[] = [];
 
@@ -555,6 +1186,7 @@ function generateResponseCards(taskId: string, context: any): Card[] {
 
     // Main card with SMART app launch
     cards.push({
+        uuid: stableCardId('analysis', taskId, 'launch'),
         summary: 'AI Expert Panel Analysis Initiated',
         indicator: 'info',
         detail: `An automated clinical analysis(Analysis ID: ${taskId}) has been initiated for this patient using advanced AI algorithms. The analysis will evaluate the patient's clinical context and provide evidence-based recommendations. Click "View Analysis By Mithram" to monitor progress and view recommendations in real-time. Analysis results are typically available within 2-3 minutes.`,
@@ -569,6 +1201,149 @@ function generateResponseCards(taskId: string, context: any): Card[] {
     return cards;
 }
 
+function generateOrderSelectCards(
+    request: CDSHookRequest,
+    patientData: Pick<SafetyReviewInput, 'medications' | 'conditions' | 'observations'>
+): Card[] {
+    const context = request.context as OrderSelectContext;
+
+    const findings = medicationSafetyService.reviewOrders({
+        draftOrders: context.draftOrders.entry.map(entry => entry.resource),
+        targetOrderIds: context.selections.map(getSelectionId),
+        medications: patientData.medications,
+        conditions: patientData.conditions,
+        observations: patientData.observations
+    });
+
+    return findings.map(finding => ({
+        ...formatSafetyFindingCard(finding),
+        uuid: stableCardId(request.hookInstance, finding.id)
+    }));
+}
+
+function generateOrderSignResponse(
+    request: CDSHookRequest,
+    patientData: Pick<SafetyReviewInput, 'medications' | 'conditions' | 'observations'>
+): CDSServiceResponse {
+    const context = request.context as OrderSignContext;
+
+    const review = medicationSafetyService.reviewForSigning({
+        draftOrders: context.draftOrders.entry.map(entry => entry.resource),
+        medications: patientData.medications,
+        conditions: patientData.conditions,
+        observations: patientData.observations
+    });
+
+    const cards: Card[] = [
+        ...review.findings.map(finding => ({
+            ...formatSafetyFindingCard(finding),
+            uuid: stableCardId(request.hookInstance, finding.id),
+            overrideReasons: OVERRIDE_REASONS
+        })),
+        ...review.doseAdjustments.map(adjustment => ({
+            ...formatDoseAdjustmentCard(adjustment),
+            uuid: stableCardId(request.hookInstance, adjustment.ruleId, adjustment.order.id || adjustment.order.display),
+            overrideReasons: OVERRIDE_REASONS
+        }))
+    ];
+
+    const systemActions: Action[] = [
+        ...review.doseAdjustments
+            .filter(adjustment => adjustment.proposedResource)
+            .map(adjustment => ({
+                type: 'update' as const,
+                description: `${adjustment.summary}: ${adjustment.order.display} to ${adjustment.proposedDoseMg} mg per dose`,
+                resource: adjustment.proposedResource
+            })),
+        ...review.monitoring.map(suggestion => ({
+            type: 'create' as const,
+            description: `Order ${suggestion.display} ${suggestion.timeframe}`,
+            resource: createMonitoringResource(suggestion, context.patientId, context.encounterId)
+        }))
+    ];
+
+    return systemActions.length > 0 ? { cards, systemActions } : { cards };
+}
+
+function formatDoseAdjustmentCard(adjustment: DoseAdjustment): Card {
+    return {
+        summary: adjustment.summary.slice(0, 140),
+        indicator: adjustment.severity,
+        detail: [
+            `**Order:** ${adjustment.order.display}`,
+            `**Current daily dose:** ${adjustment.currentDailyDoseMg} mg`,
+            `**Proposed dose:** ${adjustment.proposedDoseMg} mg per dose`,
+            '',
+            adjustment.detail
+        ].join('\n'),
+        source: getSourceInfo()
+    };
+}
+
+function createMonitoringResource(suggestion: MonitoringSuggestion, patientId: string, encounterId?: string): ServiceRequest {
+    return {
+        resourceType: 'ServiceRequest',
+        status: 'draft',
+        intent: 'proposal',
+        code: {
+            coding: [{
+                system: 'http://loinc.org',
+                code: suggestion.code,
+                display: suggestion.display
+            }]
+        },
+        subject: {
+            reference: `Patient/${patientId}`
+        },
+        ...(encounterId && {
+            encounter: {
+                reference: `Encounter/${encounterId}`
+            }
+        }),
+        authoredOn: new Date().toISOString(),
+        reasonCode: suggestion.reasons.map(reason => ({
+            text: reason
+        })),
+        note: [{
+            text: `Monitoring suggested ${suggestion.timeframe}`
+        }]
+    };
+}
+
+function getSelectionId(selection: OrderSelectContext['selections'][number]): string {
+    if (typeof selection === 'string') {
+        return selection.split('/').pop() || selection;
+    }
+    return selection.id;
+}
+
+function formatSafetyFindingCard(finding: SafetyFinding): Card {
+    const lines = [`**Order:** ${finding.order.display}`];
+
+    if (finding.related) {
+        const label = {
+            draft: 'Other draft order',
+            active: 'Active medication',
+            condition: 'Condition',
+            observation: 'Recent result'
+        }[finding.related.kind];
+        lines.push(`**${label}:** ${finding.related.display}`);
+    }
+
+    lines.push('', finding.detail);
+
+    if (finding.monitoring) {
+        lines.push('', `**Suggested monitoring:** ${finding.monitoring.display} ${finding.monitoring.timeframe}`);
+    }
+
+    return {
+        summary: finding.summary.slice(0, 140),
+        indicator: finding.severity,
+        detail: lines.join('\n'),
+        source: getSourceInfo()
+    };
+}
+
 function getSourceInfo() {
     return {
         label: 'Mithram AI',
@@ -579,28 +1354,32 @@ function getSourceInfo() {
 
 function generateStatusCards(metadata: any): Card[] {
     const analysis = metadata.analysis || {};
+    const analysisId = metadata.analysisId;
     const cards: Card[] = [];
 
     // Add status card
     cards.push({
+        uuid: stableCardId('analysis', analysisId, 'status', analysis.status || 'unknown'),
         summary: `Analysis ${analysis.status || 'unknown'}`,
         indicator: getStatusIndicator(analysis.status),
         detail: getStatusDetail(analysis),
         source: getSourceInfo(),
-        suggestions: analysis.status === 'completed' ? getAnalysisSuggestions(analysis) : undefined
+        suggestions: analysis.status === 'completed' ? getAnalysisSuggestions(analysisId, analysis) : undefined
     });
 
     // Add recommendations card if available
     if (analysis.status === 'completed' && analysis.recommendations) {
         const recommendations = analysis.recommendations;
         cards.push({
+            uuid: stableCardId('analysis', analysisId, 'recommendations'),
             summary: 'Specialist Recommendations',
             indicator: 'info',
             detail: formatRecommendations(recommendations),
             source: getSourceInfo(),
-            suggestions: recommendations.specialists.map((specialist: any) => ({
+            overrideReasons: REFERRAL_OVERRIDE_REASONS,
+            suggestions: recommendations.specialists.map((specialist: Specialist) => ({
                 label: `Refer to ${specialist.specialty}`,
-                uuid: uuidv4(),
+                uuid: getReferralSuggestionId(analysisId, specialist),
                 actions: [{
                     type: 'create',
                     description: `Create referral to ${specialist.specialty}`,
@@ -613,6 +1392,7 @@ function generateStatusCards(metadata: any): Card[] {
     // Add error card if failed
     if (analysis.status === 'failed') {
         cards.push({
+            uuid: stableCardId('analysis', analysisId, 'failed'),
             summary: 'Analysis Failed',
             indicator: 'critical',
             detail: analysis.error || 'Unknown error occurred',
@@ -623,6 +1403,50 @@ function generateStatusCards(metadata: any): Card[] {
     return cards;
 }
 
+/**
+ * Recorded metadata stays pending until the result is written; show the live stage instead
+ */
+function withLiveProgress(metadata: NFTMetadata, progress?: AnalysisProgressEvent): NFTMetadata & { analysis: { stage?: string } } {
+    if (!progress || metadata.analysis?.status !== 'pending') {
+        return metadata;
+    }
+    if (progress.status === 'cancelled') {
+        return {
+            ...metadata,
+            analysis: { ...metadata.analysis, status: 'cancelled', cancelledAt: progress.timestamp }
+        };
+    }
+    if (progress.status !== 'in-progress') {
+        return metadata;
+    }
+    return {
+        ...metadata,
+        analysis: {
+            ...metadata.analysis,
+            status: 'in-progress',
+            stage: ANALYSIS_STAGE_LABELS[progress.stage]
+        }
+    };
+}
+
+/**
+ * Progress of a task this process has no history for, from its recorded metadata
+ */
+function recordedProgress(taskId: string, metadata: NFTMetadata): AnalysisProgressEvent[] {
+    const status = metadata.analysis?.status;
+    if (status !== 'completed' && status !== 'failed' && status !== 'cancelled') {
+        return [];
+    }
+    return [{
+        taskId,
+        stage: status === 'completed' ? 'nft-confirmed' : status,
+        sequence: 1,
+        status,
+        timestamp: metadata.timestamp,
+        ...(metadata.analysis.error && { detail: { error: metadata.analysis.error } })
+    }];
+}
+
 function getStatusIndicator(status?: string): Indicator {
     switch (status) {
         case 'completed':
@@ -630,6 +1454,7 @@ function getStatusIndicator(status?: string): Indicator {
         case 'failed':
             return 'critical';
         case 'in-progress':
+        case 'cancelled':
             return 'info';
         default:
             return 'warning';
@@ -643,19 +1468,23 @@ function getStatusDetail(analysis: any): string {
         case 'failed':
             return `Analysis failed at ${analysis.failedAt}. ${analysis.error || ''}`;
         case 'in-progress':
-            return 'Analysis is currently in progress. Please check back later.';
+            return analysis.stage
+                ? `Analysis is currently in progress (${analysis.stage}). Please check back later.`
+                : 'Analysis is currently in progress. Please check back later.';
+        case 'cancelled':
+            return `Analysis was cancelled at ${analysis.cancelledAt}.`;
         default:
             return 'Analysis status unknown.';
     }
 }
 
-function getAnalysisSuggestions(analysis: any): any[] {
+function getAnalysisSuggestions(analysisId: string, analysis: any): any[] {
     const suggestions = [];
     
     if (analysis.riskFactors?.length > 0) {
         suggestions.push({
             label: 'Document Risk Factors',
-            uuid: uuidv4(),
+            uuid: stableCardId('analysis', analysisId, 'risk-factors'),
             actions: [{
                 type: 'create',
                 description: 'Document identified risk factors',
@@ -675,6 +1504,129 @@ function getAnalysisSuggestions(analysis: any): any[] {
     return suggestions;
 }
 
+function getReferralSuggestionId(analysisId: string, specialist: Specialist): string {
+    return stableCardId('analysis', analysisId, 'referral', specialist.code || specialist.specialty);
+}
+
+function recordStatusCards(metadata: NFTMetadata, cards: Card[]) {
+    const specialists: Specialist[] = metadata.analysis?.recommendations?.specialists || [];
+    recordIssuedCards('ai-expert-panel', cards, Object.fromEntries(
+        specialists.map(specialist => [getReferralSuggestionId(metadata.analysisId, specialist), specialist.specialty])
+    ));
+}
+
+// Remember issued cards so feedback on them can be attributed; never blocks the response
+function recordIssuedCards(serviceId: string, cards: Card[], suggestionSpecialties: Record<string, string> = {}) {
+    const issuedAt = Date.now();
+    const issued = cards
+        .filter(card => card.uuid)
+        .map(card => ({
+            uuid: card.uuid as string,
+            serviceId,
+            summary: card.summary,
+            indicator: card.indicator,
+            suggestions: Object.fromEntries(
+                (card.suggestions || [])
+                    .filter(suggestion => suggestion.uuid)
+                    .map(suggestion => [suggestion.uuid as string, suggestionSpecialties[suggestion.uuid as string]])
+            ),
+            issuedAt
+        }));
+
+    feedbackStore.registerCards(issued).catch(error => {
+        console.error('Failed to record issued cards:', error);
+    });
+}
+
+function validateFeedback(body: FeedbackRequest): string | null {
+    if (!body || !Array.isArray(body.feedback) || body.feedback.length === 0) {
+        return 'Missing feedback array';
+    }
+
+    for (const item of body.feedback) {
+        if (!item.card || typeof item.card !== 'string') {
+            return 'Each feedback entry must reference a card uuid';
+        }
+        if (item.outcome !== 'accepted' && item.outcome !== 'overridden') {
+            return `Invalid outcome "${item.outcome}" for card ${item.card}`;
+        }
+        if (!item.outcomeTimestamp) {
+            return `Missing outcomeTimestamp for card ${item.card}`;
+        }
+        if (item.acceptedSuggestions && !item.acceptedSuggestions.every(suggestion => suggestion?.id)) {
+            return `Accepted suggestions for card ${item.card} must have an id`;
+        }
+    }
+
+    return null;
+}
+
+interface BatchAnalysisBody {
+    // Group reference, e.g. Group/high-risk-panel
+    group?: string;
+    patientIds?: string[];
+}
+
+// FHIR resource ids, optionally as relative references
+const FHIR_ID_PATTERN = /^[A-Za-z0-9\-.]{1,64}$/;
+
+function validateBatchRequest(body: BatchAnalysisBody): string | null {
+    if (!body || (!body.group === !body.patientIds)) {
+        return 'Provide either a group reference or a patientIds list';
+    }
+
+    if (body.group !== undefined) {
+        if (typeof body.group !== 'string' || !FHIR_ID_PATTERN.test(body.group.replace(/^Group\//, ''))) {
+            return 'group must be a Group reference such as Group/123';
+        }
+        return null;
+    }
+
+    if (!Array.isArray(body.patientIds) || body.patientIds.length === 0) {
+        return 'patientIds must be a non-empty array';
+    }
+    const invalid = body.patientIds.find(patientId =>
+        typeof patientId !== 'string' || !FHIR_ID_PATTERN.test(patientId.replace(/^Patient\//, '')));
+    if (invalid !== undefined) {
+        return `Invalid patient id: ${JSON.stringify(invalid)}`;
+    }
+
+    return null;
+}
+
+function validateReanalysisPolicy(body: ReanalysisPolicyInput): string | null {
+    if (!body || typeof body.name !== 'string' || !body.name.trim()) {
+        return 'Missing policy name';
+    }
+
+    const cohort = body.cohort || {};
+    if (cohort.patientIds && cohort.group) {
+        return 'A cohort lists patientIds or names a group, not both';
+    }
+    if (cohort.group !== undefined &&
+        (typeof cohort.group !== 'string' || !FHIR_ID_PATTERN.test(cohort.group.replace(/^Group\//, '')))) {
+        return 'cohort.group must be a Group reference such as Group/123';
+    }
+    if (cohort.patientIds !== undefined && (!Array.isArray(cohort.patientIds) || cohort.patientIds.length === 0 ||
+        !cohort.patientIds.every(id => typeof id === 'string' && FHIR_ID_PATTERN.test(id.replace(/^Patient\//, ''))))) {
+        return 'cohort.patientIds must be a non-empty array of patient ids';
+    }
+
+    const trigger = body.trigger as ReanalysisTrigger | undefined;
+    switch (trigger?.type) {
+        case 'interval':
+            return isPositive(trigger.intervalDays) ? null : 'trigger.intervalDays must be a positive number';
+        case 'asap-recommendation':
+            return isPositive(trigger.withinHours) ? null : 'trigger.withinHours must be a positive number';
+        default:
+            return 'trigger.type must be interval or asap-recommendation';
+    }
+}
+
+function isPositive(value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
 function formatRecommendations(recommendations: any): string {
     if (!recommendations.specialists?.length) {
         return 'No specialist recommendations available.';
@@ -683,6 +1635,7 @@ function formatRecommendations(recommendations: any): string {
     const specialistDetails = recommendations.specialists
         .map((s: Specialist) => {
             return `${s.specialty} (${s.priority})\n` +
+                   (s.codeValidation?.status === 'unverified' ? 'Specialty code could not be verified; the referral is uncoded\n' : '') +
                    `Justification: ${s.justification}\n` +
                    `Timeframe: ${s.timeframe}\n` +
                    `Confidence: ${(s.confidence * 100).toFixed(1)}%`;
@@ -692,19 +1645,26 @@ function formatRecommendations(recommendations: any): string {
     return `Specialist Recommendations:\n\n${specialistDetails}`;
 }
 
-function createReferralResource(specialist: Specialist): any {
+function createReferralResource(recommended: Specialist): any {
+    // Analyses recorded before codes were validated are checked here
+    const specialist = normalizeSpecialist(recommended);
+
     return {
         resourceType: 'ServiceRequest',
         status: 'draft',
         intent: 'plan',
         priority: specialist.priority,
-        code: {
-            coding: [{
-                system: 'http://snomed.info/sct',
-                code: specialist.code,
-                display: specialist.specialty
-            }]
-        },
+        // An unverified specialty is sent as text only, never with an invented code
+        code: specialist.codeValidation?.status === 'unverified'
+            ? { text: specialist.specialty }
+            : {
+                coding: [{
+                    system: SNOMED_SYSTEM,
+                    code: specialist.code,
+                    display: specialist.specialty
+                }],
+                text: specialist.specialty
+            },
         occurrenceDateTime: new Date().toISOString(),
         authoredOn: new Date().toISOString(),
         reasonCode: [{
@@ -717,9 +1677,9 @@ function createReferralResource(specialist: Specialist): any {
 router.get('/cds-services/ai-expert-panel/config', (req: Request, res: Response) => {
     res.json({
         version: config.version,
-        supportedHooks: ['patient-view'],
+        supportedHooks: cdsServiceRegistry.getSupportedHooks(),
         requiredPrefetch: ['patient', 'conditions'],
-        optionalPrefetch: ['medications', 'observations', 'encounters'],
+        optionalPrefetch: ['medications', 'observations', 'encounters', 'encounter'],
         smartAppInfo: {
             launchUrl: config.smartApp.launchUrl,
             capabilities: ['context-standalone', 'context-banner']
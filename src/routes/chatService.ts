@@ -1,16 +1,25 @@
 // src/routes/chatService.ts
 import express, { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import { ChatService } from '../services/ChatService';
 import { config } from '../config';
-import authMiddleware from '../middleware/authMiddleware';
+import authMiddleware, { tokenTenant } from '../middleware/authMiddleware';
 import { AnalysisHistoryManager, AnalysisHistoryItem } from '../utils/analysisHistory';
 import { NFTManager } from '../services/NFTManager';
 import type { AnalysisHistory } from '../services/Genesis';
+import { BudgetExceededError } from '../services/UsageLedger';
+import { getUsageLedger } from '../services/usageLedgerFactory';
+import { UsageMeter, UsageTotals, meterUsage } from '../services/llm/usage';
+import { PromptScope } from '../services/llm/PromptRegistry';
 
 const router = express.Router();
 
 // Initialize services
-const chatService = new ChatService(config.analysisQueue.openai.apiKey);
+const chatService = new ChatService({
+    chat: config.llm.chat,
+    genesis: config.llm.genesis,
+    embeddings: config.llm.embeddings
+}, config.prompts);
 const nftManager = new NFTManager({
     contractAddress: process.env.NFT_CONTRACT_ADDRESS as `0x${string}`,
     privateKey: process.env.NFT_PRIVATE_KEY as `0x${string}`,
@@ -19,6 +28,34 @@ const nftManager = new NFTManager({
     storage: process.env.NFT_STORAGE_TYPE as 'ipfs' | 'datauri'
 });
 const analysisHistoryManager = new AnalysisHistoryManager(nftManager);
+const usageLedger = getUsageLedger();
+
+/**
+ * Run a chat step within the tenant's budget and charge its LLM usage to the session
+ */
+async function meteredChat<T>(
+    req: Request,
+    session: { sessionId: string; patientId: string },
+    fn: () => Promise<T>
+): Promise<{ result: T; usage: UsageTotals }> {
+    const tenant = tokenTenant(req);
+    await usageLedger.assertWithinBudget(tenant);
+
+    const meter = new UsageMeter();
+    try {
+        return { result: await meterUsage(meter, fn), usage: meter.totals() };
+    } finally {
+        if (meter.calls.length > 0) {
+            usageLedger.recordChat({ ...session, tenant }, meter.totals()).catch(error => {
+                console.error(`Error recording usage of chat session ${session.sessionId}:`, error);
+            });
+        }
+    }
+}
+
+function budgetExceededResponse(res: Response, error: BudgetExceededError) {
+    return res.status(429).json({ error: 'Usage budget exceeded', message: error.message, budget: error.status });
+}
 
 /**
  * Convert AnalysisHistoryItem to AnalysisHistory format
@@ -51,8 +88,13 @@ router.post('/chat/:patientId/init', authMiddleware, async (req: Request, res: R
         // Convert to the format expected by ChatService
         const analysisHistory = convertToAnalysisHistory(historyItems);
         
+        // Usage of the session is charged under this id; clients send the context back with each message
+        const sessionId = uuidv4();
+
         // Initialize chat context with patient's analysis history
-        const context = await chatService.initializeContext(analysisHistory);
+        const { usage } = await meteredChat(req, { sessionId, patientId }, () =>
+            chatService.initializeContext(analysisHistory)
+        );
 
         res.json({
             status: 'success',
@@ -60,10 +102,15 @@ router.post('/chat/:patientId/init', authMiddleware, async (req: Request, res: R
             context: {
                 analysisHistory,
                 patientId,
-                analysisId
-            }
+                analysisId,
+                sessionId
+            },
+            usage
         });
     } catch (error) {
+        if (error instanceof BudgetExceededError) {
+            return budgetExceededResponse(res, error);
+        }
         console.error('Error initializing chat context:', error);
         res.status(500).json({
             error: 'Failed to initialize chat context',
@@ -82,18 +129,30 @@ router.post('/chat/:patientId/message', authMiddleware, async (req: Request, res
             return res.status(400).json({ error: 'Patient ID, message, and context are required' });
         }
 
-        // Initialize chat context with patient's analysis history
-        await chatService.initializeContext(context.analysisHistory);
+        // Contexts from before sessions had ids are charged per patient and analysis
+        const sessionId = context.sessionId || `${patientId}/${context.analysisId}`;
 
-        // Process the message
-        const response = await chatService.processQuery(message);
+        // The caller's tenant selects tenant-specific prompts
+        const prompts: PromptScope = { tenant: tokenTenant(req), used: [] };
+        const { result: response, usage } = await meteredChat(req, { sessionId, patientId }, async () => {
+            // Initialize chat context with patient's analysis history
+            await chatService.initializeContext(context.analysisHistory);
+
+            // Process the message
+            return chatService.processQuery(message, prompts);
+        });
 
         res.json({
             status: 'success',
             response,
-            context // Return the context back
+            context, // Return the context back
+            usage,
+            prompts: prompts.used
         });
     } catch (error) {
+        if (error instanceof BudgetExceededError) {
+            return budgetExceededResponse(res, error);
+        }
         console.error('Error processing chat message:', error);
         res.status(500).json({
             error: 'Failed to process chat message',
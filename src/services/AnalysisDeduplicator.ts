@@ -0,0 +1,114 @@
+// src/services/AnalysisDeduplicator.ts
+
+export interface AnalysisDeduplicatorConfig {
+    // How long an unchanged chart reuses the patient's last analysis (0 disables)
+    reuseWindowMs?: number;
+    // How long a hookInstance maps to the analysis it created
+    hookInstanceTtlMs?: number;
+}
+
+export interface AnalysisRequestKey {
+    hookInstance: string;
+    patientId: string;
+    fingerprint: string;
+}
+
+export interface DeduplicatedAnalysis {
+    analysisId: string;
+    reused: boolean;
+    reason?: 'hookInstance' | 'unchanged';
+}
+
+interface TrackedAnalysis {
+    analysisId: Promise<string>;
+    fingerprint: string;
+    createdAt: number;
+}
+
+/**
+ * Keeps patient-view from queuing duplicate analyses: a retried hookInstance gets the
+ * analysis it already created, and a reopened chart whose clinical data has not changed
+ * reuses the patient's latest analysis within the reuse window.
+ */
+export class AnalysisDeduplicator {
+    private readonly reuseWindowMs: number;
+    private readonly hookInstanceTtlMs: number;
+    private byHookInstance: Map<string, TrackedAnalysis> = new Map();
+    private byPatient: Map<string, TrackedAnalysis> = new Map();
+
+    constructor(config: AnalysisDeduplicatorConfig = {}) {
+        this.reuseWindowMs = config.reuseWindowMs ?? 15 * 60 * 1000;
+        this.hookInstanceTtlMs = config.hookInstanceTtlMs ?? 24 * 60 * 60 * 1000;
+    }
+
+    /**
+     * Return the analysis to use for a request, calling create only when nothing can be reused.
+     * Concurrent identical requests share the same pending create.
+     */
+    async getOrCreate(key: AnalysisRequestKey, create: () => Promise<string>): Promise<DeduplicatedAnalysis> {
+        const now = Date.now();
+        this.purge(now);
+
+        const sameInstance = this.byHookInstance.get(key.hookInstance);
+        if (sameInstance) {
+            return { analysisId: await sameInstance.analysisId, reused: true, reason: 'hookInstance' };
+        }
+
+        const latest = this.byPatient.get(key.patientId);
+        if (latest && latest.fingerprint === key.fingerprint && now - latest.createdAt < this.reuseWindowMs) {
+            this.byHookInstance.set(key.hookInstance, latest);
+            return { analysisId: await latest.analysisId, reused: true, reason: 'unchanged' };
+        }
+
+        const tracked: TrackedAnalysis = {
+            analysisId: create(),
+            fingerprint: key.fingerprint,
+            createdAt: now
+        };
+        this.byHookInstance.set(key.hookInstance, tracked);
+        this.byPatient.set(key.patientId, tracked);
+
+        try {
+            return { analysisId: await tracked.analysisId, reused: false };
+        } catch (error) {
+            // A failed create must not be handed out to later requests
+            this.forget(tracked);
+            throw error;
+        }
+    }
+
+    /**
+     * Stop reusing an analysis, e.g. because it failed
+     */
+    async invalidate(analysisId: string): Promise<void> {
+        for (const tracked of new Set([...this.byHookInstance.values(), ...this.byPatient.values()])) {
+            const trackedId = await tracked.analysisId.catch(() => null);
+            if (trackedId === analysisId) {
+                this.forget(tracked);
+            }
+        }
+    }
+
+    private forget(tracked: TrackedAnalysis): void {
+        for (const map of [this.byHookInstance, this.byPatient]) {
+            for (const [key, value] of map) {
+                if (value === tracked) {
+                    map.delete(key);
+                }
+            }
+        }
+    }
+
+    private purge(now: number): void {
+        for (const [hookInstance, tracked] of this.byHookInstance) {
+            if (now - tracked.createdAt >= this.hookInstanceTtlMs) {
+                this.byHookInstance.delete(hookInstance);
+            }
+        }
+        for (const [patientId, tracked] of this.byPatient) {
+            if (now - tracked.createdAt >= this.reuseWindowMs) {
+                this.byPatient.delete(patientId);
+            }
+        }
+    }
+}
@@ -0,0 +1,133 @@
+// src/services/AnalysisProgressTracker.ts
+import { EventEmitter } from 'events';
+import { AnalysisData } from '../contracts/PatientNFT';
+
+/**
+ * Stages an analysis moves through, in order. An analysis ends at nft-confirmed, failed
+ * or cancelled.
+ */
+export type AnalysisStage =
+    | 'queued'
+    | 'context-built'
+    | 'llm-started'
+    | 'llm-finished'
+    | 'metadata-stored'
+    | 'nft-submitted'
+    | 'nft-confirmed'
+    | 'failed'
+    | 'cancelled';
+
+export interface AnalysisProgressUpdate {
+    taskId: string;
+    stage: AnalysisStage;
+    detail?: Record<string, unknown>;
+}
+
+export interface AnalysisProgressEvent extends AnalysisProgressUpdate {
+    // Position in the task's event history, starting at 1 (used as the SSE event id)
+    sequence: number;
+    status: AnalysisData['status'];
+    timestamp: string;
+}
+
+export const ANALYSIS_STAGE_LABELS: Record<AnalysisStage, string> = {
+    queued: 'Queued',
+    'context-built': 'Clinical context built',
+    'llm-started': 'Generating recommendations',
+    'llm-finished': 'Recommendations generated',
+    'metadata-stored': 'Results stored',
+    'nft-submitted': 'Record transaction submitted',
+    'nft-confirmed': 'Record transaction confirmed',
+    failed: 'Failed',
+    cancelled: 'Cancelled'
+};
+
+const STAGE_STATUS: Record<AnalysisStage, AnalysisData['status']> = {
+    queued: 'pending',
+    'context-built': 'in-progress',
+    'llm-started': 'in-progress',
+    'llm-finished': 'in-progress',
+    'metadata-stored': 'in-progress',
+    'nft-submitted': 'in-progress',
+    'nft-confirmed': 'completed',
+    failed: 'failed',
+    cancelled: 'cancelled'
+};
+
+const PROGRESS_EVENT = 'progress';
+
+export function isFinalStage(stage: AnalysisStage): boolean {
+    return stage === 'nft-confirmed' || stage === 'failed' || stage === 'cancelled';
+}
+
+/**
+ * In-memory history of analysis stage transitions, so progress can be streamed to
+ * clients and replayed to clients that connect late or reconnect
+ */
+export class AnalysisProgressTracker extends EventEmitter {
+    private history: Map<string, AnalysisProgressEvent[]> = new Map();
+    private readonly maxTasks: number;
+
+    constructor(maxTasks: number = 500) {
+        super();
+        this.maxTasks = maxTasks;
+        // Every open event stream subscribes
+        this.setMaxListeners(0);
+    }
+
+    record(update: AnalysisProgressUpdate): AnalysisProgressEvent | null {
+        const events = this.history.get(update.taskId) || [];
+        const last = events[events.length - 1];
+
+        // Nothing moves a task out of its final stage, except queuing it again (a replay)
+        if (last && isFinalStage(last.stage) && update.stage !== 'queued') {
+            return null;
+        }
+
+        const event: AnalysisProgressEvent = {
+            ...update,
+            sequence: events.length + 1,
+            status: STAGE_STATUS[update.stage],
+            timestamp: new Date().toISOString()
+        };
+        events.push(event);
+
+        if (!this.history.has(update.taskId)) {
+            this.history.set(update.taskId, events);
+            this.prune();
+        }
+
+        this.emit(PROGRESS_EVENT, event);
+        return event;
+    }
+
+    getEvents(taskId: string, afterSequence: number = 0): AnalysisProgressEvent[] {
+        return (this.history.get(taskId) || []).filter(event => event.sequence > afterSequence);
+    }
+
+    getLatest(taskId: string): AnalysisProgressEvent | undefined {
+        const events = this.history.get(taskId);
+        return events?.[events.length - 1];
+    }
+
+    /**
+     * Call listener for each new event of a task. Returns a function that unsubscribes.
+     */
+    subscribe(taskId: string, listener: (event: AnalysisProgressEvent) => void): () => void {
+        const onProgress = (event: AnalysisProgressEvent) => {
+            if (event.taskId === taskId) listener(event);
+        };
+        this.on(PROGRESS_EVENT, onProgress);
+        return () => {
+            this.off(PROGRESS_EVENT, onProgress);
+        };
+    }
+
+    private prune(): void {
+        while (this.history.size > this.maxTasks) {
+            const oldest = this.history.keys().next().value;
+            if (!oldest) break;
+            this.history.delete(oldest);
+        }
+    }
+}
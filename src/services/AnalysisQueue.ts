@@ -1,106 +1,207 @@
 // src/services/AnalysisQueue.ts
-import * as amqp from 'amqplib';
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import { NFTManager, NFTManagerConfig } from './NFTManager';
-import OpenAIService, { OpenAIServiceConfig, ClinicalContext } from './OpenAIService';
+import { NFTManager, NFTManagerConfig, NFTManagerEvent } from './NFTManager';
+import { AnalysisProgressUpdate, AnalysisStage } from './AnalysisProgressTracker';
+import { AnalysisData, NFTMetadata, ReusedAnalysis } from '../contracts/PatientNFT';
+import { clinicalFingerprint } from '../utils/fingerprint';
+import OpenAIService, { OpenAIServiceConfig, ClinicalContext, RecommendationGeneration } from './OpenAIService';
+import { LLMValidationError, ValidationFailure } from './llm/structuredOutput';
+import { GenerationRecord } from './llm/LLMProvider';
+import { UsageMeter, UsageTotals, meterUsage } from './llm/usage';
 import Client from 'fhir-kit-client';
-
-interface AnalysisQueueConfig {
+import {
+    ConsumeOptions,
+    DeadLetter,
+    MAX_PRIORITY,
+    QueueDriver,
+    QueueMessage,
+    QueueRetryPolicy,
+    QueueSetupError
+} from './queue/QueueDriver';
+import { AmqpQueueDriver } from './queue/AmqpQueueDriver';
+import { FileQueueDriver } from './queue/FileQueueDriver';
+
+export interface AnalysisQueueConfig {
+    // 'amqp' for RabbitMQ / LavinMQ, 'file' for the built-in queue in a local file
+    driver?: 'amqp' | 'file';
+    // false for API servers that only enqueue, leaving the analyses to worker processes
+    consume?: boolean;
+    consumers?: ConsumeOptions;
     amqp: {
         url: string;
         queue: string;
     };
+    file?: {
+        path: string;
+        pollIntervalMs?: number;
+    };
+    retry?: Partial<QueueRetryPolicy>;
+    // Keep the latest recommendations instead of calling the LLM when the clinical context is unchanged
+    reuseUnchanged?: {
+        enabled?: boolean;
+        // Recommendations older than this are regenerated even if nothing changed
+        maxAgeMs?: number;
+    };
     nft: NFTManagerConfig;
-    openai: OpenAIServiceConfig;
+    // Model that generates the specialist recommendations
+    recommendations: OpenAIServiceConfig;
+}
+
+/**
+ * Events emitted by AnalysisQueue
+ */
+export enum AnalysisQueueEvent {
+    ANALYSIS_COMPLETED = 'analysis:completed',
+    ANALYSIS_FAILED = 'analysis:failed',
+    ANALYSIS_CANCELLED = 'analysis:cancelled',
+    // Stage transitions, as AnalysisProgressUpdate
+    ANALYSIS_PROGRESS = 'analysis:progress',
+    // LLM usage of one attempt, as AnalysisUsageUpdate; failed attempts are reported too
+    ANALYSIS_USAGE = 'analysis:usage'
+}
+
+export interface AnalysisUsageUpdate {
+    taskId: string;
+    patientId: string;
+    tenant?: string;
+    usage: UsageTotals;
+}
+
+export interface FailedAnalysis {
+    analysisId: string;
+    patientId?: string;
+    userId?: string;
+    reason: DeadLetter<AnalysisJob>['reason'];
+    lastError?: string;
+    retryCount: number;
+    enqueuedAt: string;
+    deadLetteredAt: string;
+}
+
+/**
+ * How soon an analysis should run: stat (e.g. emergency department), urgent (inpatient),
+ * routine, or background (batch sweeps, behind everything else)
+ */
+export type AnalysisPriority = 'stat' | 'urgent' | 'routine' | 'background';
+
+// Queue priority of each analysis priority, from 0 to MAX_PRIORITY
+const PRIORITY_LEVELS: Record<AnalysisPriority, number> = {
+    stat: MAX_PRIORITY,
+    urgent: 5,
+    routine: 1,
+    background: 0
+};
+
+export type CancelAnalysisResult = 'cancelled' | 'not-found' | 'finished' | 'forbidden';
+
+type AnalysisEventPayload = AnalysisProgressUpdate | AnalysisUsageUpdate | {
+    taskId: string;
+    metadata?: NFTMetadata;
+    cancelledAt?: string;
+    error?: unknown;
+};
+
+// An event passed to the other API servers and workers sharing the queue
+interface AnalysisBroadcast {
+    // instanceId of the sending AnalysisQueue
+    origin: string;
+    event: AnalysisQueueEvent;
+    payload: AnalysisEventPayload;
+}
+
+// Analyses recorded before the latest completed one: pending, failed or cancelled ones
+const REUSE_SEARCH_DEPTH = 5;
+
+interface ReusableAnalysis {
+    source: ReusedAnalysis;
+    recommendations: AnalysisData['recommendations'];
+    generation: GenerationRecord;
+}
+
+// Whether recommendations were generated by the same model and prompt versions
+function sameGeneration(a: GenerationRecord, b: GenerationRecord): boolean {
+    const prompts = (generation: GenerationRecord) => generation.prompts
+        .map(prompt => `${prompt.id}@${prompt.version}${prompt.tenant ? `/${prompt.tenant}` : ''}`)
+        .sort()
+        .join(',');
+
+    return a.provider === b.provider
+        && a.model === b.model
+        && a.temperature === b.temperature
+        && prompts(a) === prompts(b);
 }
 
 interface AnalysisJob {
     taskId: string;
     patient: any;
     userId: string;
+    // Selects tenant-specific prompts
+    tenant?: string;
+    priority: AnalysisPriority;
     timestamp: number;
 }
 
-export class AnalysisQueue {
-    private connection: amqp.Connection | null = null;
-    private channel: amqp.Channel | null = null;
+export class AnalysisQueue extends EventEmitter {
+    private driver: QueueDriver<AnalysisJob>;
     private nftManager: NFTManager;
     private openaiService: OpenAIService;
     private isProcessing: boolean = false;
-    private queueName: string;
-    private activeJobs: Map<string, { patientId: string }> = new Map();
+    private readonly consumeOptions: ConsumeOptions;
+    private readonly reuseUnchanged: { enabled: boolean; maxAgeMs: number };
+    private readonly instanceId: string = uuidv4();
+    private activeJobs: Map<string, { patientId: string; userId: string; controller: AbortController }> = new Map();
+    // Jobs published by this process that have not started yet, for cancellation
+    private queuedJobs: Map<string, { patientId: string; userId: string }> = new Map();
+    // Cancelled jobs, skipped if still delivered by the queue
+    private cancelledJobs: Map<string, string> = new Map();
+    // Recently completed analyses, so callers arriving after completion need not wait
+    private recentResults: Map<string, NFTMetadata> = new Map();
+    private static readonly RECENT_RESULTS_LIMIT = 500;
+    // Callers of waitForCompletion by taskId, settled by one listener per final event
+    private waiters: Map<string, Set<(metadata: NFTMetadata | null) => void>> = new Map();
 
     constructor(config: AnalysisQueueConfig) {
+        super();
         this.nftManager = new NFTManager(config.nft);
-        this.openaiService = new OpenAIService(config.openai);
-        this.queueName = config.amqp.queue;
-
-        this.initialize(config.amqp.url).catch(error => {
-            console.error('Failed to initialize AMQP connection:', error);
-            throw error;
-        });
-    }
-
-    private async initialize(amqpUrl: string): Promise<void> {
-        try {
-            this.connection = await amqp.connect(amqpUrl);
-
-            this.connection.on('error', (error) => {
-                console.error('AMQP connection error:', error);
-                this.reconnect(amqpUrl);
-            });
-
-            this.connection.on('close', () => {
-                console.log('AMQP connection closed');
-                this.reconnect(amqpUrl);
-            });
-
-            this.channel = await this.connection.createChannel();
-
-            await this.channel.assertQueue(this.queueName, {
-                durable: true,
-                deadLetterExchange: 'dlx',
-                messageTtl: 24 * 60 * 60 * 1000
-            });
-
-            await this.channel.assertExchange('dlx', 'direct');
-            await this.channel.assertQueue('failed_analyses', {
-                durable: true
+        this.openaiService = new OpenAIService(config.recommendations);
+        this.driver = AnalysisQueue.createDriver(config);
+        this.consumeOptions = config.consumers || {};
+        this.reuseUnchanged = {
+            enabled: config.reuseUnchanged?.enabled ?? true,
+            maxAgeMs: config.reuseUnchanged?.maxAgeMs ?? 30 * 24 * 60 * 60 * 1000
+        };
+        this.forwardRecordProgress();
+        this.settleWaitersOnFinish();
+        this.driver.onBroadcast(message => this.handleBroadcast(message));
+
+        // A broker that is down must not take the server with it; the AMQP driver keeps retrying
+        this.driver.connect()
+            .then(() => (config.consume === false ? undefined : this.startProcessing()))
+            .catch(error => {
+                console.error(`Failed to start ${this.driver.name} analysis queue:`, error);
+                // Reconnecting cannot fix the queue, so do not run without it
+                if (error instanceof QueueSetupError) {
+                    process.exit(1);
+                }
             });
-            await this.channel.bindQueue('failed_analyses', 'dlx', this.queueName);
-
-            console.log('AMQP connection established');
-            await this.startProcessing();
-        } catch (error) {
-            console.error('AMQP initialization error:', error);
-            throw error;
-        }
     }
 
-    private async reconnect(amqpUrl: string): Promise<void> {
-        try {
-            if (this.channel) {
-                await this.channel.close();
-            }
-            if (this.connection) {
-                await this.connection.close();
-            }
-        } catch (error) {
-            console.error('Error closing existing connections:', error);
-        }
-
-        try {
-            await this.initialize(amqpUrl);
-            if (this.isProcessing) {
-                await this.startProcessing();
+    private static createDriver(config: AnalysisQueueConfig): QueueDriver<AnalysisJob> {
+        if (config.driver === 'file') {
+            if (!config.file) {
+                throw new Error('File queue driver requires a file path');
             }
-        } catch (error) {
-            console.error('Failed to reconnect:', error);
-            setTimeout(() => this.reconnect(amqpUrl), 5000);
+            return new FileQueueDriver<AnalysisJob>({ ...config.file, retry: config.retry });
         }
+        return new AmqpQueueDriver<AnalysisJob>({ ...config.amqp, retry: config.retry });
     }
 
-    async createAnalysis(patient: any, userId: string): Promise<string> {
+    async createAnalysis(
+        patient: any,
+        userId: string,
+        options: { priority?: AnalysisPriority; tenant?: string } = {}
+    ): Promise<string> {
         try {
             const patientId = patient.id;
             const analysisId = uuidv4();
@@ -111,6 +212,7 @@ export class AnalysisQueue {
                 analysisId,
                 analysisData: {
                     status: 'pending',
+                    ...(userId && { requestedBy: userId }),
                     createdAt: new Date().toISOString()
                 }
             });
@@ -119,26 +221,14 @@ export class AnalysisQueue {
                 taskId: analysisId,
                 userId,
                 patient,
+                ...(options.tenant && { tenant: options.tenant }),
+                priority: options.priority || 'routine',
                 timestamp: Date.now()
             };
 
-            if (!this.channel) {
-                throw new Error('AMQP channel not initialized');
-            }
-
-            this.channel.sendToQueue(
-                this.queueName,
-                Buffer.from(JSON.stringify(job)),
-                {
-                    persistent: true,
-                    messageId: analysisId,
-                    timestamp: job.timestamp,
-                    contentType: 'application/json',
-                    headers: {
-                        'x-retry-count': 0
-                    }
-                }
-            );
+            await this.driver.publish(analysisId, job, { priority: PRIORITY_LEVELS[job.priority] });
+            AnalysisQueue.remember(this.queuedJobs, analysisId, { patientId, userId });
+            this.emitProgress(analysisId, 'queued', { priority: job.priority });
 
             return analysisId;
         } catch (error) {
@@ -148,42 +238,16 @@ export class AnalysisQueue {
     }
 
     async startProcessing(): Promise<void> {
-        if (!this.channel) {
-            throw new Error('AMQP channel not initialized');
-        }
-
+        if (this.isProcessing) return;
         this.isProcessing = true;
 
         try {
-            await this.channel.prefetch(1);
-
-            await this.channel.consume(
-                this.queueName,
-                async (msg: amqp.ConsumeMessage | null) => {
-                    if (!msg) return;
-
-                    try {
-                        const job: AnalysisJob = JSON.parse(msg.content.toString());
-                        await this.processAnalysis(job);
-                        this.channel?.ack(msg);
-                    } catch (error) {
-                        console.error('Error processing message:', error);
-                        const retryCount = ((msg.properties.headers ?? {})['x-retry-count'] as number || 0) + 1;
-
-                        if (retryCount <= 3) {
-                            await this.republishWithDelay(msg, retryCount);
-                            this.channel?.ack(msg);
-                        } else {
-                            const currentJob: AnalysisJob = JSON.parse(msg.content.toString());
-                            await this.handleFailedAnalysis(currentJob);
-                            this.channel?.ack(msg);
-                        }
-                    }
-                },
-                { noAck: false }
-            );
+            await this.driver.consume({
+                handle: (message: QueueMessage<AnalysisJob>) => this.processAnalysis(message.body),
+                onDeadLetter: (message: QueueMessage<AnalysisJob>, error: unknown) => this.handleFailedAnalysis(message.body, error)
+            }, this.consumeOptions);
 
-            console.log('Started processing analysis queue');
+            console.log(`Started processing analysis queue (${this.driver.name})`);
         } catch (error) {
             console.error('Error starting queue processing:', error);
             this.isProcessing = false;
@@ -192,39 +256,235 @@ export class AnalysisQueue {
     }
 
     private async processAnalysis(job: AnalysisJob): Promise<void> {
+        this.queuedJobs.delete(job.taskId);
+        if (await this.isCancelled(job.taskId)) {
+            console.log(`Skipping cancelled analysis ${job.taskId}`);
+            return;
+        }
+
+        const controller = new AbortController();
+        const meter = new UsageMeter();
+
         try {
             console.log('Processing analysis:', job);
             // Store patient ID for this job
-            this.activeJobs.set(job.taskId, { patientId: job.patient.id });
+            this.activeJobs.set(job.taskId, { patientId: job.patient.id, userId: job.userId, controller });
 
             const patientData = job.patient;
 
             const clinicalContext = this.generateClinicalContext(patientData);
-
-            const recommendations = await this.generateRecommendations(clinicalContext);
+            const contextFingerprint = clinicalFingerprint(clinicalContext);
+            this.emitProgress(job.taskId, 'context-built');
 
             // Get current metadata to preserve previousAnalysis
             const currentMetadata = await this.nftManager.getMetadata(job.taskId);
-            
-            // Queue NFT metadata update with completed analysis
-            await this.nftManager.queueMetadataUpdate(job.taskId, {
+            const previousAnalysis = currentMetadata?.previousAnalysis || null;
+            if (controller.signal.aborted) return;
+
+            const reusable = await this.findReusableAnalysis(
+                previousAnalysis,
+                contextFingerprint,
+                this.openaiService.describeGeneration(job.tenant)
+            );
+            if (controller.signal.aborted) return;
+
+            let recommendations;
+            let generation: GenerationRecord;
+            let validationFailures: ValidationFailure[] = [];
+            if (reusable) {
+                console.log(`Clinical context unchanged since analysis ${reusable.source.analysisId}, reusing its recommendations for ${job.taskId}`);
+                recommendations = reusable.recommendations;
+                generation = reusable.generation;
+                this.emitProgress(job.taskId, 'llm-finished', {
+                    specialists: recommendations?.specialists?.length ?? 0,
+                    reusedFrom: reusable.source.analysisId
+                });
+            } else {
+                this.emitProgress(job.taskId, 'llm-started');
+                const generated = await meterUsage(meter, () =>
+                    this.generateRecommendations(clinicalContext, job.tenant, controller.signal)
+                );
+                if (controller.signal.aborted) return;
+                recommendations = generated.value;
+                generation = generated.generation;
+                validationFailures = generated.validationFailures;
+                this.emitProgress(job.taskId, 'llm-finished', {
+                    specialists: recommendations?.specialists?.length ?? 0
+                });
+            }
+
+            const completedAt = new Date().toISOString();
+            const metadata: NFTMetadata = {
                 patientId: job.patient.id,
                 analysisId: job.taskId,
                 analysis: {
                     status: 'completed',
                     clinicalContext,
                     recommendations,
-                    completedAt: new Date().toISOString()
+                    contextFingerprint,
+                    // Model and prompt versions, to tell a prompt change from a patient change
+                    generation,
+                    ...(reusable && { reusedFrom: reusable.source }),
+                    // Invalid model responses that were repaired before these recommendations
+                    ...(validationFailures.length > 0 && { validationFailures }),
+                    // Tokens and estimated cost of this attempt's LLM calls
+                    usage: meter.summary(),
+                    completedAt
                 },
-                timestamp: new Date().toISOString(),
-                previousAnalysis: currentMetadata?.previousAnalysis || null
-            });
+                timestamp: completedAt,
+                previousAnalysis
+            };
+
+            // Results are usable as soon as they exist; the NFT update below can take a while
+            this.rememberResult(job.taskId, metadata);
+            this.announce(AnalysisQueueEvent.ANALYSIS_COMPLETED, { taskId: job.taskId, metadata });
+
+            // An unchanged analysis is recorded without the context and recommendations it shares
+            const recorded: NFTMetadata = reusable
+                ? {
+                    ...metadata,
+                    analysis: {
+                        status: 'completed',
+                        contextFingerprint,
+                        generation,
+                        reusedFrom: reusable.source,
+                        usage: meter.summary(),
+                        completedAt
+                    }
+                }
+                : metadata;
+
+            // Queue NFT metadata update with completed analysis
+            await this.nftManager.queueMetadataUpdate(job.taskId, recorded);
             console.log(`Analysis completed for task ${job.taskId}`);
             this.activeJobs.delete(job.taskId);
         } catch (error) {
+            if (controller.signal.aborted) {
+                console.log(`Analysis ${job.taskId} was cancelled while running`);
+                return;
+            }
+            // The queue driver retries, then dead-letters the job and reports it failed
             console.error(`Error processing analysis for task ${job.taskId}:`, error);
-            await this.handleAnalysisError(job.taskId, error);
+            throw error;
+        } finally {
+            // Tokens are paid for whether or not the attempt succeeded
+            if (meter.calls.length > 0) {
+                this.announce(AnalysisQueueEvent.ANALYSIS_USAGE, {
+                    taskId: job.taskId,
+                    patientId: job.patient.id,
+                    ...(job.tenant && { tenant: job.tenant }),
+                    usage: meter.totals()
+                });
+            }
+        }
+    }
+
+    /**
+     * Cancel a queued or running analysis and record it as cancelled. canCancel is
+     * given the user who requested the analysis and may refuse the cancellation.
+     */
+    async cancelAnalysis(
+        taskId: string,
+        canCancel: (requestedBy: string | undefined) => boolean = () => true
+    ): Promise<CancelAnalysisResult> {
+        if (this.recentResults.has(taskId) || this.cancelledJobs.has(taskId)) {
+            return 'finished';
+        }
+
+        const job = this.activeJobs.get(taskId) || this.queuedJobs.get(taskId);
+        let patientId = job?.patientId;
+        let requestedBy = job?.userId || undefined;
+
+        // Published by another process, or before a restart
+        if (!patientId) {
+            const metadata = await this.nftManager.getMetadata(taskId).catch(() => null);
+            if (!metadata) return 'not-found';
+            if (metadata.analysis?.status !== 'pending' && metadata.analysis?.status !== 'in-progress') {
+                return 'finished';
+            }
+            patientId = metadata.patientId;
+            requestedBy = metadata.analysis.requestedBy;
+        }
+
+        if (!canCancel(requestedBy)) {
+            return 'forbidden';
         }
+
+        const cancelledAt = new Date().toISOString();
+        this.markCancelled(taskId, cancelledAt);
+
+        // Drivers that cannot remove it skip the job when it is delivered
+        await this.driver.remove(taskId);
+
+        // Workers running the job stop it when they receive this
+        this.announce(AnalysisQueueEvent.ANALYSIS_CANCELLED, { taskId, cancelledAt });
+        this.emitProgress(taskId, 'cancelled');
+
+        this.nftManager.queueMetadataUpdate(taskId, {
+            analysisId: taskId,
+            patientId,
+            analysis: {
+                status: 'cancelled',
+                cancelledAt
+            },
+            timestamp: cancelledAt,
+            previousAnalysis: null
+        }).catch(error => {
+            console.error(`Error recording cancellation of analysis ${taskId}:`, error);
+        });
+
+        return 'cancelled';
+    }
+
+    private markCancelled(taskId: string, cancelledAt: string): void {
+        AnalysisQueue.remember(this.cancelledJobs, taskId, cancelledAt);
+        this.queuedJobs.delete(taskId);
+        this.activeJobs.get(taskId)?.controller.abort();
+        this.activeJobs.delete(taskId);
+    }
+
+    /**
+     * The patient's latest completed analysis, found through the previousAnalysis chain, if
+     * it was made from the same clinical context, model and prompts recently enough to keep
+     * its recommendations
+     */
+    private async findReusableAnalysis(
+        previousAnalysis: string | null,
+        fingerprint: string,
+        current: GenerationRecord
+    ): Promise<ReusableAnalysis | null> {
+        if (!this.reuseUnchanged.enabled) return null;
+
+        let metadataKey = previousAnalysis;
+        for (let depth = 0; metadataKey && depth < REUSE_SEARCH_DEPTH; depth++) {
+            const metadata = await this.nftManager.getMetadataFromFilebase(`metadata/${metadataKey}.json`);
+            if (!metadata) return null;
+
+            if (metadata.analysis?.status === 'completed') {
+                const { contextFingerprint, recommendations, generation, reusedFrom, completedAt } = metadata.analysis;
+                if (contextFingerprint !== fingerprint || !recommendations) return null;
+                if (!generation || !sameGeneration(generation, current)) return null;
+
+                // Unchanged analyses point to the one that generated the recommendations
+                const source: ReusedAnalysis = reusedFrom || { analysisId: metadata.analysisId, metadataKey, completedAt };
+                const age = Date.now() - Date.parse(source.completedAt || '');
+                if (!(age <= this.reuseUnchanged.maxAgeMs)) return null;
+
+                return { source, recommendations, generation };
+            }
+
+            metadataKey = metadata.previousAnalysis;
+        }
+
+        return null;
+    }
+
+    private async isCancelled(taskId: string): Promise<boolean> {
+        if (this.cancelledJobs.has(taskId)) return true;
+
+        // Cancelled through another process
+        const metadata = await this.nftManager.getMetadata(taskId).catch(() => null);
+        return metadata?.analysis?.status === 'cancelled';
     }
 
     private generateClinicalContext(patientData: any): ClinicalContext {
@@ -242,33 +502,56 @@ export class AnalysisQueue {
                 onsetDate: c.onset
             })),
             observations: (patientData.observations || []).map((o: any) => ({
+                id: o.id,
                 code: o.code,
                 display: o.display,
-                value: o.value?.value || o.value,
-                unit: o.value?.unit,
+                category: o.category?.code,
+                value: o.value,
+                dataAbsentReason: o.dataAbsentReason,
                 date: o.effectiveDateTime,
-                interpretation: o.interpretation
+                interpretation: o.interpretation,
+                referenceRange: o.referenceRange,
+                components: o.components,
+                members: o.members
             })),
             medications: (patientData.medications || []).map((m: any) => ({
                 code: m.code,
                 display: m.display,
                 status: m.status,
-                startDate: m.effectiveDateTime || m.authoredOn
-            }))
+                dose: m.dose,
+                route: m.route,
+                frequency: m.frequency,
+                asNeeded: m.asNeeded,
+                startDate: m.startDate || m.effectiveDateTime || m.authoredOn,
+                endDate: m.endDate,
+                sources: m.sources
+            })),
+            encounters: patientData.encounters
         };
     }
 
-    private async generateRecommendations(clinicalContext: ClinicalContext): Promise<any> {
+    private async generateRecommendations(
+        clinicalContext: ClinicalContext,
+        tenant?: string,
+        signal?: AbortSignal
+    ): Promise<RecommendationGeneration> {
         try {
             console.log('Generating recommendations for clinical context:', clinicalContext);
-            return await this.openaiService.generateRecommendations(clinicalContext);
+            return await this.openaiService.generateRecommendations(clinicalContext, { signal, tenant });
         } catch (error) {
             console.error('Error generating recommendations:', error);
             throw error;
         }
     }
 
-    private async handleAnalysisError(taskId: string, error: any): Promise<void> {
+    private async handleAnalysisError(
+        taskId: string,
+        error: any,
+        validationFailures?: ValidationFailure[]
+    ): Promise<void> {
+        this.announce(AnalysisQueueEvent.ANALYSIS_FAILED, { taskId, error }, { taskId, error: { message: error?.message } });
+        this.emitProgress(taskId, 'failed', { error: error?.message });
+
         // Update NFT metadata with error status
         await this.nftManager.queueMetadataUpdate(taskId, {
             analysisId: taskId,
@@ -276,6 +559,7 @@ export class AnalysisQueue {
             analysis: {
                 status: 'failed',
                 error: error.message,
+                ...(validationFailures && { validationFailures }),
                 failedAt: new Date().toISOString()
             },
             timestamp: new Date().toISOString(),
@@ -283,51 +567,176 @@ export class AnalysisQueue {
         });
     }
 
-    private async republishWithDelay(msg: amqp.ConsumeMessage, retryCount: number): Promise<void> {
-        const delay = Math.pow(2, retryCount) * 1000;
-
-        setTimeout(async () => {
-            if (!this.channel) return;
-
-            try {
-                await this.channel.sendToQueue(
-                    this.queueName,
-                    msg.content,
-                    {
-                        ...msg.properties,
-                        headers: {
-                            ...msg.properties.headers,
-                            'x-retry-count': retryCount
-                        }
-                    }
-                );
-            } catch (error) {
-                console.error('Error republishing message:', error);
-            }
-        }, delay);
+    /**
+     * Wait up to timeoutMs for an analysis to finish. Resolves with the completed
+     * metadata, or null if the analysis failed, was cancelled or the time budget ran out.
+     */
+    waitForCompletion(taskId: string, timeoutMs: number): Promise<NFTMetadata | null> {
+        const completed = this.recentResults.get(taskId);
+        if (completed) {
+            return Promise.resolve(completed);
+        }
+
+        return new Promise(resolve => {
+            const waiters = this.waiters.get(taskId) || new Set();
+            const finish = (metadata: NFTMetadata | null) => {
+                clearTimeout(timer);
+                waiters.delete(finish);
+                if (waiters.size === 0 && this.waiters.get(taskId) === waiters) {
+                    this.waiters.delete(taskId);
+                }
+                resolve(metadata);
+            };
+            const timer = setTimeout(() => finish(null), timeoutMs);
+
+            waiters.add(finish);
+            this.waiters.set(taskId, waiters);
+        });
+    }
+
+    private settleWaitersOnFinish(): void {
+        const settle = (taskId: string, metadata: NFTMetadata | null) => {
+            this.waiters.get(taskId)?.forEach(finish => finish(metadata));
+        };
+
+        this.on(AnalysisQueueEvent.ANALYSIS_COMPLETED, ({ taskId, metadata }: { taskId: string; metadata: NFTMetadata }) => {
+            settle(taskId, metadata);
+        });
+        this.on(AnalysisQueueEvent.ANALYSIS_FAILED, ({ taskId }: { taskId: string }) => settle(taskId, null));
+        this.on(AnalysisQueueEvent.ANALYSIS_CANCELLED, ({ taskId }: { taskId: string }) => settle(taskId, null));
+    }
+
+    private emitProgress(taskId: string, stage: AnalysisStage, detail?: Record<string, unknown>): void {
+        const update: AnalysisProgressUpdate = { taskId, stage, ...(detail && { detail }) };
+        this.announce(AnalysisQueueEvent.ANALYSIS_PROGRESS, update);
+    }
+
+    /**
+     * Emit an event here and in every other process sharing the queue. shared replaces
+     * a payload that does not survive JSON.
+     */
+    private announce(
+        event: AnalysisQueueEvent,
+        payload: AnalysisEventPayload,
+        shared: AnalysisEventPayload = payload
+    ): void {
+        this.emit(event, payload);
+
+        const message: AnalysisBroadcast = { origin: this.instanceId, event, payload: shared };
+        this.driver.broadcast(message).catch(error => {
+            console.error(`Error broadcasting ${event}:`, error);
+        });
+    }
+
+    /**
+     * Re-emit an event announced by another process, e.g. a worker's progress on an API server
+     */
+    private handleBroadcast(message: unknown): void {
+        const { origin, event, payload } = (message || {}) as Partial<AnalysisBroadcast>;
+        if (origin === this.instanceId || !payload?.taskId) return;
+        if (!event || !Object.values(AnalysisQueueEvent).includes(event)) return;
+
+        if (event === AnalysisQueueEvent.ANALYSIS_COMPLETED && 'metadata' in payload && payload.metadata) {
+            this.rememberResult(payload.taskId, payload.metadata);
+        } else if (event === AnalysisQueueEvent.ANALYSIS_CANCELLED) {
+            this.markCancelled(payload.taskId, ('cancelledAt' in payload && payload.cancelledAt) || new Date().toISOString());
+        }
+
+        this.emit(event, payload);
+    }
+
+    /**
+     * Report the storage and blockchain steps of writing a completed analysis as progress.
+     * Writes of pending or failed placeholders are not progress.
+     */
+    private forwardRecordProgress(): void {
+        const isResultWrite = (metadata?: NFTMetadata) => metadata?.analysis?.status === 'completed';
+
+        this.nftManager.on(NFTManagerEvent.METADATA_STORED, ({ analysisId, metadata }) => {
+            if (isResultWrite(metadata)) this.emitProgress(analysisId, 'metadata-stored');
+        });
+        this.nftManager.on(NFTManagerEvent.TRANSACTION_SUBMITTED, ({ analysisId, metadata, hash }) => {
+            if (isResultWrite(metadata)) this.emitProgress(analysisId, 'nft-submitted', { hash });
+        });
+        this.nftManager.on(NFTManagerEvent.TRANSACTION_CONFIRMED, ({ analysisId, metadata, hash, blockNumber }) => {
+            if (isResultWrite(metadata)) this.emitProgress(analysisId, 'nft-confirmed', { hash, blockNumber: blockNumber.toString() });
+        });
+        this.nftManager.on(NFTManagerEvent.TRANSACTION_FAILED, ({ analysisId, metadata, hash, error }) => {
+            if (isResultWrite(metadata)) this.emitProgress(analysisId, 'failed', { hash, error: error?.message });
+        });
+    }
+
+    private rememberResult(taskId: string, metadata: NFTMetadata): void {
+        AnalysisQueue.remember(this.recentResults, taskId, metadata);
     }
 
-    private async handleFailedAnalysis(job: AnalysisJob): Promise<void> {
+    // Map.set that drops the oldest entry beyond RECENT_RESULTS_LIMIT
+    private static remember<V>(map: Map<string, V>, key: string, value: V): void {
+        map.set(key, value);
+        if (map.size > AnalysisQueue.RECENT_RESULTS_LIMIT) {
+            const oldest = map.keys().next().value;
+            if (oldest) map.delete(oldest);
+        }
+    }
+
+    private async handleFailedAnalysis(job: AnalysisJob, cause: unknown): Promise<void> {
         try {
+            const reason = cause instanceof Error ? cause.message : String(cause);
             await this.handleAnalysisError(
                 job.taskId,
-                new Error('Maximum retry attempts exceeded')
+                new Error(`Maximum retry attempts exceeded: ${reason}`),
+                cause instanceof LLMValidationError ? cause.failures : undefined
             );
         } catch (error) {
             console.error('Error handling failed analysis:', error);
+        } finally {
+            this.activeJobs.delete(job.taskId);
         }
     }
 
+    /**
+     * Analyses that were dead-lettered after exhausting their retries or expiring in the queue
+     */
+    async listFailedAnalyses(): Promise<FailedAnalysis[]> {
+        const deadLetters = await this.driver.listDeadLetters();
+        return deadLetters.map(deadLetter => ({
+            analysisId: deadLetter.id,
+            patientId: deadLetter.body?.patient?.id,
+            userId: deadLetter.body?.userId,
+            reason: deadLetter.reason,
+            lastError: deadLetter.lastError,
+            retryCount: deadLetter.retryCount,
+            enqueuedAt: new Date(deadLetter.enqueuedAt).toISOString(),
+            deadLetteredAt: new Date(deadLetter.deadLetteredAt).toISOString()
+        }));
+    }
+
+    /**
+     * Queue failed analyses again (all of them when analysisIds is omitted)
+     */
+    async replayFailedAnalyses(analysisIds?: string[]): Promise<string[]> {
+        const replayed = await this.driver.replayDeadLetters(analysisIds);
+        for (const analysisId of replayed) {
+            this.emitProgress(analysisId, 'queued', { replayed: true });
+        }
+        return replayed;
+    }
+
+    /**
+     * Discard failed analyses (all of them when analysisIds is omitted)
+     */
+    purgeFailedAnalyses(analysisIds?: string[]): Promise<string[]> {
+        return this.driver.purgeDeadLetters(analysisIds);
+    }
+
+    /**
+     * Stop taking analyses, wait for the running ones to finish, then disconnect
+     */
     async stopProcessing(): Promise<void> {
         this.isProcessing = false;
 
         try {
-            if (this.channel) {
-                await this.channel.close();
-            }
-            if (this.connection) {
-                await this.connection.close();
-            }
+            await this.driver.close();
             this.nftManager.destroy(); // Clean up NFTManager resources
         } catch (error) {
             console.error('Error stopping queue processing:', error);
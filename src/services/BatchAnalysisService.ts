@@ -0,0 +1,199 @@
+// src/services/BatchAnalysisService.ts
+import { v4 as uuidv4 } from 'uuid';
+import { setTimeout as sleep } from 'timers/promises';
+import { NFTMetadata } from '../contracts/PatientNFT';
+
+export interface BatchAnalysisConfig {
+    // Largest number of patients a batch may contain
+    maxPatients?: number;
+    // Patients fetched and queued per minute, to spare the FHIR server and the queue
+    ratePerMinute?: number;
+    // Batches kept in memory; the oldest finished batches are dropped first
+    maxBatches?: number;
+}
+
+export type BatchPatientStatus = 'pending' | 'queued' | 'completed' | 'failed' | 'cancelled';
+
+export interface BatchPatientResult {
+    patientId: string;
+    status: BatchPatientStatus;
+    analysisId?: string;
+    error?: string;
+    // Specialties recommended by a completed analysis
+    specialties?: string[];
+    finishedAt?: string;
+}
+
+export interface BatchProgress {
+    total: number;
+    counts: Record<BatchPatientStatus, number>;
+    // Share of patients whose analysis finished, completed or not (0-100)
+    percentComplete: number;
+}
+
+export interface BatchAnalysis {
+    batchId: string;
+    // The Group the patients came from, if any
+    group?: string;
+    requestedBy?: string;
+    createdAt: string;
+    status: 'running' | 'completed';
+    progress: BatchProgress;
+    patients: BatchPatientResult[];
+}
+
+export interface BatchAnalysisRequest {
+    patientIds: string[];
+    group?: string;
+    requestedBy?: string;
+}
+
+/**
+ * Fetches one patient's data and queues its analysis, resolving with the analysis id
+ */
+export type EnqueuePatientAnalysis = (patientId: string) => Promise<string>;
+
+interface StoredBatch {
+    batchId: string;
+    group?: string;
+    requestedBy?: string;
+    createdAt: string;
+    patients: BatchPatientResult[];
+}
+
+const FINISHED_STATUSES: BatchPatientStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Runs population analyses: queues one analysis per patient at a limited rate and
+ * follows each one to aggregate the batch's progress. Batches are kept in memory.
+ */
+export class BatchAnalysisService {
+    readonly maxPatients: number;
+    private readonly ratePerMinute: number;
+    private readonly maxBatches: number;
+    private batches: Map<string, StoredBatch> = new Map();
+    // analysisId -> the batch patient it belongs to
+    private byAnalysis: Map<string, BatchPatientResult> = new Map();
+
+    constructor(config: BatchAnalysisConfig = {}) {
+        this.maxPatients = config.maxPatients ?? 1000;
+        this.ratePerMinute = Math.max(config.ratePerMinute ?? 30, 1);
+        this.maxBatches = config.maxBatches ?? 100;
+    }
+
+    /**
+     * Start a batch. Patients are queued in the background; the batch is returned at once.
+     * Callers check the patient count against maxPatients.
+     */
+    start(request: BatchAnalysisRequest, enqueue: EnqueuePatientAnalysis): BatchAnalysis {
+        const patientIds = Array.from(new Set(request.patientIds));
+
+        const batch: StoredBatch = {
+            batchId: uuidv4(),
+            group: request.group,
+            requestedBy: request.requestedBy,
+            createdAt: new Date().toISOString(),
+            patients: patientIds.map(patientId => ({ patientId, status: 'pending' }))
+        };
+        this.batches.set(batch.batchId, batch);
+        this.prune();
+
+        this.enqueueAll(batch, enqueue).catch(error => {
+            console.error(`Error queuing batch ${batch.batchId}:`, error);
+        });
+
+        return this.summarize(batch);
+    }
+
+    get(batchId: string): BatchAnalysis | undefined {
+        const batch = this.batches.get(batchId);
+        return batch && this.summarize(batch);
+    }
+
+    recordCompleted(analysisId: string, metadata?: NFTMetadata): void {
+        const specialists: Array<{ specialty?: string }> = metadata?.analysis?.recommendations?.specialists || [];
+        this.finish(analysisId, 'completed', {
+            specialties: specialists.map(specialist => specialist.specialty).filter((specialty): specialty is string => !!specialty)
+        });
+    }
+
+    recordFailed(analysisId: string, error?: string): void {
+        this.finish(analysisId, 'failed', { error });
+    }
+
+    recordCancelled(analysisId: string): void {
+        this.finish(analysisId, 'cancelled');
+    }
+
+    private async enqueueAll(batch: StoredBatch, enqueue: EnqueuePatientAnalysis): Promise<void> {
+        const intervalMs = 60000 / this.ratePerMinute;
+        let nextAt = Date.now();
+
+        for (const patient of batch.patients) {
+            // Dropped from memory while still queuing
+            if (!this.batches.has(batch.batchId)) return;
+
+            const wait = nextAt - Date.now();
+            if (wait > 0) await sleep(wait);
+            nextAt = Date.now() + intervalMs;
+
+            try {
+                patient.analysisId = await enqueue(patient.patientId);
+                patient.status = 'queued';
+                this.byAnalysis.set(patient.analysisId, patient);
+            } catch (error) {
+                console.error(`Error queuing analysis of patient ${patient.patientId} in batch ${batch.batchId}:`, error);
+                patient.status = 'failed';
+                patient.error = error instanceof Error ? error.message : String(error);
+                patient.finishedAt = new Date().toISOString();
+            }
+        }
+
+        console.log(`Queued batch ${batch.batchId} (${batch.patients.length} patients)`);
+    }
+
+    private finish(
+        analysisId: string,
+        status: BatchPatientStatus,
+        details: Pick<BatchPatientResult, 'error' | 'specialties'> = {}
+    ): void {
+        const patient = this.byAnalysis.get(analysisId);
+        if (!patient || FINISHED_STATUSES.includes(patient.status)) return;
+
+        Object.assign(patient, details, { status, finishedAt: new Date().toISOString() });
+        this.byAnalysis.delete(analysisId);
+    }
+
+    private summarize(batch: StoredBatch): BatchAnalysis {
+        const counts: Record<BatchPatientStatus, number> = { pending: 0, queued: 0, completed: 0, failed: 0, cancelled: 0 };
+        for (const patient of batch.patients) {
+            counts[patient.status]++;
+        }
+
+        const total = batch.patients.length;
+        const finished = counts.completed + counts.failed + counts.cancelled;
+
+        return {
+            batchId: batch.batchId,
+            ...(batch.group && { group: batch.group }),
+            ...(batch.requestedBy && { requestedBy: batch.requestedBy }),
+            createdAt: batch.createdAt,
+            status: finished === total ? 'completed' : 'running',
+            progress: {
+                total,
+                counts,
+                percentComplete: Math.floor((finished / total) * 100)
+            },
+            patients: batch.patients.map(patient => ({ ...patient }))
+        };
+    }
+
+    // Drop the oldest finished batches beyond maxBatches
+    private prune(): void {
+        for (const batch of this.batches.values()) {
+            if (this.batches.size <= this.maxBatches) return;
+            if (batch.patients.some(patient => !FINISHED_STATUSES.includes(patient.status))) continue;
+            this.batches.delete(batch.batchId);
+        }
+    }
+}
@@ -0,0 +1,95 @@
+// src/services/CDSServiceRegistry.ts
+import {
+    CDSHookRequest,
+    CDSService,
+    CDSServiceConfig,
+    CDSServiceResponse,
+    CDSServicesDiscovery
+} from '../types/cds-hooks';
+
+/**
+ * Everything a service handler needs to answer a single hook invocation
+ */
+export interface CDSServiceInvocation<TPatientData = unknown> {
+    request: CDSHookRequest;
+    service: CDSServiceConfig;
+    patientData: TPatientData;
+    // Tenant of the authenticated CDS client, if its token names one
+    tenant?: string;
+}
+
+export type CDSServiceHandler<TPatientData = unknown> =
+    (invocation: CDSServiceInvocation<TPatientData>) => Promise<CDSServiceResponse> | CDSServiceResponse;
+
+export interface RegisteredCDSService<TPatientData = unknown> extends CDSServiceConfig {
+    handler: CDSServiceHandler<TPatientData>;
+}
+
+/**
+ * Pairs the configured CDS services with the handlers that implement them. Only services
+ * that are enabled and have a handler are discoverable or routable.
+ */
+export class CDSServiceRegistry<TPatientData = unknown> {
+    private readonly configs: Map<string, CDSServiceConfig>;
+    private readonly handlers: Map<string, CDSServiceHandler<TPatientData>> = new Map();
+
+    constructor(services: CDSServiceConfig[]) {
+        this.configs = new Map(services.map(service => [service.id, service]));
+    }
+
+    register(id: string, handler: CDSServiceHandler<TPatientData>): this {
+        if (!this.configs.has(id)) {
+            throw new Error(`Cannot register handler for unconfigured CDS service "${id}"`);
+        }
+        if (this.handlers.has(id)) {
+            throw new Error(`CDS service "${id}" already has a handler`);
+        }
+
+        this.handlers.set(id, handler);
+        return this;
+    }
+
+    get(id: string): RegisteredCDSService<TPatientData> | undefined {
+        const service = this.configs.get(id);
+        const handler = this.handlers.get(id);
+
+        if (!service || !service.enabled || !handler) {
+            return undefined;
+        }
+
+        return { ...service, handler };
+    }
+
+    list(): RegisteredCDSService<TPatientData>[] {
+        return Array.from(this.configs.keys())
+            .map(id => this.get(id))
+            .filter((service): service is RegisteredCDSService<TPatientData> => Boolean(service));
+    }
+
+    getSupportedHooks(): string[] {
+        return Array.from(new Set(this.list().map(service => service.hook)));
+    }
+
+    getDiscovery(): CDSServicesDiscovery {
+        return {
+            services: this.list().map(({ id, hook, title, description, prefetch }): CDSService => ({
+                hook,
+                title,
+                description,
+                id,
+                ...(prefetch && { prefetch })
+            }))
+        };
+    }
+
+    /**
+     * Log configured services that are enabled but have no handler, usually a typo in config
+     */
+    warnUnhandled(): void {
+        for (const service of this.configs.values()) {
+            if (service.enabled && !this.handlers.has(service.id)) {
+                console.warn(`CDS service "${service.id}" is enabled but has no handler; it will not be offered`);
+            }
+        }
+    }
+}
@@ -1,12 +1,22 @@
 import { GenesisService } from './Genesis';
 import type { AnalysisHistory, SynthesizedAnalysis } from './Genesis';
+import { z } from 'zod';
 import { MemoryVectorStore } from 'langchain/vectorstores/memory';
-import { OpenAIEmbeddings } from '@langchain/openai';
 import { Document } from '@langchain/core/documents';
-import { ChatOpenAI } from '@langchain/openai';
-import { PromptTemplate } from '@langchain/core/prompts';
 import { JsonOutputParser } from '@langchain/core/output_parsers';
-import { RunnableSequence } from '@langchain/core/runnables';
+import { LLMProvider, LLMProviderConfig } from './llm/LLMProvider';
+import { createLLMProvider } from './llm/createLLMProvider';
+import { ProviderEmbeddings } from './llm/ProviderEmbeddings';
+import { completeStructured } from './llm/structuredOutput';
+import { consultationSummarySchema, doctorConsultationSchema } from './llm/schemas';
+import { PromptRegistry, PromptRegistryConfig, PromptScope } from './llm/PromptRegistry';
+
+// Providers of the chat itself, the Genesis synthesis it runs and the RAG embeddings
+export interface ChatServiceLLMConfig {
+    chat: LLMProviderConfig;
+    genesis: LLMProviderConfig;
+    embeddings: LLMProviderConfig;
+}
 
 interface ChatMessage {
     role: 'user' | 'assistant';
@@ -25,14 +35,14 @@ interface DoctorSpecialty {
     reasoning: string;
 }
 
-interface DoctorConsultation {
+export interface DoctorConsultation {
     specialty: string;
     analysis: string;
     recommendations: string[];
     confidence: number; // 0-1 score
 }
 
-interface ConsultationSummary {
+export interface ConsultationSummary {
     primarySpecialist: string;
     consultingSpecialists: string[];
     diagnosis: string;
@@ -44,171 +54,31 @@ interface ConsultationSummary {
 export class ChatService {
     private genesis: GenesisService;
     private vectorStore: MemoryVectorStore;
-    private embeddings: OpenAIEmbeddings;
+    private embeddings: ProviderEmbeddings;
     private chatHistory: ChatMessage[] = [];
-    private llm: ChatOpenAI;
-    private specialtyAnalyzer: RunnableSequence;
-    private consultationTemplate: PromptTemplate;
-    private summaryTemplate: PromptTemplate;
-    private queryAnalyzer: RunnableSequence;
-    private directResponseTemplate: PromptTemplate;
-    private basicQueryTemplate: PromptTemplate;
-
-    constructor(apiKey: string) {
-        this.genesis = new GenesisService(apiKey);
-        this.embeddings = new OpenAIEmbeddings({
-            openAIApiKey: apiKey,
-            modelName: 'text-embedding-3-small'
-        });
-        this.vectorStore = new MemoryVectorStore(this.embeddings);
-        this.llm = new ChatOpenAI({
-            modelName: 'gpt-4o-mini',
-            temperature: 0.2,
-            openAIApiKey: apiKey
-        });
+    private llm: LLMProvider;
+    private readonly maxRepairs?: number;
+    private prompts: PromptRegistry;
 
-        // Initialize query analyzer to determine if specialist consultation is needed
-        const queryAnalyzerTemplate = PromptTemplate.fromTemplate(`
-            Analyze if the following clinician query requires specialist medical consultation.
-            Many queries can be answered directly from the patient context without specialist input.
-
-            Query from Clinician: {query}
-            Patient Context: {context}
-
-            Examples of queries that DON'T need specialist consultation:
-            - Patient demographic and history inquiries
-            - Lab result interpretations within normal ranges
-            - Standard medication information and current prescriptions
-            - Basic disease progression tracking
-            - Administrative or documentation queries
-            - Standard protocol confirmations
-            - Basic differential diagnosis support
-
-            Examples of queries that DO need specialist consultation:
-            - Complex case analysis requiring multi-specialty input
-            - Unusual lab results or imaging findings
-            - Treatment plan modifications for complex cases
-            - Rare disease management
-            - Drug interaction analysis in complex cases
-            - Novel therapeutic approaches
-            - Cases with multiple comorbidities
-
-            Format your response as JSON:
-            {
-                "needsSpecialist": boolean,
-                "reasoning": "string explaining clinical rationale for specialist consultation decision",
-                "confidence": number between 0 and 1
-            }
-        `);
-
-        this.queryAnalyzer = RunnableSequence.from([
-            queryAnalyzerTemplate,
-            this.llm,
-            new JsonOutputParser()
-        ]);
-
-        // Template for direct responses (no specialist needed)
-        this.directResponseTemplate = PromptTemplate.fromTemplate(`
-            You are a medical AI assistant supporting a clinician. Provide a professional, evidence-based response using the available patient context.
-            Focus on clinical relevance and be precise with medical terminology.
-
-            Query from Clinician: {query}
-            Patient Context: {context}
-
-            Respond in a clinically appropriate manner. Include relevant metrics, lab values, and clinical observations where applicable.
-            If any information is unclear or requires specialist interpretation, note this explicitly.
-        `);
-
-        // Simple template for basic queries
-        this.basicQueryTemplate = PromptTemplate.fromTemplate(`
-            You are a medical AI assistant helping a clinician. Answer the following query using only the provided context.
-            Be concise and direct. Use clinical terminology.
-
-            Query: {query}
-            Patient Context: {context}
-
-            Respond with just the relevant information, no explanations needed unless specifically asked.
-        `);
-
-        // Initialize specialty analyzer
-        const specialtyTemplate = PromptTemplate.fromTemplate(`
-            Analyze the following clinician query and patient context to determine which medical specialists should be consulted.
-            Consider both explicit and implicit clinical factors in the query.
-
-            Query from Clinician: {query}
-            Patient Context: {context}
-
-            You must respond with a valid JSON array containing up to 3 medical specialties.
-            Each specialty must have exactly these fields:
-            - specialty: string with the specialist title (e.g. "Cardiologist")
-            - relevance: number between 0 and 1 indicating clinical significance
-            - reasoning: string explaining clinical rationale for consultation
-
-            Format your response as a JSON array like this:
-            [
-                {
-                    "specialty": "Cardiologist",
-                    "relevance": 0.9,
-                    "reasoning": "Complex arrhythmia pattern requires electrophysiology expertise"
-                }
-            ]
-        `);
-
-        this.specialtyAnalyzer = RunnableSequence.from([
-            specialtyTemplate,
-            this.llm,
-            new JsonOutputParser<DoctorSpecialty[]>()
-        ]);
-
-        // Initialize consultation template
-        this.consultationTemplate = PromptTemplate.fromTemplate(`
-            You are a {specialty} consulting on the following case:
-
-            Query from Clinician: {query}
-            Patient Context: {context}
-            Current Clinical Insights: {currentInsights}
-
-            Provide a thorough clinical analysis and evidence-based recommendations.
-            Consider interactions with existing conditions and current treatment protocols.
-            
-            Format your response as JSON:
-            {
-                "specialty": "your specialty",
-                "analysis": "detailed clinical assessment",
-                "recommendations": ["specific clinical action items"],
-                "confidence": number (0-1) based on available evidence
-            }
-        `);
-
-        // Initialize summary template
-        this.summaryTemplate = PromptTemplate.fromTemplate(`
-            As the lead consultant, synthesize the following specialist consultations into a comprehensive clinical assessment:
-
-            Query from Clinician: {query}
-            Specialist Consultations: {consultations}
-
-            Provide an evidence-based synthesis that supports clinical decision-making.
-            Format your response as JSON:
-            {
-                "primarySpecialist": "string (lead consultant)",
-                "consultingSpecialists": ["specialist1", "specialist2"],
-                "diagnosis": "string (clinical assessment)",
-                "recommendations": ["specific clinical actions"],
-                "followUpSuggestions": ["clinical monitoring points"],
-                "patientNotes": "string (additional clinical considerations)"
-            }
-        `);
+    constructor(llm: ChatServiceLLMConfig, prompts?: PromptRegistryConfig) {
+        this.genesis = new GenesisService(llm.genesis, prompts);
+        this.embeddings = new ProviderEmbeddings(createLLMProvider(llm.embeddings));
+        this.vectorStore = new MemoryVectorStore(this.embeddings);
+        this.llm = createLLMProvider(llm.chat);
+        this.maxRepairs = llm.chat.maxRepairs;
+        this.prompts = new PromptRegistry(prompts);
     }
 
     /**
-     * Process a user query through the panel of AI doctors
+     * Process a user query through the panel of AI doctors. Prompts are rendered for the
+     * tenant of scope and recorded there.
      */
-    async processQuery(query: string): Promise<string> {
+    async processQuery(query: string, scope: PromptScope = { used: [] }): Promise<string> {
         // Add user message to history
         await this.addMessage('user', query);
 
         // Get enriched context
-        const context = await this.getEnrichedContext(query);
+        const context = await this.getEnrichedContext(query, scope);
         
         try {
             // Fast track for basic demographic queries
@@ -239,46 +109,39 @@ export class ChatService {
 
             // For other simple queries, use basic LLM response
             if (this.isSimpleQuery(query)) {
-                const response = await this.llm.invoke(
-                    await this.basicQueryTemplate.format({
-                        query,
-                        context: JSON.stringify(context)
-                    })
-                );
-                await this.addMessage('assistant', response.content);
-                return response.content;
+                const response = await this.complete(scope, 'chat-answer', 'chat.basic-query', {
+                    query,
+                    context: JSON.stringify(context)
+                });
+                await this.addMessage('assistant', response);
+                return response;
             }
 
             // Complex query path - needs specialist consultation
-            const specialists = await this.specialtyAnalyzer.invoke({
-                query,
-                context: JSON.stringify(context)
-            });
+            const specialists = await new JsonOutputParser<DoctorSpecialty[]>().parse(
+                await this.complete(scope, 'chat-specialties', 'chat.specialties', {
+                    query,
+                    context: JSON.stringify(context)
+                })
+            );
 
             // Get consultation from each specialist
             const consultations: DoctorConsultation[] = await Promise.all(
                 specialists.map(async (spec) => {
-                    const consultation = await this.llm.invoke(
-                        await this.consultationTemplate.format({
-                            specialty: spec.specialty,
-                            query,
-                            context: JSON.stringify(context),
-                            currentInsights: JSON.stringify(context.synthesizedInsights)
-                        })
-                    );
-                    return JSON.parse(consultation.content);
+                    return await this.completeStructured(scope, 'chat-consultation', 'chat.consultation', {
+                        specialty: spec.specialty,
+                        query,
+                        context: JSON.stringify(context),
+                        currentInsights: JSON.stringify(context.synthesizedInsights)
+                    }, doctorConsultationSchema);
                 })
             );
 
             // Generate final summary
-            const summary = await this.llm.invoke(
-                await this.summaryTemplate.format({
-                    query,
-                    consultations: JSON.stringify(consultations)
-                })
-            );
-
-            const finalResponse = JSON.parse(summary.content) as ConsultationSummary;
+            const finalResponse = await this.completeStructured(scope, 'chat-summary', 'chat.summary', {
+                query,
+                consultations: JSON.stringify(consultations)
+            }, consultationSummarySchema);
             const response = this.formatConsultationResponse(finalResponse);
             await this.addMessage('assistant', response);
             return response;
@@ -291,6 +154,30 @@ export class ChatService {
         }
     }
 
+    private async complete(scope: PromptScope, task: string, promptId: string, values: Record<string, string>): Promise<string> {
+        const completion = await this.llm.complete({
+            task,
+            messages: [{ role: 'user', content: this.prompts.renderIn(scope, promptId, values).text }],
+            temperature: 0.2
+        });
+        return completion.content;
+    }
+
+    private async completeStructured<T>(
+        scope: PromptScope,
+        task: string,
+        promptId: string,
+        values: Record<string, string>,
+        schema: z.ZodType<T>
+    ): Promise<T> {
+        const { value } = await completeStructured(this.llm, {
+            task,
+            messages: [{ role: 'user', content: this.prompts.renderIn(scope, promptId, values).text }],
+            temperature: 0.2
+        }, schema, this.maxRepairs);
+        return value;
+    }
+
     private isSimpleQuery(query: string): boolean {
         // Patterns that indicate a complex query needing specialist consultation
         const complexPatterns = [
@@ -401,7 +288,7 @@ ${consultation.patientNotes}`;
     /**
      * Get enriched context for the current chat message
      */
-    async getEnrichedContext(query: string): Promise<EnrichedContext> {
+    async getEnrichedContext(query: string, scope: PromptScope = { used: [] }): Promise<EnrichedContext> {
         // Get relevant documents from vector store
         const relevantDocs = await this.vectorStore.similaritySearch(query, 3);
         
@@ -419,7 +306,7 @@ ${consultation.patientNotes}`;
         }));
 
         // Use Genesis to synthesize insights
-        const synthesizedInsights = await this.genesis.processAnalysisHistory(analysisHistories);
+        const synthesizedInsights = await this.genesis.processAnalysisHistory(analysisHistories, scope);
 
         return {
             relevantAnalyses: relevantAnalyses,
@@ -4,6 +4,7 @@ import {
     Resource,
     FhirResource,
     Bundle,
+    Group,
     Task,
     Patient,
     Condition,
@@ -14,7 +15,7 @@ import {
     MedicationStatement
 } from 'fhir/r4';
 
-interface FHIRClientConfig {
+export interface FHIRClientConfig {
     baseUrl: string;
     auth?: {
         token?: string;
@@ -87,6 +88,45 @@ export class FHIRClient {
         return result as Bundle<T>;
     }
 
+    /**
+     * Search and follow `next` links until all pages (up to maxPages) have been
+     * collected into a single searchset Bundle
+     */
+    async searchAll<T extends Resource>(
+        resourceType: T['resourceType'],
+        params: SearchParameters = {},
+        options: { maxPages?: number } = {}
+    ): Promise<Bundle<T>> {
+        const maxPages = options.maxPages ?? 10;
+        const firstPage = await this.search<T>(resourceType, params);
+        const entries = [...(firstPage.entry || [])];
+
+        let page: Bundle<T> = firstPage;
+        let pageCount = 1;
+
+        while (pageCount < maxPages && page.link?.some(link => link.relation === 'next')) {
+            const currentPage = page;
+            page = await this.executeWithRetry<Bundle<T>>(() =>
+                this.client.nextPage({
+                    bundle: currentPage as Bundle<T> & { type: 'searchset' }
+                })
+            );
+            entries.push(...(page.entry || []));
+            pageCount++;
+        }
+
+        if (page.link?.some(link => link.relation === 'next')) {
+            console.warn(`[FHIR Query] ${resourceType} truncated after ${maxPages} pages`);
+        }
+
+        return {
+            ...firstPage,
+            link: undefined,
+            total: firstPage.total ?? entries.length,
+            entry: entries
+        };
+    }
+
     async create<T extends Resource>(
         resourceType: T['resourceType'],
         resource: Omit<T, 'id'>
@@ -164,9 +204,32 @@ export class FHIRClient {
         );
     }
 
-    async createTask(patientId: string, userId: string): Promise<Task> {
+    /**
+     * Ids of the Patients among a Group's current members
+     */
+    async getGroupPatientIds(groupId: string): Promise<string[]> {
+        const group = await this.read<Group>('Group', groupId);
+        const today = new Date().toISOString().slice(0, 10);
+
+        return (group.member || [])
+            .filter(member => !member.inactive && (!member.period?.end || member.period.end >= today))
+            .map(member => member.entity.reference?.match(/^Patient\/([^/]+)$/)?.[1])
+            .filter((patientId): patientId is string => !!patientId);
+    }
+
+    async createTask(
+        patientId: string,
+        userId: string,
+        options: { analysisId?: string; encounterId?: string } = {}
+    ): Promise<Task> {
         const task: Omit<Task, 'id'> = {
             resourceType: 'Task',
+            ...(options.analysisId && {
+                identifier: [{
+                    system: 'urn:ietf:rfc:3986',
+                    value: `urn:uuid:${options.analysisId}`
+                }]
+            }),
             status: 'requested',
             intent: 'order',
             code: {
@@ -182,6 +245,13 @@ export class FHIRClient {
             for: {
                 reference: `Patient/${patientId}`
             },
+            ...(options.encounterId && {
+                encounter: { reference: `Encounter/${options.encounterId}` }
+            }),
+            // CDS Hooks userIds are references such as Practitioner/123
+            ...(userId && {
+                requester: { reference: userId.includes('/') ? userId : `Practitioner/${userId}` }
+            }),
             owner: {
                 reference: `Organization/ai-expert-panel-system`
             },
@@ -196,9 +266,14 @@ export class FHIRClient {
         return this.create<Task>('Task', task);
     }
 
-    async updateTaskProgress(taskId: string, progress: number): Promise<Task> {
+    async updateTaskProgress(
+        taskId: string,
+        progress: number,
+        changes: Partial<Pick<Task, 'status' | 'businessStatus' | 'statusReason' | 'output'>> = {}
+    ): Promise<Task> {
         const task = await this.read<Task>('Task', taskId);
         
+        Object.assign(task, changes);
         task.lastModified = new Date().toISOString();
         task.extension = [{
             url: 'http://example.org/fhir/StructureDefinition/analysis-progress',
@@ -0,0 +1,125 @@
+// src/services/FHIRTaskTracker.ts
+import { Task, TaskOutput } from 'fhir/r4';
+import { FHIRClient, FHIRClientConfig } from './FHIRClient';
+import { ANALYSIS_STAGE_LABELS, AnalysisProgressUpdate, AnalysisStage, isFinalStage } from './AnalysisProgressTracker';
+
+export interface FHIRTaskTrackerConfig {
+    // Used when the hook request did not name a FHIR server
+    defaultServer: FHIRClientConfig;
+    // Base URL of this service; completed Tasks link to /analysis/{analysisId} under it
+    resultsBaseUrl: string;
+}
+
+export interface FHIRTaskTarget {
+    patientId: string;
+    userId: string;
+    encounterId?: string;
+    // The EHR's FHIR server and bearer token from the hook request
+    fhirServer?: string;
+    accessToken?: string;
+}
+
+interface TrackedTask {
+    client: FHIRClient;
+    taskId: string | null;
+    // Updates of one Task are applied in order
+    chain: Promise<void>;
+}
+
+// Task status and progress percentage reported for each analysis stage
+const STAGE_TASKS: Record<AnalysisStage, { status: Task['status']; progress: number }> = {
+    queued: { status: 'requested', progress: 0 },
+    'context-built': { status: 'in-progress', progress: 15 },
+    'llm-started': { status: 'in-progress', progress: 30 },
+    'llm-finished': { status: 'in-progress', progress: 70 },
+    'metadata-stored': { status: 'in-progress', progress: 80 },
+    'nft-submitted': { status: 'in-progress', progress: 90 },
+    'nft-confirmed': { status: 'completed', progress: 100 },
+    failed: { status: 'failed', progress: 100 },
+    cancelled: { status: 'cancelled', progress: 100 }
+};
+
+const STAGE_SYSTEM = 'http://example.org/fhir/CodeSystem/analysis-stage';
+
+/**
+ * Mirrors analysis jobs as FHIR Tasks on the EHR's FHIR server, so FHIR-native tools can
+ * follow them. Tracking errors are logged and never affect the analysis itself.
+ */
+export class FHIRTaskTracker {
+    private tasks: Map<string, TrackedTask> = new Map();
+
+    constructor(private readonly config: FHIRTaskTrackerConfig) {}
+
+    /**
+     * Create the Task for a newly queued analysis
+     */
+    track(analysisId: string, target: FHIRTaskTarget): void {
+        if (this.tasks.has(analysisId)) return;
+
+        const client = new FHIRClient(target.fhirServer
+            ? { baseUrl: target.fhirServer, auth: { token: target.accessToken } }
+            : this.config.defaultServer);
+        const tracked: TrackedTask = { client, taskId: null, chain: Promise.resolve() };
+        this.tasks.set(analysisId, tracked);
+
+        this.enqueue(analysisId, tracked, async () => {
+            const task = await client.createTask(target.patientId, target.userId, {
+                analysisId,
+                encounterId: target.encounterId
+            });
+            tracked.taskId = task.id || null;
+            console.log(`Created FHIR Task ${task.id} for analysis ${analysisId}`);
+        });
+    }
+
+    /**
+     * Apply an analysis stage to its Task
+     */
+    handleProgress(update: AnalysisProgressUpdate): void {
+        const tracked = this.tasks.get(update.taskId);
+        if (!tracked) return;
+
+        if (isFinalStage(update.stage)) {
+            this.tasks.delete(update.taskId);
+        }
+
+        this.enqueue(update.taskId, tracked, async () => {
+            if (!tracked.taskId) return;
+
+            const { status, progress } = STAGE_TASKS[update.stage];
+            await tracked.client.updateTaskProgress(tracked.taskId, progress, {
+                status,
+                businessStatus: {
+                    coding: [{ system: STAGE_SYSTEM, code: update.stage }],
+                    text: ANALYSIS_STAGE_LABELS[update.stage]
+                },
+                ...(update.stage === 'failed' && typeof update.detail?.error === 'string' && {
+                    statusReason: { text: update.detail.error }
+                }),
+                ...(update.stage === 'nft-confirmed' && { output: this.buildOutput(update) })
+            });
+        });
+    }
+
+    private buildOutput(update: AnalysisProgressUpdate): TaskOutput[] {
+        const output: TaskOutput[] = [{
+            type: { text: 'Analysis results' },
+            valueUrl: `${this.config.resultsBaseUrl.replace(/\/$/, '')}/analysis/${update.taskId}`
+        }];
+
+        if (typeof update.detail?.hash === 'string') {
+            output.push({
+                type: { text: 'Analysis record transaction hash' },
+                valueString: update.detail.hash
+            });
+        }
+
+        return output;
+    }
+
+    private enqueue(analysisId: string, tracked: TrackedTask, operation: () => Promise<void>): void {
+        tracked.chain = tracked.chain.then(operation).catch(error => {
+            console.error(`Error updating FHIR Task for analysis ${analysisId}:`, error);
+        });
+    }
+}
@@ -0,0 +1,319 @@
+// src/services/FeedbackStore.ts
+import { S3Client, PutObjectCommand, GetObjectCommand, ListObjectsV2Command } from "@aws-sdk/client-s3";
+import { Coding, Feedback, FeedbackOutcome, Indicator } from '../types/cds-hooks';
+
+/**
+ * What we knew about a card when it was issued. Feedback only carries the card uuid,
+ * so this is what lets outcomes be attributed to a specialty and indicator.
+ */
+export interface IssuedCard {
+    uuid: string;
+    serviceId: string;
+    summary: string;
+    indicator: Indicator;
+    specialty?: string;
+    // Suggestion uuid -> specialty the suggestion refers to
+    suggestions: Record<string, string | undefined>;
+    issuedAt: number;
+}
+
+export interface FeedbackRecord {
+    serviceId: string;
+    card: string;
+    outcome: FeedbackOutcome;
+    acceptedSuggestions: string[];
+    overrideReason?: Coding;
+    userComment?: string;
+    outcomeTimestamp: string;
+    receivedAt: number;
+}
+
+export interface AcceptanceStats {
+    specialty: string;
+    indicator: Indicator;
+    total: number;
+    accepted: number;
+    overridden: number;
+    acceptanceRate: number;
+    // Override reason code -> count
+    overrideReasons: Record<string, number>;
+}
+
+export interface FeedbackReport {
+    serviceId: string;
+    generatedAt: string;
+    totalFeedback: number;
+    // Feedback for cards we have no record of issuing
+    unmatchedFeedback: number;
+    groups: AcceptanceStats[];
+}
+
+export interface FeedbackStoreConfig {
+    endpoint?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    region?: string;
+    bucketName?: string;
+}
+
+const DEFAULT_SPECIALTY = 'General';
+
+export class FeedbackStore {
+    private s3Client: S3Client;
+    private readonly bucketName: string;
+    private static readonly DEFAULT_ENDPOINT = 'https://s3.filebase.com';
+    // One object per issued card, so processes never overwrite each other's cards
+    private static readonly CARDS_PREFIX = 'feedback/cards/';
+    // Single map of all cards written by earlier versions, read for cards not found above
+    private static readonly LEGACY_CARDS_KEY = 'feedback/cards.json';
+    private static readonly CARD_CACHE_LIMIT = 5000;
+    private static readonly FEEDBACK_PREFIX = 'feedback/';
+
+    // Recently registered or read cards, most recent last
+    private cards: Map<string, IssuedCard> = new Map();
+    private legacyCards: Promise<Map<string, IssuedCard>> | null = null;
+
+    constructor(config?: FeedbackStoreConfig) {
+        const accessKeyId = config?.accessKeyId || process.env.FILEBASE_ACCESS_KEY;
+        const secretAccessKey = config?.secretAccessKey || process.env.FILEBASE_SECRET_KEY;
+        const endpoint = config?.endpoint || FeedbackStore.DEFAULT_ENDPOINT;
+        this.bucketName = config?.bucketName || process.env.FILEBASE_BUCKET_NAME || 'mithram';
+
+        if (!accessKeyId || !secretAccessKey) {
+            throw new Error('Filebase credentials not found in environment variables or config');
+        }
+
+        this.s3Client = new S3Client({
+            endpoint,
+            credentials: {
+                accessKeyId,
+                secretAccessKey,
+            },
+            region: config?.region || "us-east-1",
+            forcePathStyle: true // Required for Filebase
+        });
+    }
+
+    /**
+     * Remember cards as they are returned to the EHR. Cards this process recently stored
+     * with the same indicator are skipped, so re-issuing a polled status card writes nothing.
+     */
+    async registerCards(cards: IssuedCard[]): Promise<void> {
+        const changed = cards.filter(card => this.cards.get(card.uuid)?.indicator !== card.indicator);
+
+        await Promise.all(changed.map(async card => {
+            await this.putJson(this.cardKey(card.uuid), card);
+            this.cacheCard(card);
+        }));
+    }
+
+    async getCard(uuid: string): Promise<IssuedCard | null> {
+        const cached = this.cards.get(uuid);
+        if (cached) return cached;
+
+        const card = await this.getJson<IssuedCard>(this.cardKey(uuid))
+            || (await this.loadLegacyCards()).get(uuid)
+            || null;
+        if (card) {
+            this.cacheCard(card);
+        }
+        return card;
+    }
+
+    /**
+     * Store each record as its own object, so replicas never rewrite each other's feedback
+     */
+    async storeFeedback(serviceId: string, feedback: Feedback[]): Promise<FeedbackRecord[]> {
+        const receivedAt = Date.now();
+        const records: FeedbackRecord[] = feedback.map(item => ({
+            serviceId,
+            card: item.card,
+            outcome: item.outcome,
+            acceptedSuggestions: (item.acceptedSuggestions || []).map(suggestion => suggestion.id),
+            overrideReason: item.overrideReason?.reason,
+            userComment: item.overrideReason?.userComment,
+            outcomeTimestamp: item.outcomeTimestamp,
+            receivedAt
+        }));
+
+        await Promise.all(records.map((record, n) => this.putJson(this.feedbackKey(record, n), record)));
+
+        return records;
+    }
+
+    /**
+     * Every record stored for a service, including those in the single file written by
+     * earlier versions
+     */
+    async getFeedback(serviceId: string): Promise<FeedbackRecord[]> {
+        try {
+            const keys = await this.listKeys(this.feedbackPrefix(serviceId));
+            const [legacy, records] = await Promise.all([
+                this.getJson<FeedbackRecord[]>(this.legacyFeedbackKey(serviceId)),
+                Promise.all(keys.map(key => this.getJson<FeedbackRecord>(key)))
+            ]);
+
+            return [
+                ...(legacy || []),
+                ...records.filter((record): record is FeedbackRecord => record !== null)
+            ];
+        } catch (error) {
+            console.error(`Failed to get feedback for service ${serviceId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Acceptance rates grouped by specialty and card indicator. On referral cards each
+     * suggestion counts towards its own specialty, accepted only if it was taken.
+     */
+    async getReport(serviceId: string): Promise<FeedbackReport> {
+        const records = await this.getFeedback(serviceId);
+        const uuids = [...new Set(records.map(record => record.card))];
+        const known = new Map(
+            (await Promise.all(uuids.map(async uuid => [uuid, await this.getCard(uuid)] as const)))
+                .filter((entry): entry is readonly [string, IssuedCard] => entry[1] !== null)
+        );
+        const groups = new Map<string, AcceptanceStats>();
+        let unmatchedFeedback = 0;
+
+        const count = (specialty: string, indicator: Indicator, accepted: boolean, reason?: Coding) => {
+            const key = `${specialty}|${indicator}`;
+            const stats = groups.get(key) || {
+                specialty,
+                indicator,
+                total: 0,
+                accepted: 0,
+                overridden: 0,
+                acceptanceRate: 0,
+                overrideReasons: {}
+            };
+
+            stats.total++;
+            if (accepted) {
+                stats.accepted++;
+            } else {
+                stats.overridden++;
+                if (reason) {
+                    stats.overrideReasons[reason.code] = (stats.overrideReasons[reason.code] || 0) + 1;
+                }
+            }
+            stats.acceptanceRate = stats.accepted / stats.total;
+            groups.set(key, stats);
+        };
+
+        for (const record of records) {
+            const card = known.get(record.card);
+            if (!card) {
+                unmatchedFeedback++;
+                continue;
+            }
+
+            const suggestionSpecialties = Object.entries(card.suggestions)
+                .filter((entry): entry is [string, string] => Boolean(entry[1]));
+
+            if (suggestionSpecialties.length === 0) {
+                count(card.specialty || DEFAULT_SPECIALTY, card.indicator, record.outcome === 'accepted', record.overrideReason);
+                continue;
+            }
+
+            for (const [suggestionId, specialty] of suggestionSpecialties) {
+                const accepted = record.outcome === 'accepted' && record.acceptedSuggestions.includes(suggestionId);
+                count(specialty, card.indicator, accepted, record.overrideReason);
+            }
+        }
+
+        return {
+            serviceId,
+            generatedAt: new Date().toISOString(),
+            totalFeedback: records.length,
+            unmatchedFeedback,
+            groups: Array.from(groups.values())
+                .sort((a, b) => a.specialty.localeCompare(b.specialty) || a.indicator.localeCompare(b.indicator))
+        };
+    }
+
+    private cacheCard(card: IssuedCard): void {
+        this.cards.delete(card.uuid);
+        this.cards.set(card.uuid, card);
+        if (this.cards.size > FeedbackStore.CARD_CACHE_LIMIT) {
+            this.cards.delete(this.cards.keys().next().value as string);
+        }
+    }
+
+    private loadLegacyCards(): Promise<Map<string, IssuedCard>> {
+        if (!this.legacyCards) {
+            this.legacyCards = this.getJson<Record<string, IssuedCard>>(FeedbackStore.LEGACY_CARDS_KEY)
+                .then(stored => new Map(Object.entries(stored || {})))
+                .catch(error => {
+                    this.legacyCards = null;
+                    throw error;
+                });
+        }
+        return this.legacyCards;
+    }
+
+    private cardKey(uuid: string): string {
+        return `${FeedbackStore.CARDS_PREFIX}${encodeURIComponent(uuid)}.json`;
+    }
+
+    private feedbackPrefix(serviceId: string): string {
+        return `${FeedbackStore.FEEDBACK_PREFIX}${encodeURIComponent(serviceId)}/`;
+    }
+
+    // n tells apart records of one request for the same card
+    private feedbackKey(record: FeedbackRecord, n: number): string {
+        return `${this.feedbackPrefix(record.serviceId)}${encodeURIComponent(record.card)}-${record.receivedAt}-${n}.json`;
+    }
+
+    private legacyFeedbackKey(serviceId: string): string {
+        return `${FeedbackStore.FEEDBACK_PREFIX}${serviceId}.json`;
+    }
+
+    private async listKeys(prefix: string): Promise<string[]> {
+        const keys: string[] = [];
+        let continuationToken: string | undefined;
+
+        do {
+            const response = await this.s3Client.send(new ListObjectsV2Command({
+                Bucket: this.bucketName,
+                Prefix: prefix,
+                ContinuationToken: continuationToken
+            }));
+            keys.push(...(response.Contents || []).map(object => object.Key).filter((key): key is string => !!key));
+            continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+        } while (continuationToken);
+
+        return keys;
+    }
+
+    private async getJson<T>(key: string): Promise<T | null> {
+        const command = new GetObjectCommand({
+            Bucket: this.bucketName,
+            Key: key
+        });
+
+        try {
+            const response = await this.s3Client.send(command);
+            const bodyContents = await response.Body?.transformToString();
+            return bodyContents ? JSON.parse(bodyContents) : null;
+        } catch (error) {
+            // If the file doesn't exist, nothing has been stored yet
+            if ((error as { name?: string }).name === 'NoSuchKey') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    private async putJson(key: string, body: unknown): Promise<void> {
+        const command = new PutObjectCommand({
+            Bucket: this.bucketName,
+            Key: key,
+            Body: JSON.stringify(body),
+            ContentType: "application/json"
+        });
+
+        await this.s3Client.send(command);
+    }
+}
@@ -1,7 +1,9 @@
-import { ChatOpenAI } from '@langchain/openai';
-import { PromptTemplate } from '@langchain/core/prompts';
 import { JsonOutputParser } from '@langchain/core/output_parsers';
-import { RunnableSequence } from '@langchain/core/runnables';
+import { LLMProvider, LLMProviderConfig } from './llm/LLMProvider';
+import { createLLMProvider } from './llm/createLLMProvider';
+import { completeStructured } from './llm/structuredOutput';
+import { synthesizedAnalysisSchema } from './llm/schemas';
+import { PromptRegistry, PromptRegistryConfig, PromptScope } from './llm/PromptRegistry';
 
 // --- INTERFACES (Slightly Refined) ---
 
@@ -40,133 +42,49 @@ export interface SynthesizedAnalysis {
 }
 // --- END INTERFACES ---
 export class GenesisService {
-    private llm: ChatOpenAI;
-    private promptGeneratorTemplate: PromptTemplate;
-    private analysisTemplate: PromptTemplate;
-    private synthesisTemplate: PromptTemplate;
-
-    constructor(apiKey: string) {
-        this.llm = new ChatOpenAI({
-            modelName: 'gpt-4o-mini', // Or any other consistent model
-            temperature: 0.0,   // Lower temperature for more deterministic output
-            openAIApiKey: apiKey,
-        });
-
-        // --- PROMPT TEMPLATES (Revised with JSON Schema and Examples) ---
-
-        this.promptGeneratorTemplate = PromptTemplate.fromTemplate(`
-      Given the following patient analysis history, generate an array of diverse prompt instructions.
-      Each prompt should focus on a different perspective of patient care.
-
-      Patient History:
-      {history}
-
-      Generate 4 different perspectives for analysis.
-
-      Format the output as a JSON array of objects with the following structure:
-      \`\`\`json
-      [
-        {{
-          "perspective": "string (e.g., 'Cardiologist')",
-          "instruction": "string (Detailed instruction for the cardiologist)"
-        }},
-        ...
-      ]
-      \`\`\`
-    `);
-
-        this.analysisTemplate = PromptTemplate.fromTemplate(`
-      Analyze the following patient history from this perspective: {perspective}
-
-      Patient History:
-      {history}
-
-      Specific Instructions: {instruction}
-
-      Provide a detailed analysis focusing on this perspective.  Output should be a single paragraph.
-    `);
-        // Synthesis template
-        this.synthesisTemplate = PromptTemplate.fromTemplate(`
-      Synthesize the following analyses into a comprehensive summary:
-
-      {analyses}
-      Provide a concise summary with key insights, recommendations, and risk factors.
-      Format the output as JSON with this exact structure:
-      \`\`\`json
-        {{
-            "summary": {{
-                "patientOverview": {{
-                    "age": number,
-                    "gender": string,
-                    "chronicConditions": ["condition1", "condition2", ...]
-                }},
-                "careApproach": "string"
-            }},
-            "recommendations": {{
-                "patientEngagement": ["instruction1", "instruction2", ...],
-                "interdisciplinaryCoordination": ["instruction1", "instruction2", ...],
-                "preventiveHealthFocus": ["instruction1", "instruction2", ...],
-                "specialistReferrals": ["instruction1", "instruction2", ...]
-            }},
-            "riskFactors": ["risk1", "risk2", ...]
-        }}
-      \`\`\`
-    `);
+    private llm: LLMProvider;
+    private readonly maxRepairs?: number;
+    private prompts: PromptRegistry;
+
+    constructor(llm: LLMProviderConfig, prompts?: PromptRegistryConfig) {
+        this.llm = createLLMProvider(llm);
+        this.maxRepairs = llm.maxRepairs;
+        this.prompts = new PromptRegistry(prompts);
     }
 
     // --- METHODS (No major changes, just using the refined interfaces) ---
 
-    async generateDynamicPrompts(history: string): Promise<DynamicPrompt[]> {
-        const promptChain = RunnableSequence.from([
-            this.promptGeneratorTemplate,
-            this.llm,
-            new JsonOutputParser<DynamicPrompt[]>(),
-        ]);
-
-        return await promptChain.invoke({ history });
+    async generateDynamicPrompts(history: string, scope: PromptScope = { used: [] }): Promise<DynamicPrompt[]> {
+        const content = await this.complete(scope, 'genesis-perspectives', 'genesis.perspectives', { history });
+        return await new JsonOutputParser<DynamicPrompt[]>().parse(content);
     }
 
     async analyzeFromPerspective(
         history: string,
         perspective: string,
-        instruction: string
+        instruction: string,
+        scope: PromptScope = { used: [] }
     ): Promise<string> {
-        const analysisChain = RunnableSequence.from([
-            this.analysisTemplate,
-            this.llm,
-        ]);
-
-        const response = await analysisChain.invoke({
+        return await this.complete(scope, 'genesis-perspective', 'genesis.perspective-analysis', {
             history,
             perspective,
             instruction,
         });
-
-        // Handle both string and MessageContent[] types
-        if (typeof response.content === 'string') {
-            return response.content;
-        } else if (Array.isArray(response.content)) {
-            // Join all message content parts into a single string
-            return response.content.map(part =>
-                typeof part === 'string' ? part : JSON.stringify(part)
-            ).join(' ');
-        }
-        return '';
     }
 
-    async synthesizeAnalyses(analyses: string[]): Promise<SynthesizedAnalysis> {
-        const synthesisChain = RunnableSequence.from([
-            this.synthesisTemplate,
-            this.llm,
-            new JsonOutputParser<SynthesizedAnalysis>(),
-        ]);
-
-        return await synthesisChain.invoke({
+    async synthesizeAnalyses(analyses: string[], scope: PromptScope = { used: [] }): Promise<SynthesizedAnalysis> {
+        const prompt = this.prompts.renderIn(scope, 'genesis.synthesis', {
             analyses: analyses.join('\n\n'),
         });
+        const { value } = await completeStructured(this.llm, {
+            task: 'genesis-synthesis',
+            messages: [{ role: 'user', content: prompt.text }],
+            temperature: 0.0
+        }, synthesizedAnalysisSchema, this.maxRepairs);
+        return value;
     }
 
-    async processAnalysisHistory(histories: AnalysisHistory[]): Promise<SynthesizedAnalysis> {
+    async processAnalysisHistory(histories: AnalysisHistory[], scope: PromptScope = { used: [] }): Promise<SynthesizedAnalysis> {
         // Get the top 2 most recent analyses
         const recentHistories = histories
             .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
@@ -178,20 +96,30 @@ export class GenesisService {
             .join('\n\n');
 
         // Generate dynamic prompts
-        const dynamicPrompts = await this.generateDynamicPrompts(historyContext);
+        const dynamicPrompts = await this.generateDynamicPrompts(historyContext, scope);
 
         // Run analyses in parallel
         const analysisPromises = dynamicPrompts.map(prompt =>
             this.analyzeFromPerspective(
                 historyContext,
                 prompt.perspective,
-                prompt.instruction
+                prompt.instruction,
+                scope
             )
         );
 
         const analyses = await Promise.all(analysisPromises);
 
         // Synthesize all analyses
-        return await this.synthesizeAnalyses(analyses);
+        return await this.synthesizeAnalyses(analyses, scope);
+    }
+
+    private async complete(scope: PromptScope, task: string, promptId: string, values: Record<string, string>): Promise<string> {
+        const completion = await this.llm.complete({
+            task,
+            messages: [{ role: 'user', content: this.prompts.renderIn(scope, promptId, values).text }],
+            temperature: 0.0 // Lower temperature for more deterministic output
+        });
+        return completion.content;
     }
 }
\ No newline at end of file
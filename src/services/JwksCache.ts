@@ -0,0 +1,109 @@
+// src/services/JwksCache.ts
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import { JsonWebKey } from 'crypto';
+
+export interface Jwk extends JsonWebKey {
+    kid?: string;
+    alg?: string;
+    use?: string;
+}
+
+export interface JwksCacheConfig {
+    ttlMs?: number;
+    // Minimum time between refetches triggered by an unknown kid
+    minRefreshIntervalMs?: number;
+}
+
+interface CachedKeySet {
+    keys: Jwk[];
+    fetchedAt: number;
+}
+
+/**
+ * Loads JSON Web Key Sets from URLs or local files and caches them, refetching
+ * when the TTL expires or a token references a kid we have not seen yet.
+ */
+export class JwksCache {
+    private readonly ttlMs: number;
+    private readonly minRefreshIntervalMs: number;
+    private cache: Map<string, CachedKeySet> = new Map();
+    private inflight: Map<string, Promise<CachedKeySet>> = new Map();
+
+    constructor(config: JwksCacheConfig = {}) {
+        this.ttlMs = config.ttlMs ?? 60 * 60 * 1000;
+        this.minRefreshIntervalMs = config.minRefreshIntervalMs ?? 60 * 1000;
+    }
+
+    /**
+     * Find the key for a token. Without a kid the set must contain exactly one usable key.
+     */
+    async getKey(source: string, kid?: string, alg?: string): Promise<Jwk | null> {
+        let keySet = await this.getKeySet(source);
+        let key = this.selectKey(keySet.keys, kid, alg);
+
+        // Issuers rotate keys; an unknown kid is worth one refetch
+        if (!key && kid && Date.now() - keySet.fetchedAt >= this.minRefreshIntervalMs) {
+            keySet = await this.getKeySet(source, true);
+            key = this.selectKey(keySet.keys, kid, alg);
+        }
+
+        return key;
+    }
+
+    private async getKeySet(source: string, force = false): Promise<CachedKeySet> {
+        const cached = this.cache.get(source);
+        if (cached && !force && Date.now() - cached.fetchedAt < this.ttlMs) {
+            return cached;
+        }
+
+        const pending = this.inflight.get(source);
+        if (pending) {
+            return pending;
+        }
+
+        const load = this.load(source)
+            .then(keys => {
+                const keySet = { keys, fetchedAt: Date.now() };
+                this.cache.set(source, keySet);
+                return keySet;
+            })
+            .catch(error => {
+                // Keep serving the last good key set if a refresh fails
+                if (cached) {
+                    console.error(`Failed to refresh JWKS from ${source}, using cached keys:`, error);
+                    return cached;
+                }
+                throw error;
+            })
+            .finally(() => this.inflight.delete(source));
+
+        this.inflight.set(source, load);
+        return load;
+    }
+
+    private async load(source: string): Promise<Jwk[]> {
+        const body = /^https?:\/\//.test(source)
+            ? (await axios.get(source, { timeout: 5000, headers: { Accept: 'application/json' } })).data
+            : JSON.parse(await fs.readFile(source.replace(/^file:\/\//, ''), 'utf8'));
+
+        if (!body || !Array.isArray(body.keys)) {
+            throw new Error(`JWKS at ${source} has no keys array`);
+        }
+
+        return body.keys;
+    }
+
+    private selectKey(keys: Jwk[], kid?: string, alg?: string): Jwk | null {
+        const candidates = keys.filter(key =>
+            (!key.use || key.use === 'sig') &&
+            (!alg || !key.alg || key.alg === alg)
+        );
+
+        if (kid) {
+            return candidates.find(key => key.kid === kid) || null;
+        }
+
+        return candidates.length === 1 ? candidates[0] : null;
+    }
+}
@@ -0,0 +1,588 @@
+// src/services/MedicationSafetyService.ts
+import { FhirResource, MedicationRequest } from 'fhir/r4';
+import {
+    DRUG_CLASSES,
+    INTERACTION_RULES,
+    CONTRAINDICATION_RULES,
+    DOSE_ADJUSTMENT_RULES,
+    ConditionMatcher,
+    ContraindicationRule,
+    DoseAdjustmentRule,
+    DrugClass,
+    MonitoringLab,
+    ObservationMatcher,
+    SafetySeverity
+} from '../knowledge/medicationSafety';
+import { MEDICATION_RESOURCE_TYPES, MedicationResource, resolveMedicationConcept } from '../utils/medications';
+import { ObservationValue } from '../utils/observations';
+
+export type SafetyFindingType = 'interaction' | 'duplicate-therapy' | 'contraindication';
+
+export interface MedicationItem {
+    id?: string;
+    resourceType?: string;
+    display: string;
+    code?: string;
+    source: 'draft' | 'active';
+    // The original draft order, kept so dose edits can be proposed against it
+    resource?: MedicationResource;
+}
+
+export interface SafetyFinding {
+    id: string;
+    type: SafetyFindingType;
+    ruleId: string;
+    severity: SafetySeverity;
+    summary: string;
+    detail: string;
+    order: MedicationItem;
+    related?: {
+        kind: 'draft' | 'active' | 'condition' | 'observation';
+        display: string;
+        id?: string;
+    };
+    monitoring?: MonitoringLab;
+}
+
+export interface DoseAdjustment {
+    ruleId: string;
+    severity: SafetySeverity;
+    summary: string;
+    detail: string;
+    order: MedicationItem;
+    currentDailyDoseMg: number;
+    proposedDoseMg: number;
+    // Copy of the draft MedicationRequest with the proposed dose, when one can be computed
+    proposedResource?: MedicationRequest;
+}
+
+export interface MonitoringSuggestion extends MonitoringLab {
+    reasons: string[];
+    orderIds: string[];
+}
+
+export interface OrderSignReview {
+    findings: SafetyFinding[];
+    doseAdjustments: DoseAdjustment[];
+    monitoring: MonitoringSuggestion[];
+}
+
+// Structural views of the extracted patient data the rules rely on
+export interface SafetyMedication {
+    id?: string;
+    resourceType?: string;
+    display?: string;
+    code?: string;
+    status?: string;
+}
+
+export interface SafetyCondition {
+    id?: string;
+    code?: string;
+    display?: string;
+    clinicalStatus?: {
+        code?: string;
+    };
+}
+
+export interface SafetyObservation {
+    id?: string;
+    code?: string;
+    effectiveDateTime?: string;
+    issued?: string;
+    value?: ObservationValue;
+}
+
+export interface SafetyReviewInput {
+    draftOrders: FhirResource[];
+    // Only review these draft orders (by resource id); review all drafts when omitted
+    targetOrderIds?: string[];
+    medications?: SafetyMedication[];
+    conditions?: SafetyCondition[];
+    observations?: SafetyObservation[];
+}
+
+const ACTIVE_CONDITION_STATUSES = ['active', 'recurrence', 'relapse'];
+const INACTIVE_MEDICATION_STATUSES = ['stopped', 'cancelled', 'completed', 'entered-in-error', 'not-taken'];
+
+// Timing.repeat.periodUnit (UCUM units of time) in days
+const PERIOD_UNITS_IN_DAYS: Record<string, number> = {
+    s: 1 / 86400,
+    min: 1 / 1440,
+    h: 1 / 24,
+    d: 1,
+    wk: 7,
+    mo: 30,
+    a: 365
+};
+
+/**
+ * Rule-based medication safety review for draft orders against the patient's
+ * active medications, conditions and most recent observations
+ */
+export class MedicationSafetyService {
+    private readonly ingredientPatterns: Map<string, RegExp>;
+
+    constructor() {
+        this.ingredientPatterns = new Map();
+
+        for (const drugClass of DRUG_CLASSES) {
+            for (const ingredient of drugClass.ingredients) {
+                const escaped = ingredient.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                this.ingredientPatterns.set(ingredient, new RegExp(`\\b${escaped}\\b`, 'i'));
+            }
+        }
+    }
+
+    /**
+     * Review draft medication orders and return all safety findings, most severe first
+     */
+    reviewOrders(input: SafetyReviewInput): SafetyFinding[] {
+        const drafts = this.describeDrafts(input.draftOrders);
+
+        const targets = input.targetOrderIds?.length
+            ? drafts.filter(draft => draft.id && input.targetOrderIds!.includes(draft.id))
+            : drafts;
+
+        const activeMedications = this.describeActiveMedications(input.medications);
+
+        const activeConditions = (input.conditions || []).filter(c => {
+            const status = c?.clinicalStatus?.code;
+            return !status || ACTIVE_CONDITION_STATUSES.includes(status);
+        });
+
+        const findings = new Map<string, SafetyFinding>();
+        const addFinding = (finding: SafetyFinding) => {
+            if (!findings.has(finding.id)) {
+                findings.set(finding.id, finding);
+            }
+        };
+
+        for (const order of targets) {
+            const others = [
+                ...drafts.filter(draft => draft !== order),
+                ...activeMedications
+            ];
+
+            this.checkInteractions(order, others).forEach(addFinding);
+            this.checkDuplicates(order, others).forEach(addFinding);
+            this.checkContraindications(order, activeConditions, input.observations || []).forEach(addFinding);
+        }
+
+        return Array.from(findings.values()).sort((a, b) =>
+            (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1)
+        );
+    }
+
+    /**
+     * Final pre-signature review of every draft order: safety findings plus
+     * proposed dose changes and monitoring labs
+     */
+    reviewForSigning(input: Omit<SafetyReviewInput, 'targetOrderIds'>): OrderSignReview {
+        const findings = this.reviewOrders(input);
+        const drafts = this.describeDrafts(input.draftOrders);
+        const activeMedications = this.describeActiveMedications(input.medications);
+        const observations = input.observations || [];
+
+        // No point proposing a dose for an order that is contraindicated outright
+        const contraindicatedOrders = new Set(
+            findings
+                .filter(f => f.type === 'contraindication' && f.severity === 'critical')
+                .map(f => f.order.id || f.order.display)
+        );
+
+        const doseAdjustments: DoseAdjustment[] = [];
+        for (const order of drafts) {
+            if (contraindicatedOrders.has(order.id || order.display)) continue;
+
+            const others = [...drafts.filter(draft => draft !== order), ...activeMedications];
+            for (const rule of DOSE_ADJUSTMENT_RULES) {
+                const adjustment = this.evaluateDoseRule(rule, order, others, observations);
+                if (adjustment) {
+                    doseAdjustments.push(adjustment);
+                }
+            }
+        }
+
+        return {
+            findings,
+            doseAdjustments,
+            monitoring: this.collectMonitoring(findings)
+        };
+    }
+
+    /**
+     * Get the drug classes a medication display name belongs to
+     */
+    classify(display: string): DrugClass[] {
+        return DRUG_CLASSES.filter(drugClass =>
+            drugClass.ingredients.some(ingredient => this.ingredientPatterns.get(ingredient)!.test(display))
+        );
+    }
+
+    private matchedIngredients(display: string): string[] {
+        return DRUG_CLASSES
+            .flatMap(drugClass => drugClass.ingredients)
+            .filter(ingredient => this.ingredientPatterns.get(ingredient)!.test(display));
+    }
+
+    private checkInteractions(order: MedicationItem, others: MedicationItem[]): SafetyFinding[] {
+        const orderClasses = this.classify(order.display).map(c => c.id);
+        const findings: SafetyFinding[] = [];
+
+        for (const other of others) {
+            const otherClasses = this.classify(other.display).map(c => c.id);
+
+            for (const rule of INTERACTION_RULES) {
+                const [first, second] = rule.classes;
+                const matches =
+                    (orderClasses.includes(first) && otherClasses.includes(second)) ||
+                    (orderClasses.includes(second) && otherClasses.includes(first));
+
+                if (!matches) continue;
+
+                findings.push({
+                    id: `${rule.id}:${this.pairKey(order, other)}`,
+                    type: 'interaction',
+                    ruleId: rule.id,
+                    severity: rule.severity,
+                    summary: rule.summary,
+                    detail: rule.detail,
+                    order,
+                    related: {
+                        kind: other.source,
+                        display: other.display,
+                        id: other.id
+                    },
+                    monitoring: rule.monitoring
+                });
+            }
+        }
+
+        return findings;
+    }
+
+    private checkDuplicates(order: MedicationItem, others: MedicationItem[]): SafetyFinding[] {
+        const orderIngredients = this.matchedIngredients(order.display);
+        const orderClasses = this.classify(order.display).filter(c => c.duplicateTherapy);
+        const findings: SafetyFinding[] = [];
+
+        for (const other of others) {
+            const sameCode = Boolean(order.code && other.code && order.code === other.code);
+            const sharedIngredient = orderIngredients.find(ingredient =>
+                this.ingredientPatterns.get(ingredient)!.test(other.display)
+            );
+
+            if (sameCode || sharedIngredient) {
+                findings.push({
+                    id: `duplicate-medication:${this.pairKey(order, other)}`,
+                    type: 'duplicate-therapy',
+                    ruleId: 'duplicate-medication',
+                    severity: 'warning',
+                    summary: `Duplicate medication: ${sharedIngredient || order.display}`,
+                    detail: `${order.display} duplicates ${other.source === 'active' ? 'an active medication' : 'another draft order'} (${other.display}).`,
+                    order,
+                    related: {
+                        kind: other.source,
+                        display: other.display,
+                        id: other.id
+                    }
+                });
+                continue;
+            }
+
+            const sharedClass = orderClasses.find(drugClass =>
+                this.classify(other.display).some(c => c.id === drugClass.id)
+            );
+
+            if (sharedClass) {
+                findings.push({
+                    id: `duplicate-therapy:${sharedClass.id}:${this.pairKey(order, other)}`,
+                    type: 'duplicate-therapy',
+                    ruleId: `duplicate-therapy:${sharedClass.id}`,
+                    severity: 'warning',
+                    summary: `Duplicate therapy: more than one ${sharedClass.display}`,
+                    detail: `${order.display} and ${other.display} are both ${sharedClass.display} agents. Confirm that combined therapy is intended.`,
+                    order,
+                    related: {
+                        kind: other.source,
+                        display: other.display,
+                        id: other.id
+                    }
+                });
+            }
+        }
+
+        return findings;
+    }
+
+    private checkContraindications(
+        order: MedicationItem,
+        conditions: SafetyCondition[],
+        observations: SafetyObservation[]
+    ): SafetyFinding[] {
+        const orderClasses = this.classify(order.display).map(c => c.id);
+        const findings: SafetyFinding[] = [];
+
+        for (const rule of CONTRAINDICATION_RULES) {
+            if (!orderClasses.includes(rule.drugClass)) continue;
+
+            if (rule.condition) {
+                const condition = conditions.find(c => this.matchesCondition(c, rule.condition!));
+                if (condition) {
+                    findings.push(this.contraindicationFinding(rule, order, {
+                        kind: 'condition',
+                        display: condition.display || condition.code || 'Unknown condition',
+                        id: condition.id
+                    }));
+                }
+            }
+
+            if (rule.observation) {
+                const match = this.matchObservation(observations, rule.observation);
+                if (match) {
+                    findings.push(this.contraindicationFinding(rule, order, {
+                        kind: 'observation',
+                        display: match.display,
+                        id: match.observation.id
+                    }));
+                }
+            }
+        }
+
+        return findings;
+    }
+
+    private contraindicationFinding(
+        rule: ContraindicationRule,
+        order: MedicationItem,
+        related: NonNullable<SafetyFinding['related']>
+    ): SafetyFinding {
+        return {
+            id: `${rule.id}:${order.id || order.display}`,
+            type: 'contraindication',
+            ruleId: rule.id,
+            severity: rule.severity,
+            summary: rule.summary,
+            detail: rule.detail,
+            order,
+            related,
+            monitoring: rule.monitoring
+        };
+    }
+
+    private evaluateDoseRule(
+        rule: DoseAdjustmentRule,
+        order: MedicationItem,
+        others: MedicationItem[],
+        observations: SafetyObservation[]
+    ): DoseAdjustment | null {
+        if (!this.matchedIngredients(order.display).includes(rule.ingredient)) return null;
+
+        let trigger: string | undefined;
+        if (rule.observation) {
+            trigger = this.matchObservation(observations, rule.observation)?.display;
+        }
+        if (!trigger && rule.interactingClass) {
+            // A relative reduction only applies when the interacting drug is being started;
+            // against an active one, a renewal that was already reduced would be cut again
+            const candidates = rule.adjustment.factor !== undefined
+                ? others.filter(other => other.source === 'draft')
+                : others;
+            trigger = candidates.find(other =>
+                this.classify(other.display).some(c => c.id === rule.interactingClass)
+            )?.display;
+        }
+        if (!trigger) return null;
+
+        const dosing = this.getDosing(order.resource);
+        if (!dosing) return null;
+
+        const currentDailyDoseMg = dosing.doseMg * dosing.dosesPerDay;
+        let proposedDoseMg = dosing.doseMg;
+
+        if (rule.adjustment.factor !== undefined) {
+            proposedDoseMg = dosing.doseMg * rule.adjustment.factor;
+        }
+        if (rule.adjustment.maxDailyDoseMg !== undefined) {
+            if (currentDailyDoseMg <= rule.adjustment.maxDailyDoseMg) return null;
+            proposedDoseMg = Math.min(proposedDoseMg, rule.adjustment.maxDailyDoseMg / dosing.dosesPerDay);
+        }
+        proposedDoseMg = Math.round(proposedDoseMg * 100) / 100;
+
+        return {
+            ruleId: rule.id,
+            severity: rule.severity,
+            summary: rule.summary,
+            detail: `${rule.detail} Trigger: ${trigger}.`,
+            order,
+            currentDailyDoseMg,
+            proposedDoseMg,
+            proposedResource: this.withDose(order.resource as MedicationRequest, proposedDoseMg)
+        };
+    }
+
+    /**
+     * Single dose in milligrams and doses per day from the first dosage instruction
+     */
+    private getDosing(resource?: MedicationResource): { doseMg: number; dosesPerDay: number } | null {
+        if (!resource || resource.resourceType !== 'MedicationRequest') return null;
+
+        const dosage = resource.dosageInstruction?.[0];
+        const quantity = dosage?.doseAndRate?.[0]?.doseQuantity;
+        if (quantity?.value === undefined) return null;
+
+        const unit = (quantity.code || quantity.unit || '').toLowerCase();
+        const multiplier = unit === 'mg' || unit === 'milligram' ? 1 : unit === 'g' || unit === 'gram' ? 1000 : undefined;
+        if (multiplier === undefined) return null;
+
+        const repeat = dosage?.timing?.repeat;
+        const frequency = repeat?.frequency ?? 1;
+        const unitDays = PERIOD_UNITS_IN_DAYS[repeat?.periodUnit || 'd'];
+        // Without a known period there is no daily dose to adjust
+        if (unitDays === undefined) return null;
+        const periodDays = (repeat?.period ?? 1) * unitDays;
+
+        return {
+            doseMg: quantity.value * multiplier,
+            dosesPerDay: frequency / periodDays
+        };
+    }
+
+    private withDose(resource: MedicationRequest, doseMg: number): MedicationRequest {
+        const updated: MedicationRequest = JSON.parse(JSON.stringify(resource));
+        const dosage = updated.dosageInstruction![0];
+        const doseAndRate = dosage.doseAndRate![0];
+
+        doseAndRate.doseQuantity = {
+            value: doseMg,
+            unit: 'mg',
+            system: 'http://unitsofmeasure.org',
+            code: 'mg'
+        };
+        // The free-text sig no longer matches the structured dose
+        delete dosage.text;
+
+        return updated;
+    }
+
+    private collectMonitoring(findings: SafetyFinding[]): MonitoringSuggestion[] {
+        const suggestions = new Map<string, MonitoringSuggestion>();
+
+        for (const finding of findings) {
+            if (!finding.monitoring) continue;
+
+            const suggestion = suggestions.get(finding.monitoring.code) || {
+                ...finding.monitoring,
+                reasons: [],
+                orderIds: []
+            };
+
+            if (!suggestion.reasons.includes(finding.summary)) {
+                suggestion.reasons.push(finding.summary);
+            }
+            if (finding.order.id && !suggestion.orderIds.includes(finding.order.id)) {
+                suggestion.orderIds.push(finding.order.id);
+            }
+            suggestions.set(finding.monitoring.code, suggestion);
+        }
+
+        return Array.from(suggestions.values());
+    }
+
+    private matchObservation(
+        observations: SafetyObservation[],
+        matcher: ObservationMatcher
+    ): { observation: SafetyObservation; display: string } | null {
+        const observation = this.latestObservation(observations, matcher.codes);
+        const value = this.numericValue(observation);
+        if (!observation || value === undefined) return null;
+
+        const exceeded = matcher.comparator === 'gt' ? value > matcher.threshold : value < matcher.threshold;
+        if (!exceeded) return null;
+
+        const unit = (observation.value?.type === 'Quantity' && observation.value.unit) || matcher.unit || '';
+        return {
+            observation,
+            display: `${matcher.display} ${value}${unit ? ` ${unit}` : ''}${observation.effectiveDateTime ? ` (${observation.effectiveDateTime})` : ''}`
+        };
+    }
+
+    private matchesCondition(condition: SafetyCondition, matcher: ConditionMatcher): boolean {
+        const code = condition?.code;
+        if (code && matcher.codes?.includes(code)) return true;
+        if (code && matcher.codePrefixes?.some(prefix => code.toUpperCase().startsWith(prefix))) return true;
+
+        const display = (condition?.display || '').toLowerCase();
+        return Boolean(display) && matcher.keywords.some(keyword => display.includes(keyword));
+    }
+
+    private latestObservation(observations: SafetyObservation[], codes: string[]): SafetyObservation | undefined {
+        return observations
+            .filter(o => o?.code && codes.includes(o.code))
+            .sort((a, b) =>
+                new Date(b.effectiveDateTime || b.issued || 0).getTime() -
+                new Date(a.effectiveDateTime || a.issued || 0).getTime()
+            )[0];
+    }
+
+    private numericValue(observation?: SafetyObservation): number | undefined {
+        const value = observation?.value;
+        if (value?.type === 'Quantity' || value?.type === 'Integer') {
+            return typeof value.value === 'number' ? value.value : undefined;
+        }
+        return undefined;
+    }
+
+    private pairKey(order: MedicationItem, other: MedicationItem): string {
+        return [order.id || order.display, other.id || other.display].sort().join('|');
+    }
+
+    private describeDrafts(resources: FhirResource[]): MedicationItem[] {
+        return resources
+            .map(resource => this.describeMedicationOrder(resource))
+            .filter((item): item is MedicationItem => item !== null);
+    }
+
+    private describeActiveMedications(medications: SafetyMedication[] = []): MedicationItem[] {
+        return medications
+            .filter(m => m?.display && !INACTIVE_MEDICATION_STATUSES.includes(m.status || ''))
+            .map(m => ({
+                id: m.id,
+                resourceType: m.resourceType,
+                display: m.display as string,
+                code: m.code,
+                source: 'active' as const
+            }));
+    }
+
+    /**
+     * Build a medication item from a draft order resource, or null for non-medication orders
+     */
+    private describeMedicationOrder(resource: FhirResource): MedicationItem | null {
+        if (!resource || !MEDICATION_RESOURCE_TYPES.includes(resource.resourceType)) {
+            return null;
+        }
+
+        const medication = resource as MedicationResource;
+        // Draft orders often point at a contained Medication rather than inlining the code
+        const concept = resolveMedicationConcept(medication);
+        const coding = concept?.coding?.[0];
+        const display = concept?.text || coding?.display;
+
+        if (!display) {
+            return null;
+        }
+
+        return {
+            id: resource.id,
+            resourceType: resource.resourceType,
+            display,
+            code: coding?.code,
+            source: 'draft',
+            resource: medication
+        };
+    }
+}
+
+export default MedicationSafetyService;
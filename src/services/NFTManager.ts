@@ -1,5 +1,5 @@
 import { Chain, Hash, Address } from 'viem';
-import { PatientNFTClient, NFTMetadata, NFTError } from '../contracts/PatientNFT';
+import { PatientNFTClient, NFTMetadata, NFTError, NFTWriteHooks } from '../contracts/PatientNFT';
 import { EventEmitter } from 'events';
 import { setTimeout } from 'timers/promises';
 import { TransactionStore, TransactionStoreConfig } from './TransactionStore';
@@ -15,6 +15,10 @@ export enum NFTManagerEvent {
   UPDATE_SUCCESS = 'update:success',
   UPDATE_FAILED = 'update:failed',
   UPDATE_COMPLETED = 'update:completed',
+  METADATA_STORED = 'metadata:stored',
+  TRANSACTION_SUBMITTED = 'transaction:submitted',
+  TRANSACTION_CONFIRMED = 'transaction:confirmed',
+  TRANSACTION_FAILED = 'transaction:failed',
   QUEUE_ERROR = 'queue:error'
 }
 
@@ -254,6 +258,11 @@ export class NFTManager extends EventEmitter {
     result: NFTOperationResult,
     metadata: NFTMetadata
   ) {
+    if (result.hash) {
+      this.emit(NFTManagerEvent.TRANSACTION_SUBMITTED, { type, analysisId, metadata, hash: result.hash });
+      this.confirmTransaction(type, analysisId, metadata, result.hash);
+    }
+
     if (this.transactionStore && result.hash) {
       await this.transactionStore.storeTransaction(patientId, {
         analysisId,
@@ -275,13 +284,36 @@ export class NFTManager extends EventEmitter {
     );
   }
 
+  /**
+   * Emits TRANSACTION_CONFIRMED or TRANSACTION_FAILED once the transaction is mined
+   */
+  private async confirmTransaction(type: 'mint' | 'update', analysisId: string, metadata: NFTMetadata, hash: Hash): Promise<void> {
+    try {
+      const receipt = await this.client.waitForTransaction(hash);
+      if (receipt.status === 'success') {
+        this.emit(NFTManagerEvent.TRANSACTION_CONFIRMED, { type, analysisId, metadata, hash, blockNumber: receipt.blockNumber });
+      } else {
+        this.emit(NFTManagerEvent.TRANSACTION_FAILED, { type, analysisId, metadata, hash, error: new Error('Transaction reverted') });
+      }
+    } catch (error) {
+      console.error('Error waiting for transaction receipt:', error);
+      this.emit(NFTManagerEvent.TRANSACTION_FAILED, { type, analysisId, metadata, hash, error });
+    }
+  }
+
+  private writeHooks(analysisId: string, metadata: NFTMetadata): NFTWriteHooks {
+    return {
+      onMetadataStored: (tokenURI) => this.emit(NFTManagerEvent.METADATA_STORED, { analysisId, metadata, tokenURI })
+    };
+  }
+
   /**
    * Updates the metadata for an existing NFT
    */
   private async updateNFT(analysisId: string, metadata: NFTMetadata): Promise<NFTOperationResult> {
     const result = await this.executeWithRetry(async (retryCount) => {
       try {
-        const hash = await this.client.updateMetadata(analysisId, metadata);
+        const hash = await this.client.updateMetadata(analysisId, metadata, this.writeHooks(analysisId, metadata));
         return { success: true, hash };
       } catch (error) {
         if (retryCount >= this.maxRetries) {
@@ -305,7 +337,7 @@ export class NFTManager extends EventEmitter {
   async mintNFT(patientId: string, metadata: NFTMetadata): Promise<NFTOperationResult> {
     const result = await this.executeWithRetry(async (retryCount) => {
       try {
-        const { hash, tokenId } = await this.client.mintPatientNFT(patientId, metadata);
+        const { hash, tokenId } = await this.client.mintPatientNFT(patientId, metadata, this.writeHooks(metadata.analysisId, metadata));
         return { success: true, hash, tokenId };
       } catch (error) {
         if (retryCount >= this.maxRetries) {
@@ -328,7 +360,7 @@ export class NFTManager extends EventEmitter {
    */
   async getMetadataByPatientId(patientId: string): Promise<NFTMetadata | null> {
     try {
-      return await this.client.getMetadataByPatientId(patientId);
+      return await this.withReusedRecommendations(await this.client.getMetadataByPatientId(patientId));
     } catch (error) {
       console.error('Error getting metadata by patient ID:', error);
       return null;
@@ -341,7 +373,7 @@ export class NFTManager extends EventEmitter {
    */
   async getMetadataFromFilebase(objectKey: string): Promise<NFTMetadata | null> {
     try {
-      return await this.client.getMetadataFromFilebase(objectKey);
+      return await this.withReusedRecommendations(await this.client.getMetadataFromFilebase(objectKey));
     } catch (error) {
       console.error('Error getting metadata from Filebase:', error);
       return null;
@@ -359,7 +391,33 @@ export class NFTManager extends EventEmitter {
    * Retrieves metadata for an NFT
    */
   async getMetadata(analysisId: string): Promise<NFTMetadata> {
-    return this.client.getMetadata(analysisId);
+    return this.withReusedRecommendations(await this.client.getMetadata(analysisId));
+  }
+
+  /**
+   * Analyses recorded as unchanged only point to the analysis holding their
+   * recommendations; fill those in so readers see a complete analysis
+   */
+  private async withReusedRecommendations(metadata: NFTMetadata): Promise<NFTMetadata> {
+    const reusedFrom = metadata?.analysis?.reusedFrom;
+    if (!reusedFrom || metadata.analysis.recommendations) {
+      return metadata;
+    }
+
+    try {
+      const source = await this.client.getMetadataFromFilebase(`metadata/${reusedFrom.metadataKey}.json`);
+      return {
+        ...metadata,
+        analysis: {
+          ...metadata.analysis,
+          clinicalContext: source.analysis?.clinicalContext,
+          recommendations: source.analysis?.recommendations
+        }
+      };
+    } catch (error) {
+      console.error(`Error getting reused analysis ${reusedFrom.analysisId}:`, error);
+      return metadata;
+    }
   }
 
   /**
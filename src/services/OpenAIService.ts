@@ -1,11 +1,23 @@
 // src/services/OpenAIService.ts
-import OpenAI from 'openai';
+import { EncounterContext } from '../utils/encounters';
+import {
+    NormalizedObservationComponent,
+    ObservationValue,
+    ReferenceRange,
+    formatObservationValue,
+    formatReferenceRange
+} from '../utils/observations';
+import { GenerationRecord, LLMProvider, LLMProviderConfig } from './llm/LLMProvider';
+import { createLLMProvider } from './llm/createLLMProvider';
+import { LLMValidationError, StructuredCompletion, completeStructured } from './llm/structuredOutput';
+import { recommendationResponseSchema } from './llm/schemas';
+import { PromptRegistry, PromptRegistryConfig } from './llm/PromptRegistry';
+import { SPECIALTY_VALUE_SET } from '../knowledge/specialties';
+import { SpecialtyCodeValidation, normalizeSpecialist } from '../utils/specialties';
 
 export interface OpenAIServiceConfig {
-    apiKey: string;
-    baseURL?: string;
-    organizationId?: string;
-    timeout?: number;
+    llm: LLMProviderConfig;
+    prompts?: PromptRegistryConfig;
     maxRetries?: number;
     retryDelay?: number;
 }
@@ -24,19 +36,37 @@ export interface ClinicalContext {
         onsetDate?: string;
     }>;
     observations?: Array<{
+        id?: string;
         code?: string;
         display?: string;
-        value?: number;
-        unit?: string;
+        category?: string;
+        value?: ObservationValue;
+        dataAbsentReason?: string;
         date?: string;
         interpretation?: string;
+        referenceRange?: ReferenceRange[];
+        // Panel members such as systolic/diastolic blood pressure
+        components?: NormalizedObservationComponent[];
+        // Ids of the observations a panel groups (hasMember)
+        members?: string[];
     }>;
     medications?: Array<{
         code?: string;
         display?: string;
         status?: string;
+        dose?: {
+            value?: number;
+            unit?: string;
+        };
+        route?: string;
+        frequency?: string;
+        asNeeded?: boolean;
         startDate?: string;
+        endDate?: string;
+        // Resource types the medication was reported by, e.g. MedicationStatement
+        sources?: string[];
     }>;
+    encounters?: EncounterContext;
 }
 
 export interface Specialist {
@@ -52,6 +82,8 @@ export interface Specialist {
         reference: string;
         relevance: string;
     }>;
+    // Set once code has been checked against the specialty value set
+    codeValidation?: SpecialtyCodeValidation;
 }
 
 export interface RecommendationResponse {
@@ -65,63 +97,75 @@ export interface RecommendationResponse {
     };
 }
 
+export interface RecommendationGeneration extends StructuredCompletion<RecommendationResponse> {
+    generation: GenerationRecord;
+}
+
+const TEMPERATURE = 0.2;
+const SYSTEM_PROMPT = 'recommendations.system';
+
 export class OpenAIService {
-    private client: OpenAI;
+    private llm: LLMProvider;
+    private prompts: PromptRegistry;
+    private readonly maxRepairs?: number;
     private readonly maxRetries: number;
     private readonly retryDelay: number;
-    private readonly defaultTimeout: number = 30000;
 
     constructor(config: OpenAIServiceConfig) {
-        if (!this.isValidApiKey(config.apiKey)) {
-            throw new Error('Invalid API key format');
-        }
-
-        this.client = new OpenAI({
-            apiKey: config.apiKey,
-            baseURL: config.baseURL,
-            organization: config.organizationId,
-            timeout: config.timeout || this.defaultTimeout,
-            maxRetries: 0 // We handle retries ourselves
-        });
-
+        this.llm = createLLMProvider(config.llm);
+        this.maxRepairs = config.llm.maxRepairs;
+        this.prompts = new PromptRegistry(config.prompts);
         this.maxRetries = config.maxRetries || 3;
         this.retryDelay = config.retryDelay || 1000;
     }
 
-    async generateRecommendations(clinicalContext: ClinicalContext): Promise<RecommendationResponse> {
+    /**
+     * Recommendations for a clinical context, with the invalid responses that were repaired
+     * on the way. Transient errors are retried; responses still invalid after the repairs
+     * fail with an LLMValidationError.
+     */
+    async generateRecommendations(
+        clinicalContext: ClinicalContext,
+        options: { signal?: AbortSignal; tenant?: string } = {}
+    ): Promise<RecommendationGeneration> {
         let attempt = 0;
         while (attempt < this.maxRetries) {
             try {
+                const systemPrompt = this.renderSystemPrompt(options.tenant);
                 const prompt = this.constructPrompt(clinicalContext);
-                const completion = await this.client.chat.completions.create({
-                    model: "gpt-4o-mini",
+                const result = await completeStructured(this.llm, {
+                    task: 'recommendations',
                     messages: [
                         {
                             role: "system",
-                            content: this.getSystemPrompt()
+                            content: systemPrompt.text
                         },
                         {
                             role: "user",
                             content: prompt
                         }
                     ],
-                    temperature: 0.2,
-                    max_tokens: 1000,
-                    response_format: { type: "json_object" }
-                });
-
-                const content = completion.choices[0].message.content;
-                if (!content) {
-                    throw new Error('OpenAI returned empty content');
-                }
-                
-                const response = JSON.parse(content);
-                return this.validateResponse(response);
+                    temperature: TEMPERATURE,
+                    maxTokens: 1000,
+                    json: true,
+                    signal: options.signal
+                }, recommendationResponseSchema, this.maxRepairs);
+
+                // Only codes from the local value set reach referral orders
+                result.value.specialists = result.value.specialists.map(normalizeSpecialist);
+                return {
+                    ...result,
+                    generation: {
+                        ...this.describeGeneration(options.tenant),
+                        ...(result.model !== this.llm.model && { responseModel: result.model })
+                    }
+                };
 
             } catch (error) {
                 attempt++;
-                if (attempt === this.maxRetries) {
-                    throw this.handleError(error);
+                // A cancelled analysis is not retried, nor a response the repairs could not fix
+                if (attempt === this.maxRetries || options.signal?.aborted || error instanceof LLMValidationError) {
+                    throw error;
                 }
                 await this.sleep(this.retryDelay * Math.pow(2, attempt - 1)); // Exponential backoff
             }
@@ -129,57 +173,23 @@ export class OpenAIService {
         throw new Error('Failed to generate recommendations after retries');
     }
 
-    private getSystemPrompt(): string {
-        return `You are an advanced clinical decision support system specializing in specialist referral recommendations.
-Your task is to analyze patient data and provide evidence-based specialist referrals following these strict guidelines.
-You must respond with a valid JSON object following the exact format shown in the example below.
-
-1. Clinical Assessment Requirements:
-   - Evaluate condition severity and urgency
-   - Consider comorbidities and interactions
-   - Assess risk factors and complications
-   - Review medication impacts
-
-2. Recommendation Format:
-   - Use SNOMED CT codes for specialties
-   - Provide clear clinical justification
-   - Reference specific medical guidelines
-   - Include confidence metrics
-
-3. Priority Levels:
-   - routine: Standard referral, seen within 4-12 weeks
-   - urgent: Requires attention within 1-2 weeks
-   - asap: Immediate attention needed (24-48 hours)
-
-4. Evidence Levels:
-   - high: Multiple RCTs or systematic reviews
-   - moderate: Single RCT or multiple cohort studies
-   - low: Expert opinion or case studies
-
-Example JSON Response:
-{
-    "specialists": [{
-        "specialty": "Cardiology",
-        "code": "394579002",
-        "justification": "Acute onset chest pain with elevated troponin",
-        "priority": "asap",
-        "confidence": 0.95,
-        "timeframe": "24 hours",
-        "evidenceLevel": "high",
-        "guidelines": [{
-            "source": "ACC/AHA",
-            "reference": "2021 Chest Pain Guideline",
-            "relevance": "Class I recommendation for acute coronary syndrome"
-        }]
-    }],
-    "reasoning": "Patient presents with acute chest pain and elevated cardiac markers indicating possible ACS",
-    "riskFactors": ["Age > 65", "Hypertension", "Diabetes"],
-    "confidenceMetrics": {
-        "overallConfidence": 0.95,
-        "dataCompleteness": 0.9,
-        "guidelineAdherence": 0.95
+    /**
+     * Provider, model, temperature and prompt versions recommendations for a tenant are
+     * generated with
+     */
+    describeGeneration(tenant?: string): GenerationRecord {
+        return {
+            provider: this.llm.name,
+            model: this.llm.model,
+            temperature: TEMPERATURE,
+            prompts: [this.renderSystemPrompt(tenant).ref]
+        };
     }
-}`;
+
+    private renderSystemPrompt(tenant?: string) {
+        return this.prompts.render(SYSTEM_PROMPT, {
+            specialtyCodes: SPECIALTY_VALUE_SET.map(concept => `   ${concept.code} ${concept.display}`).join('\n')
+        }, tenant);
     }
 
     private constructPrompt(context: ClinicalContext): string {
@@ -189,6 +199,7 @@ Example JSON Response:
         const activeConditions = this.processConditions(context.conditions);
         const relevantObservations = this.processObservations(context.observations);
         const currentMedications = this.processMedications(context.medications);
+        const encounterContext = this.processEncounters(context.encounters);
 
         return JSON.stringify({
             task: "specialist_recommendations",
@@ -197,7 +208,8 @@ Example JSON Response:
                 gender: context.patient.gender,
                 active_conditions: activeConditions,
                 recent_observations: relevantObservations,
-                current_medications: currentMedications
+                current_medications: currentMedications,
+                ...encounterContext
             },
             requirements: {
                 specialty_codes: "SNOMED CT",
@@ -228,19 +240,49 @@ Example JSON Response:
 
     private processObservations(observations?: ClinicalContext['observations']) {
         if (!observations) return [];
-        return observations
+        // Panel members are looked up among all observations, not only the most recent ten
+        const byId = new Map(observations.filter(o => o.id).map(o => [o.id, o]));
+
+        return [...observations]
             .sort((a, b) => 
                 new Date(b.date || '').getTime() - new Date(a.date || '').getTime()
             )
             .slice(0, 10)
-            .map(o => ({
-                test: o.display,
-                code: o.code,
-                value: o.value,
-                unit: o.unit,
-                interpretation: o.interpretation,
-                date: o.date
-            }));
+            .map(o => {
+                const members = (o.members || [])
+                    .map(id => byId.get(id))
+                    .filter((member): member is NonNullable<typeof member> => !!member);
+
+                return {
+                    test: o.display,
+                    code: o.code,
+                    ...this.describeMeasurement(o),
+                    ...(o.components?.length && {
+                        components: o.components.map(component => ({
+                            test: component.display,
+                            code: component.code,
+                            ...this.describeMeasurement(component)
+                        }))
+                    }),
+                    ...(members.length && {
+                        members: members.map(member => ({
+                            test: member.display,
+                            code: member.code,
+                            ...this.describeMeasurement(member),
+                            date: member.date
+                        }))
+                    }),
+                    date: o.date
+                };
+            });
+    }
+
+    private describeMeasurement(measurement: NormalizedObservationComponent) {
+        return {
+            value: formatObservationValue(measurement.value) ?? (measurement.dataAbsentReason && `not available (${measurement.dataAbsentReason})`),
+            interpretation: measurement.interpretation,
+            reference_range: measurement.referenceRange?.map(formatReferenceRange).filter(Boolean).join('; ') || undefined
+        };
     }
 
     private processMedications(medications?: ClinicalContext['medications']) {
@@ -250,96 +292,34 @@ Example JSON Response:
             .map(m => ({
                 medication: m.display,
                 code: m.code,
+                dose: m.dose?.value !== undefined ? `${m.dose.value} ${m.dose.unit || ''}`.trim() : undefined,
+                route: m.route,
+                frequency: m.frequency,
+                as_needed: m.asNeeded,
                 startDate: m.startDate
             }));
     }
 
-    private validateResponse(response: any): RecommendationResponse {
-        if (!response.specialists || !Array.isArray(response.specialists)) {
-            throw new Error('Invalid response format: missing specialists array');
-        }
-
-        // Validate each specialist recommendation
-        response.specialists = response.specialists.map((specialist: any) => {
-            if (!this.isValidSpecialist(specialist)) {
-                throw new Error('Invalid specialist format: missing required fields');
-            }
-
-            return {
-                ...specialist,
-                priority: this.validatePriority(specialist.priority),
-                confidence: this.validateConfidence(specialist.confidence),
-                evidenceLevel: this.validateEvidenceLevel(specialist.evidenceLevel)
-            };
+    private processEncounters(encounters?: ClinicalContext['encounters']) {
+        if (!encounters) return {};
+
+        const describe = (encounter: NonNullable<ClinicalContext['encounters']>['recent'][number]) => ({
+            setting: encounter.setting,
+            class: encounter.class,
+            type: encounter.types,
+            reasons: encounter.reasons,
+            status: encounter.status,
+            start: encounter.start,
+            end: encounter.end,
+            discharge_disposition: encounter.dischargeDisposition
         });
 
         return {
-            specialists: response.specialists,
-            reasoning: response.reasoning || 'No additional reasoning provided',
-            riskFactors: Array.isArray(response.riskFactors) ? response.riskFactors : [],
-            confidenceMetrics: this.validateConfidenceMetrics(response.confidenceMetrics)
+            current_encounter: encounters.current ? describe(encounters.current) : null,
+            recent_encounters: encounters.recent.map(describe)
         };
     }
 
-    private isValidSpecialist(specialist: any): boolean {
-        return Boolean(
-            specialist.specialty &&
-            specialist.code &&
-            specialist.justification &&
-            specialist.priority &&
-            specialist.timeframe
-        );
-    }
-
-    private validatePriority(priority: string): 'routine' | 'urgent' | 'asap' {
-        return ['routine', 'urgent', 'asap'].includes(priority) ? 
-            priority as 'routine' | 'urgent' | 'asap' : 
-            'routine';
-    }
-
-    private validateConfidence(confidence: number): number {
-        return typeof confidence === 'number' && confidence >= 0 && confidence <= 1 ?
-            confidence : 0.8;
-    }
-
-    private validateEvidenceLevel(level: string): 'high' | 'moderate' | 'low' {
-        return ['high', 'moderate', 'low'].includes(level) ?
-            level as 'high' | 'moderate' | 'low' :
-            'moderate';
-    }
-
-    private validateConfidenceMetrics(metrics: any): RecommendationResponse['confidenceMetrics'] {
-        return {
-            overallConfidence: this.validateConfidence(metrics?.overallConfidence || 0.8),
-            dataCompleteness: this.validateConfidence(metrics?.dataCompleteness || 0.8),
-            guidelineAdherence: this.validateConfidence(metrics?.guidelineAdherence || 0.8)
-        };
-    }
-
-    private handleError(error: any): Error {
-        if (error instanceof OpenAI.APIError) {
-            switch (error.status) {
-                case 429:
-                    return new Error('Rate limit exceeded. Please try again later.');
-                case 400:
-                    return new Error('Invalid request format: ' + error.message);
-                case 401:
-                    return new Error('Authentication error. Check API key configuration.');
-                case 500:
-                    return new Error('OpenAI service error. Please try again later.');
-                default:
-                    return new Error(`OpenAI API error: ${error.message}`);
-            }
-        }
-        return error;
-    }
-
-    private isValidApiKey(apiKey: string): boolean {
-        return typeof apiKey === 'string' && 
-               (apiKey.startsWith('sk-') || apiKey.startsWith('sk-proj-')) && 
-               apiKey.length >= 40;
-    }
-
     private calculateAge(birthDate: string): number {
         const today = new Date();
         const birth = new Date(birthDate);
@@ -0,0 +1,132 @@
+// src/services/PrefetchResolver.ts
+import { Resource } from 'fhir/r4';
+import { FHIRClient } from './FHIRClient';
+import { CDSHookRequest, PrefetchTemplate } from '../types/cds-hooks';
+
+export interface PrefetchResolverConfig {
+    maxPages?: number;
+    pageSize?: number;
+}
+
+/**
+ * Fills in prefetch data the EHR did not send by querying its FHIR server
+ * directly, as allowed by the CDS Hooks spec, using the supplied
+ * fhirServer and fhirAuthorization bearer token.
+ */
+export class PrefetchResolver {
+    private readonly maxPages: number;
+    private readonly pageSize: number;
+
+    constructor(config: PrefetchResolverConfig = {}) {
+        this.maxPages = config.maxPages ?? 10;
+        this.pageSize = config.pageSize ?? 50;
+    }
+
+    /**
+     * Resolve every prefetch template missing from the request. Keys the EHR sent
+     * explicitly as null mean "no data" per the spec and are left untouched. Queries go
+     * to the request's fhirServer unless a client is given.
+     */
+    async resolve(
+        request: CDSHookRequest,
+        templates: PrefetchTemplate = {},
+        options: { client?: FHIRClient } = {}
+    ): Promise<CDSHookRequest['prefetch']> {
+        const prefetch = { ...(request.prefetch || {}) };
+        const missingKeys = Object.keys(templates)
+            .filter(key => prefetch[key] === undefined && this.hasContextFor(templates[key], request));
+
+        if (missingKeys.length === 0) {
+            return prefetch;
+        }
+
+        if (!request.fhirServer && !options.client) {
+            console.log(`Prefetch missing ${missingKeys.join(', ')} and no fhirServer was provided`);
+            return prefetch;
+        }
+
+        const client = options.client || new FHIRClient({
+            baseUrl: request.fhirServer as string,
+            auth: {
+                token: request.fhirAuthorization?.access_token
+            }
+        });
+
+        const results = await Promise.all(missingKeys.map(async key => {
+            const query = this.renderTemplate(templates[key], request);
+            try {
+                return [key, await this.fetchQuery(client, query)] as const;
+            } catch (error) {
+                console.error(`Failed to fetch prefetch "${key}" (${query}):`, error);
+                return [key, undefined] as const;
+            }
+        }));
+
+        for (const [key, value] of results) {
+            if (value !== undefined) {
+                prefetch[key] = value;
+            }
+        }
+
+        return prefetch;
+    }
+
+    /**
+     * Substitute {{context.*}} and {{userPractitionerId}}-style tokens in a template
+     */
+    renderTemplate(template: string, request: CDSHookRequest): string {
+        const context = request.context as unknown as Record<string, unknown>;
+        const userId = typeof context.userId === 'string' ? context.userId : '';
+        const [userType, userResourceId] = userId.split('/');
+
+        const tokens: Record<string, string> = {
+            userPractitionerId: userType === 'Practitioner' ? userResourceId : '',
+            userPractitionerRoleId: userType === 'PractitionerRole' ? userResourceId : '',
+            userPatientId: userType === 'Patient' ? userResourceId : '',
+            userRelatedPersonId: userType === 'RelatedPerson' ? userResourceId : ''
+        };
+
+        return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, token: string) => {
+            if (token.startsWith('context.')) {
+                const value = context[token.slice('context.'.length)];
+                return value === undefined || value === null ? '' : encodeURIComponent(String(value));
+            }
+            return encodeURIComponent(tokens[token] ?? '');
+        });
+    }
+
+    /**
+     * Templates like Encounter/{{context.encounterId}} cannot be fetched when the hook
+     * context does not carry that field
+     */
+    private hasContextFor(template: string, request: CDSHookRequest): boolean {
+        const context = request.context as unknown as Record<string, unknown>;
+        const fields = Array.from(template.matchAll(/\{\{\s*context\.(\w+)\s*\}\}/g), match => match[1]);
+        return fields.every(field => context[field] !== undefined && context[field] !== null && context[field] !== '');
+    }
+
+    private async fetchQuery(client: FHIRClient, query: string): Promise<Resource> {
+        const [path, queryString] = query.split('?');
+        const [resourceType, id] = path.split('/');
+
+        if (!queryString && id) {
+            return client.read(resourceType as Resource['resourceType'], id);
+        }
+
+        const params: { _count: number; [name: string]: string | string[] | number } = { _count: this.pageSize };
+        new URLSearchParams(queryString || '').forEach((value, name) => {
+            const existing = params[name];
+            if (name === '_count') {
+                params._count = parseInt(value) || this.pageSize;
+            } else if (existing === undefined || typeof existing === 'number') {
+                params[name] = value;
+            } else {
+                params[name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+            }
+        });
+
+        return client.searchAll(resourceType as Resource['resourceType'], params, { maxPages: this.maxPages });
+    }
+}
+
+export default PrefetchResolver;
@@ -0,0 +1,348 @@
+// src/services/ReanalysisScheduler.ts
+import { v4 as uuidv4 } from 'uuid';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { NFTMetadata } from '../contracts/PatientNFT';
+import { AnalysisPriority } from './AnalysisQueue';
+
+export interface ReanalysisSchedulerConfig {
+    path: string;
+    // How often due re-analyses are looked for
+    intervalMs?: number;
+    // Most patients queued per run, so a large cohort is spread over several runs
+    maxPerRun?: number;
+    // Wait before retrying a patient whose re-analysis could not be queued
+    retryDelayMs?: number;
+}
+
+/**
+ * Patients a policy covers: listed patients, the current members of a Group, or, with
+ * neither, every patient analyzed here
+ */
+export interface ReanalysisCohort {
+    patientIds?: string[];
+    group?: string;
+}
+
+export type ReanalysisTrigger =
+    // Re-analyze when the last completed analysis is this old
+    | { type: 'interval'; intervalDays: number }
+    // Re-analyze this soon after an analysis recommends an asap referral
+    | { type: 'asap-recommendation'; withinHours: number };
+
+export interface ReanalysisPolicy {
+    id: string;
+    name: string;
+    cohort: ReanalysisCohort;
+    trigger: ReanalysisTrigger;
+    createdAt: string;
+    createdBy?: string;
+    // Tenant whose budget the policy's analyses are checked against and charged to
+    tenant?: string;
+}
+
+export type ReanalysisPolicyInput = Pick<ReanalysisPolicy, 'name' | 'cohort' | 'trigger' | 'createdBy' | 'tenant'>;
+
+export interface ScheduledReanalysis {
+    patientId: string;
+    policyId: string;
+    dueAt: string;
+    reason: string;
+    lastRunAt?: string;
+    lastAnalysisId?: string;
+    // Why the last attempt to queue the re-analysis failed
+    lastError?: string;
+}
+
+export interface ReanalysisSchedulerDependencies {
+    // Fetch the patient's data and queue its analysis, resolving with the analysis id
+    enqueue(patientId: string, priority: AnalysisPriority, requestedBy?: string, tenant?: string): Promise<string>;
+    // Patient ids of a Group's current members
+    resolveGroup(groupId: string): Promise<string[]>;
+}
+
+interface ReanalysisState {
+    policies: ReanalysisPolicy[];
+    schedule: ScheduledReanalysis[];
+    // patientId -> when its last analysis completed
+    lastAnalyzedAt: Record<string, string>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Keeps analyses of at-risk patients fresh without anyone reopening the chart. Policies
+ * and the resulting schedule are kept in a local JSON file. Only one server may run the
+ * scheduler for a given file.
+ */
+export class ReanalysisScheduler {
+    private readonly store: JsonFileStore<ReanalysisState>;
+    private readonly intervalMs: number;
+    private readonly maxPerRun: number;
+    private readonly retryDelayMs: number;
+    private timer: NodeJS.Timeout | null = null;
+    private running: Promise<void> | null = null;
+    // policyId -> patients of its Group, refreshed on every run
+    private groupMembers: Map<string, Set<string>> = new Map();
+
+    constructor(config: ReanalysisSchedulerConfig, private readonly deps: ReanalysisSchedulerDependencies) {
+        this.store = new JsonFileStore(config.path, () => ({ policies: [], schedule: [], lastAnalyzedAt: {} }));
+        this.intervalMs = config.intervalMs ?? 5 * 60 * 1000;
+        this.maxPerRun = config.maxPerRun ?? 10;
+        this.retryDelayMs = config.retryDelayMs ?? HOUR_MS;
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.run(), this.intervalMs);
+        this.run();
+    }
+
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        await this.running;
+    }
+
+    async listPolicies(): Promise<ReanalysisPolicy[]> {
+        const state = await this.store.read();
+        return state.policies.map(policy => ({ ...policy }));
+    }
+
+    async createPolicy(input: ReanalysisPolicyInput): Promise<ReanalysisPolicy> {
+        const policy: ReanalysisPolicy = {
+            id: uuidv4(),
+            name: input.name,
+            cohort: input.cohort,
+            trigger: input.trigger,
+            createdAt: new Date().toISOString(),
+            ...(input.createdBy && { createdBy: input.createdBy }),
+            ...(input.tenant && { tenant: input.tenant })
+        };
+
+        await this.store.update(state => {
+            state.policies.push(policy);
+        });
+
+        // Schedule the cohort right away rather than at the next run
+        this.run();
+        return policy;
+    }
+
+    /**
+     * Delete a policy and its scheduled re-analyses. Resolves false if there is no such policy.
+     */
+    async deletePolicy(policyId: string): Promise<boolean> {
+        this.groupMembers.delete(policyId);
+
+        return this.store.update(state => {
+            const remaining = state.policies.filter(policy => policy.id !== policyId);
+            const deleted = remaining.length < state.policies.length;
+            state.policies = remaining;
+            state.schedule = state.schedule.filter(entry => entry.policyId !== policyId);
+            return deleted;
+        });
+    }
+
+    /**
+     * Scheduled re-analyses, soonest first
+     */
+    async getSchedule(filter: { patientId?: string; policyId?: string } = {}): Promise<ScheduledReanalysis[]> {
+        const state = await this.store.read();
+        return state.schedule
+            .filter(entry => (!filter.patientId || entry.patientId === filter.patientId) &&
+                (!filter.policyId || entry.policyId === filter.policyId))
+            .sort((a, b) => a.dueAt.localeCompare(b.dueAt))
+            .map(entry => ({ ...entry }));
+    }
+
+    /**
+     * Reschedule a patient's re-analyses from an analysis that just completed
+     */
+    async recordCompleted(metadata: NFTMetadata): Promise<void> {
+        const patientId = metadata?.patientId;
+        if (!patientId) return;
+
+        const completedAt = Date.parse(metadata.analysis?.completedAt || '') || Date.now();
+        const specialists: Array<{ specialty?: string; priority?: string }> = metadata.analysis?.recommendations?.specialists || [];
+        const asapSpecialties = specialists
+            .filter(specialist => specialist.priority === 'asap')
+            .map(specialist => specialist.specialty || 'specialist');
+
+        await this.store.update(state => {
+            const covering = state.policies.filter(policy => this.covers(policy, patientId));
+            if (covering.length === 0) return;
+
+            state.lastAnalyzedAt[patientId] = new Date(completedAt).toISOString();
+
+            for (const policy of covering) {
+                if (policy.trigger.type === 'interval') {
+                    this.upsert(state, {
+                        patientId,
+                        policyId: policy.id,
+                        dueAt: new Date(completedAt + policy.trigger.intervalDays * DAY_MS).toISOString(),
+                        reason: describeTrigger(policy.trigger)
+                    });
+                } else if (asapSpecialties.length > 0) {
+                    this.upsert(state, {
+                        patientId,
+                        policyId: policy.id,
+                        dueAt: new Date(completedAt + policy.trigger.withinHours * HOUR_MS).toISOString(),
+                        reason: `asap ${asapSpecialties.join(', ')} recommendation`
+                    });
+                }
+            }
+        });
+    }
+
+    /**
+     * Refresh cohorts and queue the re-analyses that are due. Runs never overlap.
+     */
+    private run(): void {
+        if (this.running) return;
+
+        this.running = (async () => {
+            try {
+                await this.refreshCohorts();
+                await this.queueDue();
+            } catch (error) {
+                console.error('Error running re-analysis scheduler:', error);
+            } finally {
+                this.running = null;
+            }
+        })();
+    }
+
+    /**
+     * Schedule listed and Group patients of interval policies that have no entry yet, and
+     * drop the entries of patients who left their cohort
+     */
+    private async refreshCohorts(): Promise<void> {
+        const { policies } = await this.store.read();
+
+        for (const policy of policies) {
+            if (!policy.cohort.group) continue;
+            try {
+                const groupId = policy.cohort.group.replace(/^Group\//, '');
+                this.groupMembers.set(policy.id, new Set(await this.deps.resolveGroup(groupId)));
+            } catch (error) {
+                console.error(`Error reading cohort ${policy.cohort.group} of policy ${policy.id}:`, error);
+            }
+        }
+
+        await this.store.update(state => {
+            const now = Date.now();
+
+            for (const policy of state.policies) {
+                const members = this.members(policy);
+                // Covers everyone, or its Group could not be read yet
+                if (members === null || members === undefined) continue;
+
+                state.schedule = state.schedule.filter(entry => entry.policyId !== policy.id || members.has(entry.patientId));
+
+                if (policy.trigger.type !== 'interval') continue;
+                for (const patientId of members) {
+                    if (state.schedule.some(entry => entry.policyId === policy.id && entry.patientId === patientId)) continue;
+
+                    const lastAnalyzedAt = Date.parse(state.lastAnalyzedAt[patientId] || '');
+                    const dueAt = lastAnalyzedAt ? lastAnalyzedAt + policy.trigger.intervalDays * DAY_MS : now;
+                    state.schedule.push({
+                        patientId,
+                        policyId: policy.id,
+                        dueAt: new Date(dueAt).toISOString(),
+                        reason: describeTrigger(policy.trigger)
+                    });
+                }
+            }
+        });
+    }
+
+    private async queueDue(): Promise<void> {
+        const now = Date.now();
+        const state = await this.store.read();
+        const due = state.schedule
+            .filter(entry => Date.parse(entry.dueAt) <= now)
+            .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+
+        // One analysis per patient covers all of its policies that are due
+        const patientIds = Array.from(new Set(due.map(entry => entry.patientId))).slice(0, this.maxPerRun);
+
+        for (const patientId of patientIds) {
+            const entries = due.filter(entry => entry.patientId === patientId);
+            const policies = entries
+                .map(entry => state.policies.find(policy => policy.id === entry.policyId))
+                .filter((policy): policy is ReanalysisPolicy => !!policy);
+            // Follow-ups of asap recommendations run ahead of routine refreshes
+            const priority: AnalysisPriority = policies.some(policy => policy.trigger.type === 'asap-recommendation')
+                ? 'routine'
+                : 'background';
+
+            try {
+                const analysisId = await this.deps.enqueue(patientId, priority, policies[0]?.createdBy, policies[0]?.tenant);
+                console.log(`Queued re-analysis ${analysisId} of patient ${patientId} (${entries.map(entry => entry.reason).join('; ')})`);
+
+                await this.store.update(current => {
+                    const ranAt = new Date().toISOString();
+                    for (const entry of entries) {
+                        const policy = policies.find(candidate => candidate.id === entry.policyId);
+                        if (policy?.trigger.type === 'interval') {
+                            // Moved again when the analysis completes; this holds if it never does
+                            Object.assign(entry, {
+                                dueAt: new Date(Date.now() + policy.trigger.intervalDays * DAY_MS).toISOString(),
+                                lastRunAt: ranAt,
+                                lastAnalysisId: analysisId,
+                                lastError: undefined
+                            });
+                        } else {
+                            current.schedule = current.schedule.filter(scheduled => scheduled !== entry);
+                        }
+                    }
+                });
+            } catch (error) {
+                console.error(`Error queuing re-analysis of patient ${patientId}:`, error);
+                await this.store.update(() => {
+                    for (const entry of entries) {
+                        entry.dueAt = new Date(Date.now() + this.retryDelayMs).toISOString();
+                        entry.lastError = error instanceof Error ? error.message : String(error);
+                    }
+                });
+            }
+        }
+    }
+
+    private covers(policy: ReanalysisPolicy, patientId: string): boolean {
+        const members = this.members(policy);
+        return members === null || !!members?.has(patientId);
+    }
+
+    // Patients of a listed or Group cohort: null when the policy covers everyone, undefined
+    // while its Group has not been read
+    private members(policy: ReanalysisPolicy): Set<string> | null | undefined {
+        if (policy.cohort.group) {
+            return this.groupMembers.get(policy.id);
+        }
+        if (policy.cohort.patientIds) {
+            return new Set(policy.cohort.patientIds);
+        }
+        return null;
+    }
+
+    private upsert(state: ReanalysisState, scheduled: ScheduledReanalysis): void {
+        const existing = state.schedule.find(entry =>
+            entry.policyId === scheduled.policyId && entry.patientId === scheduled.patientId);
+
+        if (existing) {
+            Object.assign(existing, { dueAt: scheduled.dueAt, reason: scheduled.reason });
+        } else {
+            state.schedule.push(scheduled);
+        }
+    }
+}
+
+function describeTrigger(trigger: ReanalysisTrigger): string {
+    return trigger.type === 'interval'
+        ? `Every ${trigger.intervalDays} days`
+        : `Within ${trigger.withinHours} hours of an asap recommendation`;
+}
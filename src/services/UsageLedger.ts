@@ -0,0 +1,253 @@
+// src/services/UsageLedger.ts
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { UsageTotals, addUsage, emptyUsage, roundCost } from './llm/usage';
+
+export interface UsageBudgets {
+    // Monthly spend of each tenant, in USD
+    tenantMonthlyUsd?: number;
+    // Per-tenant monthly limits, over tenantMonthlyUsd
+    tenants?: Record<string, number>;
+    // Monthly spend of all tenants together
+    totalMonthlyUsd?: number;
+}
+
+export interface UsageLedgerConfig {
+    path: string;
+    budgets?: UsageBudgets;
+}
+
+export interface AnalysisUsage {
+    analysisId: string;
+    patientId: string;
+    tenant: string;
+    // Month the analysis was first charged to, YYYY-MM
+    period: string;
+    // Every attempt, including ones that failed and were retried
+    totals: UsageTotals;
+    updatedAt: string;
+}
+
+export interface ChatSessionUsage {
+    sessionId: string;
+    patientId: string;
+    tenant: string;
+    period: string;
+    totals: UsageTotals;
+    updatedAt: string;
+}
+
+// A tenant's spend in one month
+export interface TenantUsage {
+    analyses: UsageTotals;
+    chat: UsageTotals;
+}
+
+export interface BudgetStatus {
+    tenant: string;
+    period: string;
+    spentUsd: number;
+    limitUsd?: number;
+    totalSpentUsd: number;
+    totalLimitUsd?: number;
+    exceeded: boolean;
+}
+
+export interface TenantUsageReport extends TenantUsage {
+    tenant: string;
+    analysisCount: number;
+    chatSessionCount: number;
+    costUsd: number;
+    // Mean cost of the tenant's analyses this month
+    averageAnalysisCostUsd: number;
+    budget: BudgetStatus;
+}
+
+export interface UsageReport {
+    period: string;
+    generatedAt: string;
+    total: UsageTotals;
+    tenants: TenantUsageReport[];
+}
+
+interface UsageLedgerState {
+    analyses: Record<string, AnalysisUsage>;
+    chatSessions: Record<string, ChatSessionUsage>;
+    // tenant -> period -> spend
+    tenants: Record<string, Record<string, TenantUsage>>;
+}
+
+// Usage not attributed to a tenant
+export const DEFAULT_TENANT = 'default';
+
+export class BudgetExceededError extends Error {
+    constructor(public readonly status: BudgetStatus) {
+        super(status.limitUsd !== undefined && status.spentUsd >= status.limitUsd
+            ? `Usage budget of tenant ${status.tenant} exceeded for ${status.period}: $${status.spentUsd} of $${status.limitUsd}`
+            : `Total usage budget exceeded for ${status.period}: $${status.totalSpentUsd} of $${status.totalLimitUsd}`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+/**
+ * Token usage and estimated LLM cost per analysis, chat session and tenant, kept in a
+ * local JSON file, and the monthly budgets new work is checked against
+ */
+export class UsageLedger {
+    private readonly store: JsonFileStore<UsageLedgerState>;
+    private readonly budgets: UsageBudgets;
+
+    constructor(config: UsageLedgerConfig) {
+        this.store = new JsonFileStore(config.path, () => ({ analyses: {}, chatSessions: {}, tenants: {} }));
+        this.budgets = config.budgets || {};
+    }
+
+    /**
+     * Add the usage of one attempt of an analysis
+     */
+    async recordAnalysis(
+        analysis: { analysisId: string; patientId: string; tenant?: string },
+        usage: UsageTotals
+    ): Promise<void> {
+        const now = new Date();
+
+        await this.store.update(state => {
+            const existing = state.analyses[analysis.analysisId];
+            // Follow-up work such as a deep analysis stays with the analysis's tenant
+            const tenant = analysis.tenant || existing?.tenant || DEFAULT_TENANT;
+            state.analyses[analysis.analysisId] = {
+                analysisId: analysis.analysisId,
+                patientId: analysis.patientId,
+                tenant,
+                period: existing?.period || periodOf(now),
+                totals: addUsage(existing?.totals || emptyUsage(), usage),
+                updatedAt: now.toISOString()
+            };
+
+            const spend = tenantUsage(state, tenant, periodOf(now));
+            spend.analyses = addUsage(spend.analyses, usage);
+        });
+    }
+
+    async recordChat(
+        session: { sessionId: string; patientId: string; tenant?: string },
+        usage: UsageTotals
+    ): Promise<void> {
+        const tenant = session.tenant || DEFAULT_TENANT;
+        const now = new Date();
+
+        await this.store.update(state => {
+            const existing = state.chatSessions[session.sessionId];
+            state.chatSessions[session.sessionId] = {
+                sessionId: session.sessionId,
+                patientId: session.patientId,
+                tenant,
+                period: existing?.period || periodOf(now),
+                totals: addUsage(existing?.totals || emptyUsage(), usage),
+                updatedAt: now.toISOString()
+            };
+
+            const spend = tenantUsage(state, tenant, periodOf(now));
+            spend.chat = addUsage(spend.chat, usage);
+        });
+    }
+
+    async getAnalysisUsage(analysisId: string): Promise<AnalysisUsage | null> {
+        const state = await this.store.read();
+        return state.analyses[analysisId] || null;
+    }
+
+    async listAnalyses(filter: { period?: string; tenant?: string; patientId?: string } = {}): Promise<AnalysisUsage[]> {
+        const state = await this.store.read();
+        const period = filter.period || periodOf(new Date());
+        return Object.values(state.analyses)
+            .filter(analysis => analysis.period === period
+                && (!filter.tenant || analysis.tenant === filter.tenant)
+                && (!filter.patientId || analysis.patientId === filter.patientId))
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    /**
+     * A tenant's spend this month against its budget and the total budget
+     */
+    async checkBudget(tenant?: string): Promise<BudgetStatus> {
+        return this.budgetStatus(await this.store.read(), tenant || DEFAULT_TENANT, periodOf(new Date()));
+    }
+
+    /**
+     * Throw a BudgetExceededError if the tenant, or all tenants together, spent their
+     * monthly budget. Called before starting new work.
+     */
+    async assertWithinBudget(tenant?: string): Promise<void> {
+        const status = await this.checkBudget(tenant);
+        if (status.exceeded) {
+            throw new BudgetExceededError(status);
+        }
+    }
+
+    async getReport(filter: { period?: string; tenant?: string } = {}): Promise<UsageReport> {
+        const state = await this.store.read();
+        const period = filter.period || periodOf(new Date());
+
+        const tenants = Object.keys(state.tenants)
+            .filter(tenant => state.tenants[tenant][period] && (!filter.tenant || tenant === filter.tenant))
+            .sort()
+            .map((tenant): TenantUsageReport => {
+                const spend = state.tenants[tenant][period];
+                const analyses = Object.values(state.analyses)
+                    .filter(analysis => analysis.tenant === tenant && analysis.period === period);
+                const chatSessionCount = Object.values(state.chatSessions)
+                    .filter(session => session.tenant === tenant && session.period === period)
+                    .length;
+                const analysisCost = analyses.reduce((sum, analysis) => sum + analysis.totals.costUsd, 0);
+
+                return {
+                    tenant,
+                    ...spend,
+                    analysisCount: analyses.length,
+                    chatSessionCount,
+                    costUsd: addUsage(spend.analyses, spend.chat).costUsd,
+                    averageAnalysisCostUsd: analyses.length > 0 ? roundCost(analysisCost / analyses.length) : 0,
+                    budget: this.budgetStatus(state, tenant, period)
+                };
+            });
+
+        return {
+            period,
+            generatedAt: new Date().toISOString(),
+            total: tenants.reduce((total, tenant) => addUsage(addUsage(total, tenant.analyses), tenant.chat), emptyUsage()),
+            tenants
+        };
+    }
+
+    private budgetStatus(state: UsageLedgerState, tenant: string, period: string): BudgetStatus {
+        const spentIn = (name: string) => {
+            const spend = state.tenants[name]?.[period];
+            return spend ? addUsage(spend.analyses, spend.chat).costUsd : 0;
+        };
+        const spentUsd = spentIn(tenant);
+        const totalSpentUsd = roundCost(Object.keys(state.tenants).reduce((sum, name) => sum + spentIn(name), 0));
+        const limitUsd = this.budgets.tenants?.[tenant] ?? this.budgets.tenantMonthlyUsd;
+        const totalLimitUsd = this.budgets.totalMonthlyUsd;
+
+        return {
+            tenant,
+            period,
+            spentUsd,
+            ...(limitUsd !== undefined && { limitUsd }),
+            totalSpentUsd,
+            ...(totalLimitUsd !== undefined && { totalLimitUsd }),
+            exceeded: (limitUsd !== undefined && spentUsd >= limitUsd)
+                || (totalLimitUsd !== undefined && totalSpentUsd >= totalLimitUsd)
+        };
+    }
+}
+
+function tenantUsage(state: UsageLedgerState, tenant: string, period: string): TenantUsage {
+    const periods = state.tenants[tenant] || (state.tenants[tenant] = {});
+    return periods[period] || (periods[period] = { analyses: emptyUsage(), chat: emptyUsage() });
+}
+
+// Budgets run per calendar month, in UTC
+function periodOf(date: Date): string {
+    return date.toISOString().slice(0, 7);
+}
@@ -0,0 +1,116 @@
+// src/services/__tests__/AnalysisDeduplicator.test.ts
+import { AnalysisDeduplicator, AnalysisRequestKey } from '../AnalysisDeduplicator';
+
+function key(hookInstance: string, fingerprint = 'chart-a', patientId = 'patient-1'): AnalysisRequestKey {
+    return { hookInstance, patientId, fingerprint };
+}
+
+describe('AnalysisDeduplicator', () => {
+    let now: number;
+    let created: number;
+    const create = () => Promise.resolve(`analysis-${++created}`);
+
+    beforeEach(() => {
+        now = Date.parse('2024-05-01T12:00:00Z');
+        created = 0;
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('creates an analysis for a new request', async () => {
+        const deduplicator = new AnalysisDeduplicator();
+
+        expect(await deduplicator.getOrCreate(key('hook-1'), create)).toEqual({ analysisId: 'analysis-1', reused: false });
+    });
+
+    it('returns the same analysis for a retried hookInstance', async () => {
+        const deduplicator = new AnalysisDeduplicator();
+        await deduplicator.getOrCreate(key('hook-1'), create);
+
+        const retry = await deduplicator.getOrCreate(key('hook-1', 'chart-b'), create);
+
+        expect(retry).toEqual({ analysisId: 'analysis-1', reused: true, reason: 'hookInstance' });
+        expect(created).toBe(1);
+    });
+
+    it('reuses the latest analysis of an unchanged chart within the window', async () => {
+        const deduplicator = new AnalysisDeduplicator({ reuseWindowMs: 60_000 });
+        await deduplicator.getOrCreate(key('hook-1'), create);
+        now += 30_000;
+
+        expect(await deduplicator.getOrCreate(key('hook-2'), create))
+            .toEqual({ analysisId: 'analysis-1', reused: true, reason: 'unchanged' });
+    });
+
+    it('creates a new analysis once the chart changes', async () => {
+        const deduplicator = new AnalysisDeduplicator();
+        await deduplicator.getOrCreate(key('hook-1'), create);
+
+        expect(await deduplicator.getOrCreate(key('hook-2', 'chart-b'), create))
+            .toEqual({ analysisId: 'analysis-2', reused: false });
+    });
+
+    it('creates a new analysis after the reuse window', async () => {
+        const deduplicator = new AnalysisDeduplicator({ reuseWindowMs: 60_000 });
+        await deduplicator.getOrCreate(key('hook-1'), create);
+        now += 60_000;
+
+        expect((await deduplicator.getOrCreate(key('hook-2'), create)).reused).toBe(false);
+    });
+
+    it('never reuses by fingerprint with a window of 0', async () => {
+        const deduplicator = new AnalysisDeduplicator({ reuseWindowMs: 0 });
+        await deduplicator.getOrCreate(key('hook-1'), create);
+
+        expect((await deduplicator.getOrCreate(key('hook-2'), create)).reused).toBe(false);
+    });
+
+    it('forgets hookInstances after their TTL', async () => {
+        const deduplicator = new AnalysisDeduplicator({ reuseWindowMs: 0, hookInstanceTtlMs: 60_000 });
+        await deduplicator.getOrCreate(key('hook-1'), create);
+        now += 60_000;
+
+        expect((await deduplicator.getOrCreate(key('hook-1'), create)).reused).toBe(false);
+    });
+
+    it('keeps patients apart', async () => {
+        const deduplicator = new AnalysisDeduplicator();
+        await deduplicator.getOrCreate(key('hook-1'), create);
+
+        expect((await deduplicator.getOrCreate(key('hook-2', 'chart-a', 'patient-2'), create)).reused).toBe(false);
+    });
+
+    it('shares one pending create between concurrent requests', async () => {
+        const deduplicator = new AnalysisDeduplicator();
+        let resolve!: (analysisId: string) => void;
+        const pending = new Promise<string>(done => (resolve = done));
+
+        const first = deduplicator.getOrCreate(key('hook-1'), () => pending);
+        const second = deduplicator.getOrCreate(key('hook-2'), create);
+        resolve('analysis-slow');
+
+        expect(await first).toEqual({ analysisId: 'analysis-slow', reused: false });
+        expect(await second).toEqual({ analysisId: 'analysis-slow', reused: true, reason: 'unchanged' });
+        expect(created).toBe(0);
+    });
+
+    it('does not hand out a create that failed', async () => {
+        const deduplicator = new AnalysisDeduplicator();
+
+        await expect(deduplicator.getOrCreate(key('hook-1'), () => Promise.reject(new Error('queue down'))))
+            .rejects.toThrow('queue down');
+        expect(await deduplicator.getOrCreate(key('hook-1'), create)).toEqual({ analysisId: 'analysis-1', reused: false });
+    });
+
+    it('stops reusing an invalidated analysis', async () => {
+        const deduplicator = new AnalysisDeduplicator();
+        await deduplicator.getOrCreate(key('hook-1'), create);
+
+        await deduplicator.invalidate('analysis-1');
+
+        expect(await deduplicator.getOrCreate(key('hook-1'), create)).toEqual({ analysisId: 'analysis-2', reused: false });
+    });
+});
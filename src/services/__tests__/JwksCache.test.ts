@@ -0,0 +1,79 @@
+// src/services/__tests__/JwksCache.test.ts
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JwksCache } from '../JwksCache';
+import { generateTestKey } from '../../utils/__tests__/jwtFixtures';
+
+describe('JwksCache', () => {
+    const first = generateTestKey('key-1', 'ES256');
+    const second = generateTestKey('key-2', 'ES256');
+    let dir: string;
+    let jwksPath: string;
+
+    const writeKeys = (...keys: object[]) => fs.writeFile(jwksPath, JSON.stringify({ keys }));
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jwks-cache-'));
+        jwksPath = path.join(dir, 'jwks.json');
+        await writeKeys(first.jwk);
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('finds a key by kid and alg', async () => {
+        const cache = new JwksCache();
+
+        expect((await cache.getKey(jwksPath, 'key-1', 'ES256'))?.kid).toBe('key-1');
+        expect(await cache.getKey(jwksPath, 'key-1', 'RS256')).toBeNull();
+    });
+
+    it('only picks a key without kid when the set has a single one', async () => {
+        const cache = new JwksCache({ ttlMs: 0 });
+        expect((await cache.getKey(jwksPath))?.kid).toBe('key-1');
+
+        await writeKeys(first.jwk, second.jwk);
+        expect(await cache.getKey(jwksPath)).toBeNull();
+    });
+
+    it('skips encryption keys', async () => {
+        await writeKeys({ ...first.jwk, use: 'enc' });
+
+        expect(await new JwksCache().getKey(jwksPath, 'key-1')).toBeNull();
+    });
+
+    it('refetches once for an unknown kid after a rotation', async () => {
+        const cache = new JwksCache({ minRefreshIntervalMs: 0 });
+        await cache.getKey(jwksPath, 'key-1');
+
+        await writeKeys(second.jwk);
+        expect((await cache.getKey(jwksPath, 'key-2'))?.kid).toBe('key-2');
+    });
+
+    it('does not refetch for unknown kids more often than minRefreshIntervalMs', async () => {
+        const cache = new JwksCache({ minRefreshIntervalMs: 60_000 });
+        await cache.getKey(jwksPath, 'key-1');
+
+        await writeKeys(second.jwk);
+        expect(await cache.getKey(jwksPath, 'key-2')).toBeNull();
+    });
+
+    it('keeps serving cached keys when a refresh fails', async () => {
+        const cache = new JwksCache({ ttlMs: 0 });
+        await cache.getKey(jwksPath, 'key-1');
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await fs.writeFile(jwksPath, 'not json');
+        expect((await cache.getKey(jwksPath, 'key-1'))?.kid).toBe('key-1');
+
+        jest.restoreAllMocks();
+    });
+
+    it('fails for a set without a keys array', async () => {
+        await fs.writeFile(jwksPath, JSON.stringify({ jwks: [] }));
+
+        await expect(new JwksCache().getKey(jwksPath, 'key-1')).rejects.toThrow('has no keys array');
+    });
+});
@@ -0,0 +1,329 @@
+// src/services/__tests__/MedicationSafetyService.test.ts
+import { FhirResource, MedicationRequest } from 'fhir/r4';
+import { MedicationSafetyService, SafetyMedication, SafetyObservation } from '../MedicationSafetyService';
+
+function draftOrder(id: string, text: string): MedicationRequest {
+    return {
+        resourceType: 'MedicationRequest',
+        id,
+        status: 'draft',
+        intent: 'order',
+        subject: { reference: 'Patient/123' },
+        medicationCodeableConcept: { text }
+    };
+}
+
+function dosedOrder(id: string, text: string, doseMg: number, frequency: number, period = 1, periodUnit = 'd'): MedicationRequest {
+    return {
+        ...draftOrder(id, text),
+        dosageInstruction: [{
+            text: `${doseMg} mg ${frequency} times per ${period} ${periodUnit}`,
+            timing: { repeat: { frequency, period, periodUnit: periodUnit as 'd' } },
+            doseAndRate: [{ doseQuantity: { value: doseMg, unit: 'mg', system: 'http://unitsofmeasure.org', code: 'mg' } }]
+        }]
+    };
+}
+
+function egfr(value: number, effectiveDateTime = '2024-05-01'): SafetyObservation {
+    return { id: `egfr-${value}`, code: '33914-3', effectiveDateTime, value: { type: 'Quantity', value, unit: 'mL/min/1.73m2' } };
+}
+
+function activeMedication(id: string, display: string, status = 'active'): SafetyMedication {
+    return { id, resourceType: 'MedicationRequest', display, status };
+}
+
+describe('MedicationSafetyService', () => {
+    const service = new MedicationSafetyService();
+
+    describe('interactions', () => {
+        it('flags a draft order against an active medication', () => {
+            const findings = service.reviewOrders({
+                draftOrders: [draftOrder('ibu', 'Ibuprofen 400 mg tablet')],
+                medications: [activeMedication('warf', 'Warfarin 5 mg tablet')]
+            });
+
+            expect(findings).toHaveLength(1);
+            expect(findings[0]).toMatchObject({
+                type: 'interaction',
+                ruleId: 'anticoagulant-nsaid',
+                severity: 'critical',
+                order: { id: 'ibu', source: 'draft' },
+                related: { kind: 'active', id: 'warf' }
+            });
+            expect(findings[0].monitoring?.code).toBe('58410-2');
+        });
+
+        it('flags two interacting drafts in the same order set once', () => {
+            const findings = service.reviewOrders({
+                draftOrders: [
+                    draftOrder('sert', 'Sertraline 50 mg tablet'),
+                    draftOrder('phen', 'Phenelzine 15 mg tablet')
+                ]
+            });
+
+            expect(findings.map(finding => finding.ruleId)).toEqual(['ssri-maoi']);
+            expect(findings[0].related?.kind).toBe('draft');
+        });
+
+        it('ignores medications that are no longer taken', () => {
+            const findings = service.reviewOrders({
+                draftOrders: [draftOrder('ibu', 'Ibuprofen 400 mg tablet')],
+                medications: [activeMedication('warf', 'Warfarin 5 mg tablet', 'stopped')]
+            });
+
+            expect(findings).toEqual([]);
+        });
+
+        it('matches whole ingredient names only', () => {
+            expect(service.classify('Aspirin 81 mg').map(drugClass => drugClass.id)).toEqual(['antiplatelet']);
+            expect(service.classify('Lithium carbonate 300 mg').map(drugClass => drugClass.id)).toEqual(['lithium']);
+            expect(service.classify('Prolithium supplement')).toEqual([]);
+        });
+
+        it('only reviews the targeted draft orders', () => {
+            const findings = service.reviewOrders({
+                draftOrders: [
+                    draftOrder('ibu', 'Ibuprofen 400 mg tablet'),
+                    draftOrder('sert', 'Sertraline 50 mg tablet'),
+                    draftOrder('suma', 'Sumatriptan 50 mg tablet')
+                ],
+                targetOrderIds: ['ibu'],
+                medications: [activeMedication('warf', 'Warfarin 5 mg tablet')]
+            });
+
+            expect(findings.map(finding => finding.ruleId)).toEqual(['anticoagulant-nsaid']);
+        });
+
+        it('lists critical findings before warnings', () => {
+            const findings = service.reviewOrders({
+                draftOrders: [draftOrder('warf', 'Warfarin 5 mg tablet')],
+                medications: [
+                    activeMedication('asa', 'Aspirin 81 mg tablet'),
+                    activeMedication('ibu', 'Ibuprofen 400 mg tablet')
+                ]
+            });
+
+            expect(findings.map(finding => finding.severity)).toEqual(['critical', 'warning']);
+        });
+    });
+
+    describe('duplicate therapy', () => {
+        it('flags the same ingredient ordered twice', () => {
+            const findings = service.reviewOrders({
+                draftOrders: [draftOrder('ator', 'Atorvastatin 40 mg tablet')],
+                medications: [activeMedication('ator-old', 'Atorvastatin 20 mg tablet')]
+            });
+
+            expect(findings).toHaveLength(1);
+            expect(findings[0]).toMatchObject({
+                type: 'duplicate-therapy',
+                ruleId: 'duplicate-medication',
+                summary: 'Duplicate medication: atorvastatin'
+            });
+        });
+
+        it('flags two agents of a class that should not be combined', () => {
+            const findings = service.reviewOrders({
+                draftOrders: [draftOrder('ator', 'Atorvastatin 40 mg tablet')],
+                medications: [activeMedication('rosu', 'Rosuvastatin 10 mg tablet')]
+            });
+
+            expect(findings.map(finding => finding.ruleId)).toEqual(['duplicate-therapy:statin']);
+        });
+    });
+
+    describe('contraindications', () => {
+        it('flags an active condition matched by code prefix', () => {
+            const findings = service.reviewOrders({
+                draftOrders: [draftOrder('ibu', 'Ibuprofen 400 mg tablet')],
+                conditions: [{ id: 'ckd', code: 'N18.4', display: 'CKD stage 4', clinicalStatus: { code: 'active' } }]
+            });
+
+            expect(findings).toHaveLength(1);
+            expect(findings[0]).toMatchObject({
+                type: 'contraindication',
+                ruleId: 'nsaid-ckd',
+                related: { kind: 'condition', id: 'ckd' }
+            });
+        });
+
+        it('flags an active condition matched by keyword', () => {
+            const findings = service.reviewOrders({
+                draftOrders: [draftOrder('ibu', 'Ibuprofen 400 mg tablet')],
+                conditions: [{ id: 'ulcer', display: 'Duodenal ulcer with hemorrhage' }]
+            });
+
+            expect(findings.map(finding => finding.ruleId)).toEqual(['nsaid-gi-bleed']);
+        });
+
+        it('ignores resolved conditions', () => {
+            const findings = service.reviewOrders({
+                draftOrders: [draftOrder('ibu', 'Ibuprofen 400 mg tablet')],
+                conditions: [{ id: 'ckd', code: 'N18.4', clinicalStatus: { code: 'resolved' } }]
+            });
+
+            expect(findings).toEqual([]);
+        });
+    });
+
+    describe('dose adjustments', () => {
+        it('caps the metformin daily dose when eGFR is below 45', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [dosedOrder('met', 'Metformin 1000 mg tablet', 1000, 2)],
+                observations: [egfr(38)]
+            });
+
+            expect(review.doseAdjustments).toHaveLength(1);
+            const [adjustment] = review.doseAdjustments;
+            expect(adjustment).toMatchObject({
+                ruleId: 'metformin-renal-dose',
+                currentDailyDoseMg: 2000,
+                proposedDoseMg: 500
+            });
+            expect(adjustment.detail).toContain('eGFR 38 mL/min/1.73m2');
+
+            const dosage = adjustment.proposedResource!.dosageInstruction![0];
+            expect(dosage.doseAndRate![0].doseQuantity!.value).toBe(500);
+            expect(dosage.text).toBeUndefined();
+        });
+
+        it('uses the most recent eGFR', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [dosedOrder('met', 'Metformin 1000 mg tablet', 1000, 2)],
+                observations: [egfr(38, '2024-01-01'), egfr(62, '2024-06-01')]
+            });
+
+            expect(review.doseAdjustments).toEqual([]);
+        });
+
+        it('leaves a dose already within the cap alone', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [dosedOrder('met', 'Metformin 500 mg tablet', 500, 2)],
+                observations: [egfr(38)]
+            });
+
+            expect(review.doseAdjustments).toEqual([]);
+        });
+
+        it('proposes no dose for an order that is contraindicated outright', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [dosedOrder('met', 'Metformin 1000 mg tablet', 1000, 2)],
+                observations: [egfr(25)]
+            });
+
+            expect(review.findings.map(finding => finding.ruleId)).toEqual(['metformin-egfr']);
+            expect(review.doseAdjustments).toEqual([]);
+        });
+
+        it('halves digoxin when amiodarone is a new order', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [
+                    dosedOrder('dig', 'Digoxin 0.25 mg tablet', 0.25, 1),
+                    draftOrder('amio', 'Amiodarone 200 mg tablet')
+                ]
+            });
+
+            expect(review.doseAdjustments).toHaveLength(1);
+            expect(review.doseAdjustments[0]).toMatchObject({
+                ruleId: 'digoxin-amiodarone-dose',
+                currentDailyDoseMg: 0.25,
+                proposedDoseMg: 0.13
+            });
+        });
+
+        it('does not halve a digoxin renewal while amiodarone is already active', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [dosedOrder('dig', 'Digoxin 0.125 mg tablet', 0.125, 1)],
+                medications: [activeMedication('amio', 'Amiodarone 200 mg tablet')]
+            });
+
+            expect(review.doseAdjustments).toEqual([]);
+        });
+
+        it('caps simvastatin with active amiodarone', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [dosedOrder('simva', 'Simvastatin 40 mg tablet', 40, 1)],
+                medications: [activeMedication('amio', 'Amiodarone 200 mg tablet')]
+            });
+
+            expect(review.doseAdjustments).toHaveLength(1);
+            expect(review.doseAdjustments[0]).toMatchObject({
+                ruleId: 'simvastatin-amiodarone-dose',
+                currentDailyDoseMg: 40,
+                proposedDoseMg: 20
+            });
+        });
+
+        it('converts the dosing period to doses per day', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [dosedOrder('met', 'Metformin 500 mg tablet', 500, 1, 8, 'h')],
+                observations: [egfr(38)]
+            });
+
+            expect(review.doseAdjustments[0]).toMatchObject({ currentDailyDoseMg: 1500, proposedDoseMg: 333.33 });
+        });
+
+        it('skips doses with an unknown period unit', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [dosedOrder('met', 'Metformin 1000 mg tablet', 1000, 2, 1, 'fortnight')],
+                observations: [egfr(38)]
+            });
+
+            expect(review.doseAdjustments).toEqual([]);
+        });
+    });
+
+    describe('monitoring', () => {
+        it('suggests each lab once with every reason and order behind it', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [
+                    draftOrder('warf', 'Warfarin 5 mg tablet'),
+                    draftOrder('apix', 'Apixaban 5 mg tablet')
+                ],
+                medications: [activeMedication('ibu', 'Ibuprofen 400 mg tablet')]
+            });
+
+            const cbc = review.monitoring.filter(lab => lab.code === '58410-2');
+            expect(cbc).toHaveLength(1);
+            expect(cbc[0].orderIds.sort()).toEqual(['apix', 'warf']);
+            expect(cbc[0].reasons).toHaveLength(1);
+        });
+
+        it('suggests INR monitoring when warfarin is started with an azole', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [draftOrder('warf', 'Warfarin 5 mg tablet')],
+                medications: [activeMedication('flu', 'Fluconazole 150 mg capsule')]
+            });
+
+            expect(review.monitoring).toEqual([
+                expect.objectContaining({ code: '6301-6', orderIds: ['warf'] })
+            ]);
+        });
+
+        it('suggests nothing without findings', () => {
+            const review = service.reviewForSigning({
+                draftOrders: [draftOrder('amox', 'Amoxicillin 500 mg capsule')]
+            });
+
+            expect(review).toEqual({ findings: [], doseAdjustments: [], monitoring: [] });
+        });
+    });
+
+    it('skips draft orders that are not medications', () => {
+        const serviceRequest: FhirResource = {
+            resourceType: 'ServiceRequest',
+            id: 'lab',
+            status: 'draft',
+            intent: 'order',
+            subject: { reference: 'Patient/123' },
+            code: { text: 'Warfarin level' }
+        };
+
+        const findings = service.reviewOrders({
+            draftOrders: [serviceRequest],
+            medications: [activeMedication('ibu', 'Ibuprofen 400 mg tablet')]
+        });
+
+        expect(findings).toEqual([]);
+    });
+});
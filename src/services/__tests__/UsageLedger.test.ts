@@ -0,0 +1,149 @@
+// src/services/__tests__/UsageLedger.test.ts
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BudgetExceededError, DEFAULT_TENANT, UsageBudgets, UsageLedger } from '../UsageLedger';
+import { UsageTotals } from '../llm/usage';
+
+const usage = (costUsd: number): UsageTotals => ({ calls: 1, inputTokens: 1000, outputTokens: 200, costUsd, unpricedCalls: 0 });
+
+describe('UsageLedger', () => {
+    let dir: string;
+    let ledgerPath: string;
+
+    const ledger = (budgets?: UsageBudgets) => new UsageLedger({ path: ledgerPath, budgets });
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-ledger-'));
+        ledgerPath = path.join(dir, 'ledger.json');
+        // Only Date is faked, so file I/O keeps working
+        jest.useFakeTimers({
+            now: new Date('2026-03-31T23:30:00Z'),
+            doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval', 'clearImmediate', 'clearTimeout', 'clearInterval', 'queueMicrotask']
+        });
+    });
+
+    afterEach(async () => {
+        jest.useRealTimers();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    describe('tenant attribution', () => {
+        it('charges analyses and chats to their tenant, or the default tenant', async () => {
+            const usageLedger = ledger();
+            await usageLedger.recordAnalysis({ analysisId: 'a1', patientId: 'p1', tenant: 'acme' }, usage(0.5));
+            await usageLedger.recordAnalysis({ analysisId: 'a2', patientId: 'p2' }, usage(0.25));
+            await usageLedger.recordChat({ sessionId: 's1', patientId: 'p1', tenant: 'acme' }, usage(0.1));
+
+            const report = await usageLedger.getReport();
+
+            expect(report.tenants.map(tenant => [tenant.tenant, tenant.costUsd, tenant.analysisCount, tenant.chatSessionCount]))
+                .toEqual([['acme', 0.6, 1, 1], [DEFAULT_TENANT, 0.25, 1, 0]]);
+            expect(report.total).toMatchObject({ calls: 3, costUsd: 0.85 });
+        });
+
+        it('keeps follow-up work of an analysis with the analysis tenant', async () => {
+            const usageLedger = ledger();
+            await usageLedger.recordAnalysis({ analysisId: 'a1', patientId: 'p1', tenant: 'acme' }, usage(0.5));
+
+            // A deep analysis recorded without a tenant
+            await usageLedger.recordAnalysis({ analysisId: 'a1', patientId: 'p1' }, usage(0.2));
+
+            expect(await usageLedger.getAnalysisUsage('a1')).toMatchObject({
+                tenant: 'acme',
+                totals: { calls: 2, costUsd: 0.7 }
+            });
+            expect((await usageLedger.getReport()).tenants.map(tenant => tenant.tenant)).toEqual(['acme']);
+        });
+
+        it('filters analyses by tenant and patient', async () => {
+            const usageLedger = ledger();
+            await usageLedger.recordAnalysis({ analysisId: 'a1', patientId: 'p1', tenant: 'acme' }, usage(0.5));
+            await usageLedger.recordAnalysis({ analysisId: 'a2', patientId: 'p2', tenant: 'acme' }, usage(0.5));
+            await usageLedger.recordAnalysis({ analysisId: 'a3', patientId: 'p1', tenant: 'globex' }, usage(0.5));
+
+            const ids = async (filter: { tenant?: string; patientId?: string }) =>
+                (await usageLedger.listAnalyses(filter)).map(analysis => analysis.analysisId).sort();
+
+            expect(await ids({ tenant: 'acme' })).toEqual(['a1', 'a2']);
+            expect(await ids({ patientId: 'p1' })).toEqual(['a1', 'a3']);
+        });
+
+        it('persists the ledger to its file', async () => {
+            await ledger().recordChat({ sessionId: 's1', patientId: 'p1', tenant: 'acme' }, usage(0.1));
+
+            expect((await ledger().getReport()).tenants[0]).toMatchObject({ tenant: 'acme', chatSessionCount: 1 });
+        });
+    });
+
+    describe('periods', () => {
+        it('starts a new budget period each calendar month in UTC', async () => {
+            const usageLedger = ledger({ tenantMonthlyUsd: 1 });
+            await usageLedger.recordAnalysis({ analysisId: 'a1', patientId: 'p1', tenant: 'acme' }, usage(1));
+            expect(await usageLedger.checkBudget('acme')).toMatchObject({ period: '2026-03', spentUsd: 1, exceeded: true });
+
+            jest.setSystemTime(new Date('2026-04-01T00:30:00Z'));
+
+            expect(await usageLedger.checkBudget('acme')).toMatchObject({ period: '2026-04', spentUsd: 0, exceeded: false });
+            expect((await usageLedger.getReport({ period: '2026-03' })).tenants[0].costUsd).toBe(1);
+        });
+
+        it('keeps an analysis in the month it was first charged to', async () => {
+            const usageLedger = ledger();
+            await usageLedger.recordAnalysis({ analysisId: 'a1', patientId: 'p1', tenant: 'acme' }, usage(0.5));
+
+            jest.setSystemTime(new Date('2026-04-01T00:30:00Z'));
+            await usageLedger.recordAnalysis({ analysisId: 'a1', patientId: 'p1', tenant: 'acme' }, usage(0.25));
+
+            expect(await usageLedger.getAnalysisUsage('a1')).toMatchObject({ period: '2026-03', totals: { costUsd: 0.75 } });
+            expect(await usageLedger.listAnalyses()).toEqual([]);
+            // The spend itself counts towards the month it happened in
+            expect((await usageLedger.checkBudget('acme')).spentUsd).toBe(0.25);
+        });
+    });
+
+    describe('budgets', () => {
+        it('is never exceeded without budgets', async () => {
+            const usageLedger = ledger();
+            await usageLedger.recordAnalysis({ analysisId: 'a1', patientId: 'p1' }, usage(1000));
+
+            await expect(usageLedger.assertWithinBudget()).resolves.toBeUndefined();
+        });
+
+        it('prefers a per-tenant limit over the shared tenant limit', async () => {
+            const usageLedger = ledger({ tenantMonthlyUsd: 1, tenants: { acme: 5 } });
+            await usageLedger.recordChat({ sessionId: 's1', patientId: 'p1', tenant: 'acme' }, usage(2));
+            await usageLedger.recordChat({ sessionId: 's2', patientId: 'p2', tenant: 'globex' }, usage(2));
+
+            await expect(usageLedger.assertWithinBudget('acme')).resolves.toBeUndefined();
+            await expect(usageLedger.assertWithinBudget('globex')).rejects.toThrow(
+                'Usage budget of tenant globex exceeded for 2026-03: $2 of $1'
+            );
+        });
+
+        it('stops every tenant once the total budget is spent', async () => {
+            const usageLedger = ledger({ totalMonthlyUsd: 3 });
+            await usageLedger.recordAnalysis({ analysisId: 'a1', patientId: 'p1', tenant: 'acme' }, usage(2));
+            await usageLedger.recordAnalysis({ analysisId: 'a2', patientId: 'p2', tenant: 'globex' }, usage(1));
+
+            const error = await usageLedger.assertWithinBudget('initech').catch(caught => caught);
+
+            expect(error).toBeInstanceOf(BudgetExceededError);
+            expect(error.message).toBe('Total usage budget exceeded for 2026-03: $3 of $3');
+            expect(error.status).toMatchObject({ tenant: 'initech', spentUsd: 0, totalSpentUsd: 3, totalLimitUsd: 3 });
+        });
+
+        it('reports each tenant against its budget', async () => {
+            const usageLedger = ledger({ tenantMonthlyUsd: 10 });
+            await usageLedger.recordAnalysis({ analysisId: 'a1', patientId: 'p1', tenant: 'acme' }, usage(1));
+            await usageLedger.recordAnalysis({ analysisId: 'a2', patientId: 'p2', tenant: 'acme' }, usage(2));
+
+            const [acme] = (await usageLedger.getReport({ tenant: 'acme' })).tenants;
+
+            expect(acme).toMatchObject({
+                averageAnalysisCostUsd: 1.5,
+                budget: { spentUsd: 3, limitUsd: 10, exceeded: false }
+            });
+        });
+    });
+});
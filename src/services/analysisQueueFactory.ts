@@ -0,0 +1,42 @@
+// src/services/analysisQueueFactory.ts
+import { config } from '../config';
+import { AnalysisQueue } from './AnalysisQueue';
+
+export type AnalysisQueueRole = 'server' | 'worker';
+
+/**
+ * Create the AnalysisQueue for an API server or a worker process. API servers only
+ * consume the queue themselves when the worker is embedded.
+ */
+export function createAnalysisQueue(role: AnalysisQueueRole): AnalysisQueue {
+    const { driver, worker } = config.analysisQueue;
+
+    // The file queue lives in one process's memory and file, so it cannot be shared
+    if (driver === 'file' && (role === 'worker' || !worker.embedded)) {
+        throw new Error('Separate analysis workers need ANALYSIS_QUEUE_DRIVER=amqp');
+    }
+
+    return new AnalysisQueue({
+        driver,
+        consume: role === 'worker' || worker.embedded,
+        consumers: {
+            concurrency: worker.concurrency,
+            prefetch: worker.prefetch
+        },
+        amqp: config.analysisQueue.amqp,
+        file: config.analysisQueue.file,
+        retry: config.analysisQueue.retry,
+        reuseUnchanged: config.analysisQueue.reuseUnchanged,
+        nft: {
+            contractAddress: process.env.NFT_CONTRACT_ADDRESS as `0x${string}`,
+            privateKey: process.env.NFT_PRIVATE_KEY as `0x${string}`,
+            chain: process.env.NFT_CHAIN_ID ? parseInt(process.env.NFT_CHAIN_ID) : 31337,
+            rpcUrl: process.env.NFT_RPC_URL || 'http://127.0.0.1:8545',
+            storage: process.env.NFT_STORAGE_TYPE as unknown as 'ipfs' | 'datauri'
+        },
+        recommendations: {
+            llm: config.llm.recommendations,
+            prompts: config.prompts
+        }
+    });
+}
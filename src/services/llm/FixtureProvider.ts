@@ -0,0 +1,83 @@
+// src/services/llm/FixtureProvider.ts
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import {
+    LLMCompletion,
+    LLMCompletionRequest,
+    LLMEmbeddings,
+    LLMError,
+    LLMProvider,
+    LLMProviderConfig
+} from './LLMProvider';
+import { DEFAULT_FIXTURES, FixtureRule, Fixtures } from './fixtures';
+import { estimateTokens } from './usage';
+
+const EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Answers from canned fixtures instead of a model, so tests and offline deployments get
+ * the same response for the same prompt every time. Fixtures from fixturesPath are tried
+ * before the built-in ones. Embeddings are hashed word counts, so texts sharing words
+ * are still similar.
+ */
+export class FixtureProvider implements LLMProvider {
+    readonly name = 'fixture' as const;
+    readonly model: string;
+    private readonly fixtures: Fixtures;
+
+    constructor(config: Pick<LLMProviderConfig, 'model' | 'fixturesPath'>) {
+        this.model = config.model || 'fixture';
+        this.fixtures = { ...DEFAULT_FIXTURES };
+
+        if (config.fixturesPath) {
+            const loaded = JSON.parse(readFileSync(config.fixturesPath, 'utf8')) as Fixtures;
+            for (const [task, rules] of Object.entries(loaded)) {
+                if (!Array.isArray(rules)) {
+                    throw new LLMError(`Fixtures of task ${task} in ${config.fixturesPath} must be a list of rules`);
+                }
+                this.fixtures[task] = [...rules, ...(this.fixtures[task] || [])];
+            }
+        }
+    }
+
+    async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+        if (request.signal?.aborted) {
+            throw new LLMError('Completion cancelled');
+        }
+
+        const prompt = request.messages.map(message => message.content).join('\n');
+        const rule = (this.fixtures[request.task] || [])
+            .find((candidate: FixtureRule) => !candidate.match || prompt.includes(candidate.match));
+        if (!rule) {
+            throw new LLMError(`No fixture matches task ${request.task}`);
+        }
+
+        const content = typeof rule.response === 'string' ? rule.response : JSON.stringify(rule.response);
+        return {
+            content,
+            model: this.model,
+            usage: {
+                inputTokens: estimateTokens(prompt),
+                outputTokens: estimateTokens(content)
+            }
+        };
+    }
+
+    async embed(texts: string[]): Promise<LLMEmbeddings> {
+        return {
+            vectors: texts.map(embedText),
+            usage: { inputTokens: estimateTokens(texts.join('\n')), outputTokens: 0 }
+        };
+    }
+}
+
+function embedText(text: string): number[] {
+    const vector: number[] = new Array(EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+        const index = createHash('sha256').update(word).digest().readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+        vector[index] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+}
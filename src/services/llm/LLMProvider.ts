@@ -0,0 +1,86 @@
+// src/services/llm/LLMProvider.ts
+import type { PromptRef } from './PromptRegistry';
+import type { ModelPrice } from '../../knowledge/modelPrices';
+
+// openai-compatible covers local servers with an OpenAI-style API, such as llama.cpp or Ollama
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'fixture';
+
+export interface LLMProviderConfig {
+    provider: LLMProviderName;
+    model: string;
+    // Required for openai-compatible; overrides the OpenAI API URL for openai
+    baseUrl?: string;
+    // Required for openai; optional for local servers
+    apiKey?: string;
+    organizationId?: string;
+    timeoutMs?: number;
+    // JSON file of canned responses for the fixture provider, keyed by task
+    fixturesPath?: string;
+    // Times a call site sends an invalid structured response back for correction
+    maxRepairs?: number;
+    // Prices by model name, over the built-in list prices
+    prices?: Record<string, ModelPrice>;
+}
+
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LLMCompletionRequest {
+    // What the completion is for, e.g. 'recommendations'; fixtures are looked up by it
+    task: string;
+    messages: LLMMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    // Ask for a JSON object as the response
+    json?: boolean;
+    signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface LLMCompletion {
+    content: string;
+    // The model that answered, as reported by the provider
+    model: string;
+    usage?: LLMUsage;
+}
+
+export interface LLMEmbeddings {
+    // One vector per text, in order
+    vectors: number[][];
+    usage?: LLMUsage;
+}
+
+// How a model output was produced, so a changed result can be traced to the data, the
+// prompts or the model
+export interface GenerationRecord {
+    provider: LLMProviderName;
+    model: string;
+    // Model version reported by the provider, when it differs from model
+    responseModel?: string;
+    temperature: number;
+    prompts: PromptRef[];
+}
+
+/**
+ * A chat completion and embedding backend. Call sites only talk to this interface, so
+ * each one can be pointed at a hosted, local or fixture provider.
+ */
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+    readonly model: string;
+    complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+    embed(texts: string[]): Promise<LLMEmbeddings>;
+}
+
+export class LLMError extends Error {
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = 'LLMError';
+    }
+}
@@ -0,0 +1,65 @@
+// src/services/llm/MeteredProvider.ts
+import {
+    LLMCompletion,
+    LLMCompletionRequest,
+    LLMEmbeddings,
+    LLMProvider,
+    LLMProviderName,
+    LLMUsage
+} from './LLMProvider';
+import { currentUsageMeter, estimateCost, estimateTokens } from './usage';
+import { ModelPrice } from '../../knowledge/modelPrices';
+
+/**
+ * Records the tokens and estimated cost of every call of a provider in the active usage
+ * meter, if there is one
+ */
+export class MeteredProvider implements LLMProvider {
+    readonly name: LLMProviderName;
+    readonly model: string;
+
+    constructor(
+        private readonly provider: LLMProvider,
+        private readonly prices?: Record<string, ModelPrice>
+    ) {
+        this.name = provider.name;
+        this.model = provider.model;
+    }
+
+    async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+        const completion = await this.provider.complete(request);
+        this.record(request.task, completion.model, completion.usage, () => ({
+            inputTokens: estimateTokens(request.messages.map(message => message.content).join('\n')),
+            outputTokens: estimateTokens(completion.content)
+        }));
+        return completion;
+    }
+
+    async embed(texts: string[]): Promise<LLMEmbeddings> {
+        const embeddings = await this.provider.embed(texts);
+        if (texts.length > 0) {
+            this.record('embeddings', this.model, embeddings.usage, () => ({
+                inputTokens: estimateTokens(texts.join('\n')),
+                outputTokens: 0
+            }));
+        }
+        return embeddings;
+    }
+
+    private record(task: string, model: string, reported: LLMUsage | undefined, estimate: () => LLMUsage): void {
+        const meter = currentUsageMeter();
+        if (!meter) return;
+
+        const usage = reported || estimate();
+        meter.record({
+            task,
+            provider: this.name,
+            model,
+            inputTokens: usage.inputTokens,
+            outputTokens: usage.outputTokens,
+            ...(!reported && { estimatedTokens: true }),
+            ...estimateCost(this.name, model, usage, this.prices),
+            at: new Date().toISOString()
+        });
+    }
+}
@@ -0,0 +1,117 @@
+// src/services/llm/OpenAIProvider.ts
+import OpenAI from 'openai';
+import {
+    LLMCompletion,
+    LLMCompletionRequest,
+    LLMEmbeddings,
+    LLMError,
+    LLMProvider,
+    LLMProviderConfig
+} from './LLMProvider';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * The OpenAI API, or any server implementing its chat completions and embeddings
+ * endpoints (llama.cpp server, Ollama, vLLM, ...)
+ */
+export class OpenAIProvider implements LLMProvider {
+    readonly name: 'openai' | 'openai-compatible';
+    readonly model: string;
+    private client: OpenAI;
+
+    constructor(config: LLMProviderConfig) {
+        if (config.provider !== 'openai' && config.provider !== 'openai-compatible') {
+            throw new LLMError(`OpenAIProvider cannot serve the ${config.provider} provider`);
+        }
+        if (config.provider === 'openai' && !config.apiKey) {
+            throw new LLMError('The openai LLM provider needs an API key');
+        }
+        if (config.provider === 'openai-compatible' && !config.baseUrl) {
+            throw new LLMError('The openai-compatible LLM provider needs a base URL');
+        }
+
+        this.name = config.provider;
+        this.model = config.model;
+        this.client = new OpenAI({
+            // Local servers usually ignore the key, but the client insists on one
+            apiKey: config.apiKey || 'none',
+            baseURL: config.baseUrl,
+            organization: config.organizationId,
+            timeout: config.timeoutMs || DEFAULT_TIMEOUT_MS,
+            maxRetries: 0 // Call sites handle retries
+        });
+    }
+
+    async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+        try {
+            const completion = await this.client.chat.completions.create({
+                model: this.model,
+                messages: request.messages,
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+                ...(request.json && { response_format: { type: 'json_object' as const } })
+            }, { signal: request.signal });
+
+            const content = completion.choices[0]?.message?.content;
+            if (!content) {
+                throw new LLMError(`${this.label()} returned empty content`);
+            }
+
+            return {
+                content,
+                model: completion.model || this.model,
+                ...(completion.usage && {
+                    usage: {
+                        inputTokens: completion.usage.prompt_tokens,
+                        outputTokens: completion.usage.completion_tokens
+                    }
+                })
+            };
+        } catch (error) {
+            throw this.toError(error);
+        }
+    }
+
+    async embed(texts: string[]): Promise<LLMEmbeddings> {
+        if (texts.length === 0) return { vectors: [] };
+
+        try {
+            const response = await this.client.embeddings.create({ model: this.model, input: texts });
+            return {
+                vectors: response.data
+                    .sort((a, b) => a.index - b.index)
+                    .map(item => item.embedding),
+                ...(response.usage && {
+                    usage: { inputTokens: response.usage.prompt_tokens, outputTokens: 0 }
+                })
+            };
+        } catch (error) {
+            throw this.toError(error);
+        }
+    }
+
+    private toError(error: unknown): unknown {
+        // Cancellations are passed through for the caller to recognize
+        if (!(error instanceof OpenAI.APIError) || error instanceof OpenAI.APIUserAbortError) {
+            return error;
+        }
+
+        switch (error.status) {
+            case 429:
+                return new LLMError('Rate limit exceeded. Please try again later.', 429);
+            case 400:
+                return new LLMError('Invalid request format: ' + error.message, 400);
+            case 401:
+                return new LLMError('Authentication error. Check API key configuration.', 401);
+            case 500:
+                return new LLMError(`${this.label()} service error. Please try again later.`, 500);
+            default:
+                return new LLMError(`${this.label()} API error: ${error.message}`, error.status);
+        }
+    }
+
+    private label(): string {
+        return this.name === 'openai' ? 'OpenAI' : 'LLM server';
+    }
+}
@@ -0,0 +1,151 @@
+// src/services/llm/PromptRegistry.ts
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { DEFAULT_PROMPTS } from './prompts';
+
+export interface PromptDefinition {
+    id: string;
+    // Semantic version; the highest version of an id wins
+    version: string;
+    // Only used for requests of this tenant
+    tenant?: string;
+    template: string;
+}
+
+// The exact prompt a completion was made with
+export interface PromptRef {
+    id: string;
+    version: string;
+    tenant?: string;
+}
+
+export interface RenderedPrompt {
+    text: string;
+    ref: PromptRef;
+}
+
+// The tenant a request's prompts are resolved for, and the prompts it has rendered
+export interface PromptScope {
+    tenant?: string;
+    used: PromptRef[];
+}
+
+export interface PromptRegistryConfig {
+    // Directory of JSON files, each holding a prompt definition or a list of them
+    directory?: string;
+}
+
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/;
+
+/**
+ * Prompt templates by id. The built-in prompts can be replaced by higher versions or
+ * per-tenant variants loaded from a directory, so a prompt change never needs a code change.
+ */
+export class PromptRegistry {
+    // id -> definitions, highest version first
+    private prompts: Map<string, PromptDefinition[]> = new Map();
+
+    constructor(config: PromptRegistryConfig = {}) {
+        DEFAULT_PROMPTS.forEach(prompt => this.register(prompt));
+
+        if (config.directory) {
+            this.loadDirectory(config.directory);
+        }
+    }
+
+    register(prompt: PromptDefinition): void {
+        validatePrompt(prompt);
+        const versions = (this.prompts.get(prompt.id) || [])
+            .filter(existing => existing.version !== prompt.version || existing.tenant !== prompt.tenant);
+        versions.push(prompt);
+        versions.sort((a, b) => compareVersions(b.version, a.version));
+        this.prompts.set(prompt.id, versions);
+    }
+
+    /**
+     * The highest version of a prompt for a tenant, falling back to the highest version
+     * shared by all tenants
+     */
+    get(id: string, tenant?: string): PromptDefinition {
+        const versions = this.prompts.get(id) || [];
+        const prompt = (tenant && versions.find(candidate => candidate.tenant === tenant))
+            || versions.find(candidate => !candidate.tenant);
+        if (!prompt) {
+            throw new Error(`Unknown prompt: ${id}`);
+        }
+        return prompt;
+    }
+
+    render(id: string, values: Record<string, string>, tenant?: string): RenderedPrompt {
+        const prompt = this.get(id, tenant);
+        const text = prompt.template.replace(/\{\{|\}\}|\{(\w+)\}/g, (match, name?: string) => {
+            if (!name) return match[0];
+            if (!(name in values)) {
+                throw new Error(`Prompt ${id} ${prompt.version} needs a value for {${name}}`);
+            }
+            return values[name];
+        });
+
+        return {
+            text,
+            ref: { id: prompt.id, version: prompt.version, ...(prompt.tenant && { tenant: prompt.tenant }) }
+        };
+    }
+
+    /**
+     * Render for the tenant of scope, recording each prompt version in it once
+     */
+    renderIn(scope: PromptScope, id: string, values: Record<string, string>): RenderedPrompt {
+        const rendered = this.render(id, values, scope.tenant);
+        const { ref } = rendered;
+        if (!scope.used.some(used => used.id === ref.id && used.version === ref.version && used.tenant === ref.tenant)) {
+            scope.used.push(ref);
+        }
+        return rendered;
+    }
+
+    private loadDirectory(directory: string): void {
+        const files = readdirSync(directory).filter(file => file.endsWith('.json')).sort();
+        for (const file of files) {
+            const path = join(directory, file);
+            const loaded = JSON.parse(readFileSync(path, 'utf8'));
+            try {
+                (Array.isArray(loaded) ? loaded : [loaded]).forEach(prompt => this.register(prompt));
+            } catch (error) {
+                throw new Error(`Invalid prompt in ${path}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+        console.log(`Loaded ${files.length} prompt files from ${directory}`);
+    }
+}
+
+function validatePrompt(prompt: PromptDefinition): void {
+    if (!prompt || typeof prompt.id !== 'string' || !prompt.id) {
+        throw new Error('id must be a non-empty string');
+    }
+    if (typeof prompt.version !== 'string' || !SEMVER.test(prompt.version)) {
+        throw new Error(`version of ${prompt.id} must be a semantic version such as 1.2.0`);
+    }
+    if (typeof prompt.template !== 'string' || !prompt.template.trim()) {
+        throw new Error(`template of ${prompt.id} must be a non-empty string`);
+    }
+    if (prompt.tenant !== undefined && (typeof prompt.tenant !== 'string' || !prompt.tenant)) {
+        throw new Error(`tenant of ${prompt.id} must be a non-empty string`);
+    }
+}
+
+// Semantic version precedence; a pre-release sorts below its release
+function compareVersions(a: string, b: string): number {
+    const [, ...left] = a.match(SEMVER) as RegExpMatchArray;
+    const [, ...right] = b.match(SEMVER) as RegExpMatchArray;
+
+    for (let i = 0; i < 3; i++) {
+        const difference = Number(left[i]) - Number(right[i]);
+        if (difference !== 0) return difference;
+    }
+
+    if (left[3] === right[3]) return 0;
+    if (!left[3]) return 1;
+    if (!right[3]) return -1;
+    return left[3] < right[3] ? -1 : 1;
+}
@@ -0,0 +1,22 @@
+// src/services/llm/ProviderEmbeddings.ts
+import { Embeddings } from '@langchain/core/embeddings';
+import { LLMProvider } from './LLMProvider';
+
+/**
+ * Lets LangChain vector stores embed through an LLMProvider
+ */
+export class ProviderEmbeddings extends Embeddings {
+    constructor(private readonly provider: LLMProvider) {
+        super({});
+    }
+
+    async embedDocuments(documents: string[]): Promise<number[][]> {
+        const { vectors } = await this.caller.call(() => this.provider.embed(documents));
+        return vectors;
+    }
+
+    async embedQuery(document: string): Promise<number[]> {
+        const { vectors: [vector] } = await this.caller.call(() => this.provider.embed([document]));
+        return vector;
+    }
+}
@@ -0,0 +1,97 @@
+// src/services/llm/__tests__/FixtureProvider.test.ts
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FixtureProvider } from '../FixtureProvider';
+import { LLMError } from '../LLMProvider';
+import { Fixtures } from '../fixtures';
+
+const ask = (provider: FixtureProvider, task: string, content: string) =>
+    provider.complete({ task, messages: [{ role: 'user', content }] });
+
+describe('FixtureProvider', () => {
+    let dir: string;
+
+    const withFixtures = async (fixtures: unknown) => {
+        const fixturesPath = path.join(dir, 'fixtures.json');
+        await fs.writeFile(fixturesPath, JSON.stringify(fixtures));
+        return new FixtureProvider({ model: 'canned', fixturesPath });
+    };
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-fixtures-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('answers built-in tasks without a fixtures file', async () => {
+        const provider = new FixtureProvider({ model: 'fixture' });
+
+        const completion = await ask(provider, 'genesis-perspectives', 'Analysis ID: 1');
+
+        expect(JSON.parse(completion.content)).toHaveLength(2);
+        expect(completion.usage?.inputTokens).toBeGreaterThan(0);
+    });
+
+    it('takes the first rule whose match text appears in the prompt', async () => {
+        const fixtures: Fixtures = {
+            'chat-answer': [
+                { match: 'potassium', response: 'Potassium is high.' },
+                { match: 'sodium', response: 'Sodium is normal.' },
+                { response: 'No idea.' }
+            ]
+        };
+        const provider = await withFixtures(fixtures);
+
+        expect((await ask(provider, 'chat-answer', 'What is the sodium and potassium?')).content).toBe('Potassium is high.');
+        expect((await ask(provider, 'chat-answer', 'What is the sodium?')).content).toBe('Sodium is normal.');
+        expect((await ask(provider, 'chat-answer', 'How are you?')).content).toBe('No idea.');
+    });
+
+    it('tries file fixtures before the built-in ones and returns objects as JSON', async () => {
+        const provider = await withFixtures({ 'chat-specialties': [{ match: 'kidney', response: [{ specialty: 'Nephrology' }] }] });
+
+        const matched = await ask(provider, 'chat-specialties', 'Worried about kidney function');
+        const fallback = await ask(provider, 'chat-specialties', 'Anything else');
+
+        expect(matched).toMatchObject({ content: '[{"specialty":"Nephrology"}]', model: 'canned' });
+        expect(JSON.parse(fallback.content)[0].specialty).toBe('Internist');
+    });
+
+    it('fails for a task without a matching fixture', async () => {
+        const provider = await withFixtures({ 'custom-task': [{ match: 'only this', response: 'ok' }] });
+
+        await expect(ask(provider, 'custom-task', 'something else')).rejects.toThrow(new LLMError('No fixture matches task custom-task'));
+        await expect(ask(provider, 'unknown-task', 'hello')).rejects.toThrow('No fixture matches task unknown-task');
+    });
+
+    it('rejects a fixtures file whose task is not a list of rules', async () => {
+        await expect(withFixtures({ 'chat-answer': { response: 'ok' } }))
+            .rejects.toThrow('Fixtures of task chat-answer');
+    });
+
+    it('refuses a cancelled completion', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(new FixtureProvider({ model: 'fixture' }).complete({
+            task: 'chat-answer',
+            messages: [{ role: 'user', content: 'hello' }],
+            signal: controller.signal
+        })).rejects.toThrow('Completion cancelled');
+    });
+
+    it('embeds texts sharing words closer than unrelated ones', async () => {
+        const { vectors } = await new FixtureProvider({ model: 'fixture' }).embed([
+            'chronic kidney disease stage 3',
+            'kidney disease follow up',
+            'ankle sprain'
+        ]);
+        const similarity = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+        expect(similarity(vectors[0], vectors[1])).toBeGreaterThan(similarity(vectors[0], vectors[2]));
+        expect(similarity(vectors[0], vectors[0])).toBeCloseTo(1);
+    });
+});
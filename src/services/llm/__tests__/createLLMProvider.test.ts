@@ -0,0 +1,37 @@
+// src/services/llm/__tests__/createLLMProvider.test.ts
+import { createLLMProvider } from '../createLLMProvider';
+import { LLMError, LLMProviderConfig, LLMProviderName } from '../LLMProvider';
+import { UsageMeter, meterUsage } from '../usage';
+
+describe('createLLMProvider', () => {
+    it('selects the fixture provider and meters its calls', async () => {
+        const provider = createLLMProvider({ provider: 'fixture', model: 'fixture' });
+        const meter = new UsageMeter();
+
+        await meterUsage(meter, () => provider.complete({ task: 'chat-answer', messages: [{ role: 'user', content: 'hello' }] }));
+
+        expect(provider.name).toBe('fixture');
+        expect(meter.calls).toEqual([expect.objectContaining({ task: 'chat-answer', model: 'fixture' })]);
+        // Fixtures cost nothing
+        expect(meter.totals().costUsd).toBe(0);
+    });
+
+    it('selects an OpenAI-compatible server by its base URL, without an API key', () => {
+        const provider = createLLMProvider({
+            provider: 'openai-compatible',
+            model: 'llama-3.1-8b-instruct',
+            baseUrl: 'http://localhost:8080/v1'
+        });
+
+        expect(provider).toMatchObject({ name: 'openai-compatible', model: 'llama-3.1-8b-instruct' });
+    });
+
+    it.each<[string, LLMProviderConfig, string]>([
+        ['openai-compatible without a base URL', { provider: 'openai-compatible', model: 'llama' }, 'needs a base URL'],
+        ['openai without an API key', { provider: 'openai', model: 'gpt-4o' }, 'needs an API key'],
+        ['an unknown provider', { provider: 'vertex' as LLMProviderName, model: 'gemini' }, 'Unknown LLM provider: vertex']
+    ])('rejects %s', (_case, config, message) => {
+        expect(() => createLLMProvider(config)).toThrow(LLMError);
+        expect(() => createLLMProvider(config)).toThrow(message);
+    });
+});
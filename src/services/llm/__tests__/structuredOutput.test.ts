@@ -0,0 +1,128 @@
+// src/services/llm/__tests__/structuredOutput.test.ts
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { FixtureProvider } from '../FixtureProvider';
+import { Fixtures } from '../fixtures';
+import { LLMValidationError, completeStructured, parseJsonContent } from '../structuredOutput';
+
+const referralSchema = z.object({
+    specialty: z.string(),
+    confidence: z.number().min(0).max(1)
+});
+
+const REPAIR_REQUEST = 'Your response did not match the required format';
+const request = { task: 'referral', messages: [{ role: 'user' as const, content: 'Which specialist should see this patient?' }] };
+
+describe('completeStructured', () => {
+    let dir: string;
+
+    const provider = async (fixtures: Fixtures) => {
+        const fixturesPath = path.join(dir, 'fixtures.json');
+        await fs.writeFile(fixturesPath, JSON.stringify(fixtures));
+        const llm = new FixtureProvider({ model: 'fixture', fixturesPath });
+        return { llm, complete: jest.spyOn(llm, 'complete') };
+    };
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'structured-output-'));
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    it('accepts a valid response on the first attempt', async () => {
+        const { llm, complete } = await provider({ referral: [{ response: { specialty: 'Nephrology', confidence: 0.8 } }] });
+
+        const result = await completeStructured(llm, request, referralSchema);
+
+        expect(result).toEqual({ value: { specialty: 'Nephrology', confidence: 0.8 }, model: 'fixture', validationFailures: [] });
+        expect(complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('extracts JSON from a Markdown code fence', async () => {
+        const { llm } = await provider({
+            referral: [{ response: 'Here is my answer:\n```json\n{ "specialty": "Cardiology", "confidence": 0.6 }\n```\nThanks.' }]
+        });
+
+        const { value } = await completeStructured(llm, request, referralSchema);
+
+        expect(value).toEqual({ specialty: 'Cardiology', confidence: 0.6 });
+    });
+
+    it('sends an invalid response back with the zod issues and takes the repaired one', async () => {
+        const { llm, complete } = await provider({
+            referral: [
+                { match: REPAIR_REQUEST, response: { specialty: 'Nephrology', confidence: 0.7 } },
+                { response: { specialty: 'Nephrology', confidence: 7 } }
+            ]
+        });
+
+        const result = await completeStructured(llm, request, referralSchema);
+
+        expect(result.value).toEqual({ specialty: 'Nephrology', confidence: 0.7 });
+        expect(result.validationFailures).toEqual([{
+            attempt: 1,
+            errors: [expect.stringMatching(/^confidence: Number must be less than or equal to 1/)],
+            at: expect.any(String)
+        }]);
+
+        const repair = complete.mock.calls[1][0].messages;
+        expect(repair).toHaveLength(3);
+        expect(repair[1]).toEqual({ role: 'assistant', content: '{"specialty":"Nephrology","confidence":7}' });
+        expect(repair[2].content).toContain(`${REPAIR_REQUEST}:\n- confidence: Number must be less than or equal to 1`);
+    });
+
+    it('reports responses that are not JSON', async () => {
+        const { llm } = await provider({
+            referral: [
+                { match: REPAIR_REQUEST, response: { specialty: 'Neurology', confidence: 0.5 } },
+                { response: 'I would suggest a neurologist.' }
+            ]
+        });
+
+        const { validationFailures } = await completeStructured(llm, request, referralSchema);
+
+        expect(validationFailures[0].errors).toEqual([expect.stringMatching(/^response is not valid JSON/)]);
+    });
+
+    it('gives up with an LLMValidationError after maxRepairs repairs', async () => {
+        const { llm, complete } = await provider({ referral: [{ response: { specialty: 42 } }] });
+
+        const failure = await completeStructured(llm, request, referralSchema, 2).catch(error => error);
+
+        expect(failure).toBeInstanceOf(LLMValidationError);
+        expect(failure.message).toMatch(/^Invalid referral response after 3 attempts: specialty: Expected string, received number/);
+        expect(failure.failures.map((validation: { attempt: number }) => validation.attempt)).toEqual([1, 2, 3]);
+        expect(failure.failures[0].errors).toEqual([
+            'specialty: Expected string, received number',
+            'confidence: Required'
+        ]);
+        expect(complete).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not repair when maxRepairs is 0', async () => {
+        const { llm, complete } = await provider({ referral: [{ response: [] }] });
+
+        await expect(completeStructured(llm, request, referralSchema, 0)).rejects.toThrow(LLMValidationError);
+        expect(complete).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('parseJsonContent', () => {
+    it.each([
+        ['bare JSON', ' {"a": 1} ', { a: 1 }],
+        ['a json fence', '```json\n{"a": 1}\n```', { a: 1 }],
+        ['an unlabelled fence', 'Result:\n```\n[1, 2]\n```', [1, 2]]
+    ])('parses %s', (_case, content, expected) => {
+        expect(parseJsonContent(content)).toEqual(expected);
+    });
+
+    it('throws for text that is not JSON', () => {
+        expect(() => parseJsonContent('not json')).toThrow(SyntaxError);
+    });
+});
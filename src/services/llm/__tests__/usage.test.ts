@@ -0,0 +1,77 @@
+// src/services/llm/__tests__/usage.test.ts
+import { LLMCallUsage, UsageMeter, addUsage, currentUsageMeter, emptyUsage, estimateCost, meterUsage } from '../usage';
+
+const MILLION = { inputTokens: 1_000_000, outputTokens: 1_000_000 };
+
+describe('estimateCost', () => {
+    it.each([
+        ['gpt-4o', 12.5],
+        ['gpt-4o-2024-08-06', 12.5],
+        // gpt-4o-mini is listed, so it is not priced as gpt-4o
+        ['gpt-4o-mini-2024-07-18', 0.75],
+        ['gpt-4.1-nano', 0.5]
+    ])('prices %s by its longest listed prefix', (model, costUsd) => {
+        expect(estimateCost('openai', model, MILLION)).toEqual({ costUsd, priced: true });
+    });
+
+    it('only matches whole name segments', () => {
+        expect(estimateCost('openai', 'gpt-4omni', MILLION)).toEqual({ costUsd: 0, priced: false });
+    });
+
+    it('leaves models without a price unpriced', () => {
+        expect(estimateCost('openai-compatible', 'llama-3.1-8b-instruct', MILLION)).toEqual({ costUsd: 0, priced: false });
+    });
+
+    it('takes configured prices over the list prices', () => {
+        const prices = { 'llama-3.1': { input: 0.05, output: 0.1 } };
+
+        expect(estimateCost('openai-compatible', 'llama-3.1-8b-instruct', MILLION, prices)).toEqual({ costUsd: 0.15, priced: true });
+    });
+
+    it('never charges for fixtures', () => {
+        expect(estimateCost('fixture', 'gpt-4o', MILLION)).toEqual({ costUsd: 0, priced: true });
+    });
+
+    it('rounds to micro-dollars', () => {
+        expect(estimateCost('openai', 'gpt-4o-mini', { inputTokens: 7, outputTokens: 3 }).costUsd).toBe(0.000003);
+    });
+});
+
+describe('usage meters', () => {
+    const call = (overrides: Partial<LLMCallUsage> = {}): LLMCallUsage => ({
+        task: 'recommendations',
+        provider: 'openai',
+        model: 'gpt-4o',
+        inputTokens: 100,
+        outputTokens: 50,
+        costUsd: 0.00075,
+        priced: true,
+        at: '2026-03-01T00:00:00Z',
+        ...overrides
+    });
+
+    it('totals calls and counts unpriced ones', () => {
+        const meter = new UsageMeter();
+        meter.record(call());
+        meter.record(call({ model: 'llama', costUsd: 0, priced: false }));
+
+        expect(meter.totals()).toEqual({ calls: 2, inputTokens: 200, outputTokens: 100, costUsd: 0.00075, unpricedCalls: 1 });
+        expect(addUsage(meter.totals(), meter.totals())).toMatchObject({ calls: 4, costUsd: 0.0015, unpricedCalls: 2 });
+        expect(addUsage(emptyUsage(), call()).calls).toBe(1);
+    });
+
+    it('keeps the meters of concurrent work apart', async () => {
+        const first = new UsageMeter();
+        const second = new UsageMeter();
+        const work = async (task: string) => {
+            await new Promise(resolve => setTimeout(resolve, 5));
+            currentUsageMeter()?.record(call({ task }));
+        };
+
+        await Promise.all([meterUsage(first, () => work('first')), meterUsage(second, () => work('second'))]);
+
+        expect(first.calls.map(recorded => recorded.task)).toEqual(['first']);
+        expect(second.calls.map(recorded => recorded.task)).toEqual(['second']);
+        expect(currentUsageMeter()).toBeUndefined();
+    });
+});
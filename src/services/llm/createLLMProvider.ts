@@ -0,0 +1,23 @@
+// src/services/llm/createLLMProvider.ts
+import { LLMError, LLMProvider, LLMProviderConfig } from './LLMProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { FixtureProvider } from './FixtureProvider';
+import { MeteredProvider } from './MeteredProvider';
+import { MODEL_PRICES } from '../../knowledge/modelPrices';
+
+// Providers record their usage in the active usage meter
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+    return new MeteredProvider(createProvider(config), { ...MODEL_PRICES, ...config.prices });
+}
+
+function createProvider(config: LLMProviderConfig): LLMProvider {
+    switch (config.provider) {
+        case 'openai':
+        case 'openai-compatible':
+            return new OpenAIProvider(config);
+        case 'fixture':
+            return new FixtureProvider(config);
+        default:
+            throw new LLMError(`Unknown LLM provider: ${config.provider}`);
+    }
+}
@@ -0,0 +1,89 @@
+// src/services/llm/fixtures.ts
+
+/**
+ * A canned response. Rules of a task are tried in order; the first whose match text
+ * appears in the prompt (or that has no match) answers. Strings are returned as they
+ * are, anything else as JSON.
+ */
+export interface FixtureRule {
+    match?: string;
+    response: unknown;
+}
+
+// task -> rules
+export type Fixtures = Record<string, FixtureRule[]>;
+
+const FIXTURE_NOTE = 'Fixture response: no language model was consulted.';
+
+// Responses for every task in this service, so the whole pipeline runs without a model
+export const DEFAULT_FIXTURES: Fixtures = {
+    recommendations: [{
+        response: {
+            specialists: [{
+                specialty: 'Internal Medicine',
+                code: '419192003',
+                justification: FIXTURE_NOTE,
+                priority: 'routine',
+                confidence: 0.5,
+                timeframe: '4-12 weeks',
+                evidenceLevel: 'low',
+                guidelines: []
+            }],
+            reasoning: FIXTURE_NOTE,
+            riskFactors: [],
+            confidenceMetrics: {
+                overallConfidence: 0.5,
+                dataCompleteness: 0.5,
+                guidelineAdherence: 0.5
+            }
+        }
+    }],
+    'genesis-perspectives': [{
+        response: [
+            { perspective: 'Primary Care', instruction: 'Review the overall care plan and preventive needs.' },
+            { perspective: 'Care Coordination', instruction: 'Identify follow-ups and referrals that are due.' }
+        ]
+    }],
+    'genesis-perspective': [{
+        response: FIXTURE_NOTE
+    }],
+    'genesis-synthesis': [{
+        response: {
+            summary: {
+                patientOverview: { age: 0, gender: 'unknown', chronicConditions: [] },
+                careApproach: FIXTURE_NOTE
+            },
+            recommendations: {
+                patientEngagement: [],
+                interdisciplinaryCoordination: [],
+                preventiveHealthFocus: [],
+                specialistReferrals: []
+            },
+            riskFactors: []
+        }
+    }],
+    'chat-answer': [{
+        response: FIXTURE_NOTE
+    }],
+    'chat-specialties': [{
+        response: [{ specialty: 'Internist', relevance: 0.5, reasoning: FIXTURE_NOTE }]
+    }],
+    'chat-consultation': [{
+        response: {
+            specialty: 'Internist',
+            analysis: FIXTURE_NOTE,
+            recommendations: [],
+            confidence: 0.5
+        }
+    }],
+    'chat-summary': [{
+        response: {
+            primarySpecialist: 'Internist',
+            consultingSpecialists: ['Internist'],
+            diagnosis: FIXTURE_NOTE,
+            recommendations: [],
+            followUpSuggestions: [],
+            patientNotes: FIXTURE_NOTE
+        }
+    }]
+};
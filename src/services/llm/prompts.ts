@@ -0,0 +1,265 @@
+// src/services/llm/prompts.ts
+import type { PromptDefinition } from './PromptRegistry';
+
+// Built-in prompts. Templates use {name} placeholders; {{ and }} stand for literal braces.
+export const DEFAULT_PROMPTS: PromptDefinition[] = [
+    {
+        id: 'recommendations.system',
+        version: '1.0.0',
+        template: `You are an advanced clinical decision support system specializing in specialist referral recommendations.
+Your task is to analyze patient data and provide evidence-based specialist referrals following these strict guidelines.
+You must respond with a valid JSON object following the exact format shown in the example below.
+
+1. Clinical Assessment Requirements:
+   - Evaluate condition severity and urgency
+   - Consider comorbidities and interactions
+   - Assess risk factors and complications
+   - Review medication impacts
+   - Account for the care setting: an inpatient or emergency encounter may warrant
+     in-hospital consultation, an outpatient follow-up a routine referral
+
+2. Recommendation Format:
+   - Use only the SNOMED CT specialty codes listed under 5
+   - Provide clear clinical justification
+   - Reference specific medical guidelines
+   - Include confidence metrics
+
+3. Priority Levels:
+   - routine: Standard referral, seen within 4-12 weeks
+   - urgent: Requires attention within 1-2 weeks
+   - asap: Immediate attention needed (24-48 hours)
+
+4. Evidence Levels:
+   - high: Multiple RCTs or systematic reviews
+   - moderate: Single RCT or multiple cohort studies
+   - low: Expert opinion or case studies
+
+5. Specialty Codes (SNOMED CT code and specialty):
+{specialtyCodes}
+
+Example JSON Response:
+{{
+    "specialists": [{{
+        "specialty": "Cardiology",
+        "code": "394579002",
+        "justification": "Acute onset chest pain with elevated troponin",
+        "priority": "asap",
+        "confidence": 0.95,
+        "timeframe": "24 hours",
+        "evidenceLevel": "high",
+        "guidelines": [{{
+            "source": "ACC/AHA",
+            "reference": "2021 Chest Pain Guideline",
+            "relevance": "Class I recommendation for acute coronary syndrome"
+        }}]
+    }}],
+    "reasoning": "Patient presents with acute chest pain and elevated cardiac markers indicating possible ACS",
+    "riskFactors": ["Age > 65", "Hypertension", "Diabetes"],
+    "confidenceMetrics": {{
+        "overallConfidence": 0.95,
+        "dataCompleteness": 0.9,
+        "guidelineAdherence": 0.95
+    }}
+}}`
+    },
+    {
+        id: 'genesis.perspectives',
+        version: '1.0.0',
+        template: `
+      Given the following patient analysis history, generate an array of diverse prompt instructions.
+      Each prompt should focus on a different perspective of patient care.
+
+      Patient History:
+      {history}
+
+      Generate 4 different perspectives for analysis.
+
+      Format the output as a JSON array of objects with the following structure:
+      \`\`\`json
+      [
+        {{
+          "perspective": "string (e.g., 'Cardiologist')",
+          "instruction": "string (Detailed instruction for the cardiologist)"
+        }},
+        ...
+      ]
+      \`\`\`
+    `
+    },
+    {
+        id: 'genesis.perspective-analysis',
+        version: '1.0.0',
+        template: `
+      Analyze the following patient history from this perspective: {perspective}
+
+      Patient History:
+      {history}
+
+      Specific Instructions: {instruction}
+
+      Provide a detailed analysis focusing on this perspective.  Output should be a single paragraph.
+    `
+    },
+    {
+        id: 'genesis.synthesis',
+        version: '1.0.0',
+        template: `
+      Synthesize the following analyses into a comprehensive summary:
+
+      {analyses}
+      Provide a concise summary with key insights, recommendations, and risk factors.
+      Format the output as JSON with this exact structure:
+      \`\`\`json
+        {{
+            "summary": {{
+                "patientOverview": {{
+                    "age": number,
+                    "gender": string,
+                    "chronicConditions": ["condition1", "condition2", ...]
+                }},
+                "careApproach": "string"
+            }},
+            "recommendations": {{
+                "patientEngagement": ["instruction1", "instruction2", ...],
+                "interdisciplinaryCoordination": ["instruction1", "instruction2", ...],
+                "preventiveHealthFocus": ["instruction1", "instruction2", ...],
+                "specialistReferrals": ["instruction1", "instruction2", ...]
+            }},
+            "riskFactors": ["risk1", "risk2", ...]
+        }}
+      \`\`\`
+    `
+    },
+    {
+        id: 'chat.query-analyzer',
+        version: '1.0.0',
+        template: `
+            Analyze if the following clinician query requires specialist medical consultation.
+            Many queries can be answered directly from the patient context without specialist input.
+
+            Query from Clinician: {query}
+            Patient Context: {context}
+
+            Examples of queries that DON'T need specialist consultation:
+            - Patient demographic and history inquiries
+            - Lab result interpretations within normal ranges
+            - Standard medication information and current prescriptions
+            - Basic disease progression tracking
+            - Administrative or documentation queries
+            - Standard protocol confirmations
+            - Basic differential diagnosis support
+
+            Examples of queries that DO need specialist consultation:
+            - Complex case analysis requiring multi-specialty input
+            - Unusual lab results or imaging findings
+            - Treatment plan modifications for complex cases
+            - Rare disease management
+            - Drug interaction analysis in complex cases
+            - Novel therapeutic approaches
+            - Cases with multiple comorbidities
+
+            Format your response as JSON:
+            {{
+                "needsSpecialist": boolean,
+                "reasoning": "string explaining clinical rationale for specialist consultation decision",
+                "confidence": number between 0 and 1
+            }}
+        `
+    },
+    {
+        id: 'chat.direct-response',
+        version: '1.0.0',
+        template: `
+            You are a medical AI assistant supporting a clinician. Provide a professional, evidence-based response using the available patient context.
+            Focus on clinical relevance and be precise with medical terminology.
+
+            Query from Clinician: {query}
+            Patient Context: {context}
+
+            Respond in a clinically appropriate manner. Include relevant metrics, lab values, and clinical observations where applicable.
+            If any information is unclear or requires specialist interpretation, note this explicitly.
+        `
+    },
+    {
+        id: 'chat.basic-query',
+        version: '1.0.0',
+        template: `
+            You are a medical AI assistant helping a clinician. Answer the following query using only the provided context.
+            Be concise and direct. Use clinical terminology.
+
+            Query: {query}
+            Patient Context: {context}
+
+            Respond with just the relevant information, no explanations needed unless specifically asked.
+        `
+    },
+    {
+        id: 'chat.specialties',
+        version: '1.0.0',
+        template: `
+            Analyze the following clinician query and patient context to determine which medical specialists should be consulted.
+            Consider both explicit and implicit clinical factors in the query.
+
+            Query from Clinician: {query}
+            Patient Context: {context}
+
+            You must respond with a valid JSON array containing up to 3 medical specialties.
+            Each specialty must have exactly these fields:
+            - specialty: string with the specialist title (e.g. "Cardiologist")
+            - relevance: number between 0 and 1 indicating clinical significance
+            - reasoning: string explaining clinical rationale for consultation
+
+            Format your response as a JSON array like this:
+            [
+                {{
+                    "specialty": "Cardiologist",
+                    "relevance": 0.9,
+                    "reasoning": "Complex arrhythmia pattern requires electrophysiology expertise"
+                }}
+            ]
+        `
+    },
+    {
+        id: 'chat.consultation',
+        version: '1.0.0',
+        template: `
+            You are a {specialty} consulting on the following case:
+
+            Query from Clinician: {query}
+            Patient Context: {context}
+            Current Clinical Insights: {currentInsights}
+
+            Provide a thorough clinical analysis and evidence-based recommendations.
+            Consider interactions with existing conditions and current treatment protocols.
+            
+            Format your response as JSON:
+            {{
+                "specialty": "your specialty",
+                "analysis": "detailed clinical assessment",
+                "recommendations": ["specific clinical action items"],
+                "confidence": number (0-1) based on available evidence
+            }}
+        `
+    },
+    {
+        id: 'chat.summary',
+        version: '1.0.0',
+        template: `
+            As the lead consultant, synthesize the following specialist consultations into a comprehensive clinical assessment:
+
+            Query from Clinician: {query}
+            Specialist Consultations: {consultations}
+
+            Provide an evidence-based synthesis that supports clinical decision-making.
+            Format your response as JSON:
+            {{
+                "primarySpecialist": "string (lead consultant)",
+                "consultingSpecialists": ["specialist1", "specialist2"],
+                "diagnosis": "string (clinical assessment)",
+                "recommendations": ["specific clinical actions"],
+                "followUpSuggestions": ["clinical monitoring points"],
+                "patientNotes": "string (additional clinical considerations)"
+            }}
+        `
+    }
+];
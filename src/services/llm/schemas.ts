@@ -0,0 +1,71 @@
+// src/services/llm/schemas.ts
+import { z } from 'zod';
+import type { RecommendationResponse, Specialist } from '../OpenAIService';
+import type { SynthesizedAnalysis } from '../Genesis';
+import type { ConsultationSummary, DoctorConsultation } from '../ChatService';
+
+// Model outputs the services accept. Every field they read is required and checked, so
+// nothing clinical is ever defaulted.
+
+const text = z.string().trim().min(1, 'must not be empty');
+const score = z.number().min(0).max(1);
+
+const specialistSchema: z.ZodType<Specialist> = z.object({
+    specialty: text,
+    code: text,
+    justification: text,
+    priority: z.enum(['routine', 'urgent', 'asap']),
+    confidence: score,
+    timeframe: text,
+    evidenceLevel: z.enum(['high', 'moderate', 'low']),
+    guidelines: z.array(z.object({
+        source: text,
+        reference: text,
+        relevance: text
+    })).optional()
+});
+
+export const recommendationResponseSchema: z.ZodType<RecommendationResponse> = z.object({
+    specialists: z.array(specialistSchema),
+    reasoning: text,
+    riskFactors: z.array(text),
+    confidenceMetrics: z.object({
+        overallConfidence: score,
+        dataCompleteness: score,
+        guidelineAdherence: score
+    })
+});
+
+export const synthesizedAnalysisSchema: z.ZodType<SynthesizedAnalysis> = z.object({
+    summary: z.object({
+        patientOverview: z.object({
+            age: z.number().min(0),
+            gender: text,
+            chronicConditions: z.array(text)
+        }),
+        careApproach: text
+    }),
+    recommendations: z.object({
+        patientEngagement: z.array(text),
+        interdisciplinaryCoordination: z.array(text),
+        preventiveHealthFocus: z.array(text),
+        specialistReferrals: z.array(text)
+    }),
+    riskFactors: z.array(text)
+});
+
+export const doctorConsultationSchema: z.ZodType<DoctorConsultation> = z.object({
+    specialty: text,
+    analysis: text,
+    recommendations: z.array(text),
+    confidence: score
+});
+
+export const consultationSummarySchema: z.ZodType<ConsultationSummary> = z.object({
+    primarySpecialist: text,
+    consultingSpecialists: z.array(text),
+    diagnosis: text,
+    recommendations: z.array(text),
+    followUpSuggestions: z.array(text),
+    patientNotes: text
+});
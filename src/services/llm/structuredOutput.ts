@@ -0,0 +1,96 @@
+// src/services/llm/structuredOutput.ts
+import { z } from 'zod';
+import { LLMCompletionRequest, LLMError, LLMProvider } from './LLMProvider';
+
+export const DEFAULT_MAX_REPAIRS = 2;
+
+// A response that did not match its schema
+export interface ValidationFailure {
+    // 1 for the first response, 2 for the first repair, ...
+    attempt: number;
+    errors: string[];
+    at: string;
+}
+
+export interface StructuredCompletion<T> {
+    value: T;
+    // The model that produced value, as reported by the provider
+    model: string;
+    // Responses rejected before value was obtained
+    validationFailures: ValidationFailure[];
+}
+
+export class LLMValidationError extends LLMError {
+    constructor(message: string, public readonly failures: ValidationFailure[]) {
+        super(message);
+        this.name = 'LLMValidationError';
+    }
+}
+
+/**
+ * Complete a request whose response must be JSON matching schema. An invalid response is
+ * sent back with the validation errors, up to maxRepairs times; after that the request
+ * fails with an LLMValidationError. Nothing is filled in for missing or invalid fields.
+ */
+export async function completeStructured<T>(
+    llm: LLMProvider,
+    request: LLMCompletionRequest,
+    schema: z.ZodType<T>,
+    maxRepairs: number = DEFAULT_MAX_REPAIRS
+): Promise<StructuredCompletion<T>> {
+    const messages = [...request.messages];
+    const validationFailures: ValidationFailure[] = [];
+
+    for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+        const completion = await llm.complete({ ...request, messages });
+        const result = validate(completion.content, schema);
+
+        if (result.value !== undefined) {
+            return { value: result.value, model: completion.model, validationFailures };
+        }
+
+        validationFailures.push({ attempt, errors: result.issues, at: new Date().toISOString() });
+        console.warn(`Invalid ${request.task} response (attempt ${attempt}): ${result.issues.join('; ')}`);
+
+        messages.push(
+            { role: 'assistant', content: completion.content },
+            {
+                role: 'user',
+                content: `Your response did not match the required format:\n${result.issues.map(issue => `- ${issue}`).join('\n')}\n` +
+                    'Respond again with only the corrected JSON, in the format requested above.'
+            }
+        );
+    }
+
+    const last = validationFailures[validationFailures.length - 1];
+    throw new LLMValidationError(
+        `Invalid ${request.task} response after ${validationFailures.length} attempts: ${last.errors.join('; ')}`,
+        validationFailures
+    );
+}
+
+/**
+ * Parse a JSON response, with or without a Markdown code fence around it
+ */
+export function parseJsonContent(content: string): unknown {
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    return JSON.parse(fenced ? fenced[1] : content.trim());
+}
+
+function validate<T>(content: string, schema: z.ZodType<T>): { value?: T; issues: string[] } {
+    let parsed: unknown;
+    try {
+        parsed = parseJsonContent(content);
+    } catch (error) {
+        return { issues: [`response is not valid JSON (${error instanceof Error ? error.message : String(error)})`] };
+    }
+
+    const result = schema.safeParse(parsed);
+    if (result.success) {
+        return { value: result.data, issues: [] };
+    }
+
+    return {
+        issues: result.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    };
+}
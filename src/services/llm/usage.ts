@@ -0,0 +1,123 @@
+// src/services/llm/usage.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { LLMProviderName, LLMUsage } from './LLMProvider';
+import { MODEL_PRICES, ModelPrice } from '../../knowledge/modelPrices';
+
+// Token counts and estimated cost of one completion or embedding call
+export interface LLMCallUsage {
+    task: string;
+    provider: LLMProviderName;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    // Set when the provider reported no usage and the tokens were estimated from the text
+    estimatedTokens?: boolean;
+    costUsd: number;
+    // False when the model has no price, so costUsd is 0
+    priced: boolean;
+    at: string;
+}
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    // Calls to models without a price, which costUsd leaves out
+    unpricedCalls: number;
+}
+
+// The calls of one analysis, chat message or other unit of work, and their totals
+export interface UsageSummary {
+    totals: UsageTotals;
+    calls: LLMCallUsage[];
+}
+
+/**
+ * Collects the usage of every LLM call made while it is active (see meterUsage)
+ */
+export class UsageMeter {
+    readonly calls: LLMCallUsage[] = [];
+
+    record(call: LLMCallUsage): void {
+        this.calls.push(call);
+    }
+
+    totals(): UsageTotals {
+        return this.calls.reduce(addUsage, emptyUsage());
+    }
+
+    summary(): UsageSummary {
+        return { totals: this.totals(), calls: [...this.calls] };
+    }
+}
+
+const activeMeter = new AsyncLocalStorage<UsageMeter>();
+
+/**
+ * Run fn with meter recording the LLM calls it makes, however deep in the call stack
+ * and whichever provider makes them
+ */
+export function meterUsage<T>(meter: UsageMeter, fn: () => Promise<T>): Promise<T> {
+    return activeMeter.run(meter, fn);
+}
+
+export function currentUsageMeter(): UsageMeter | undefined {
+    return activeMeter.getStore();
+}
+
+export function emptyUsage(): UsageTotals {
+    return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+/**
+ * Totals plus a call or other totals; the arguments are left unchanged
+ */
+export function addUsage(totals: UsageTotals, usage: UsageTotals | LLMCallUsage): UsageTotals {
+    const isCall = 'task' in usage;
+    return {
+        calls: totals.calls + (isCall ? 1 : usage.calls),
+        inputTokens: totals.inputTokens + usage.inputTokens,
+        outputTokens: totals.outputTokens + usage.outputTokens,
+        costUsd: roundCost(totals.costUsd + usage.costUsd),
+        unpricedCalls: totals.unpricedCalls + (isCall ? (usage.priced ? 0 : 1) : usage.unpricedCalls)
+    };
+}
+
+/**
+ * Estimated cost of a call. Fixture calls are free; other models are looked up by their
+ * longest listed prefix, so dated versions share the price of their model.
+ */
+export function estimateCost(
+    provider: LLMProviderName,
+    model: string,
+    usage: LLMUsage,
+    prices: Record<string, ModelPrice> = MODEL_PRICES
+): { costUsd: number; priced: boolean } {
+    if (provider === 'fixture') {
+        return { costUsd: 0, priced: true };
+    }
+
+    const key = Object.keys(prices)
+        .filter(name => model === name || model.startsWith(`${name}-`))
+        .sort((a, b) => b.length - a.length)[0];
+    if (!key) {
+        return { costUsd: 0, priced: false };
+    }
+
+    const price = prices[key];
+    return {
+        costUsd: roundCost((usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000),
+        priced: true
+    };
+}
+
+// Roughly four characters per token, like most tokenizers on English text
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+// Micro-dollars, which keeps sums of small calls free of floating point noise
+export function roundCost(costUsd: number): number {
+    return Math.round(costUsd * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,479 @@
+// src/services/queue/AmqpQueueDriver.ts
+import * as amqp from 'amqplib';
+import {
+    ConsumeOptions,
+    consumerCount,
+    DeadLetter,
+    DEFAULT_RETRY_POLICY,
+    MAX_PRIORITY,
+    PublishOptions,
+    QueueConsumer,
+    QueueDriver,
+    QueueMessage,
+    QueueRetryPolicy,
+    QueueSetupError,
+    retryDelay
+} from './QueueDriver';
+
+export interface AmqpQueueDriverConfig {
+    url: string;
+    queue: string;
+    retry?: Partial<QueueRetryPolicy>;
+    reconnectDelayMs?: number;
+}
+
+// Dead-lettered messages are routed through this exchange into DEAD_LETTER_QUEUE
+const DEAD_LETTER_EXCHANGE = 'dlx';
+const DEAD_LETTER_QUEUE = 'failed_analyses';
+// AMQP reply code for a declaration whose arguments differ from the existing queue
+const PRECONDITION_FAILED = 406;
+// Headers describing a dead-lettering, dropped when a message is replayed
+const DEAD_LETTER_HEADERS = ['x-death', 'x-last-error', 'x-dead-letter-reason', 'x-dead-lettered-at'];
+
+interface AmqpConsumer {
+    channel: amqp.Channel;
+    consumerTag: string;
+    // Settles once every message delivered to this consumer so far is handled
+    idle: Promise<void>;
+}
+
+/**
+ * Queue driver for RabbitMQ / LavinMQ. A retry is published with an x-retry-count header
+ * to a delay queue per retry number, before the failed delivery is acked; the broker
+ * dead-letters it back to the work queue once its backoff expires. Exhausted messages are
+ * published to the failed_analyses queue with their last error; the broker dead-letters
+ * expired messages there too. Each consumer has its own channel. Broadcasts go through a
+ * fanout exchange named after the queue.
+ */
+export class AmqpQueueDriver<T> implements QueueDriver<T> {
+    readonly name = 'amqp';
+    private connection: amqp.Connection | null = null;
+    private channel: amqp.Channel | null = null;
+    private consumer: QueueConsumer<T> | null = null;
+    private consumeOptions: ConsumeOptions = {};
+    private consumers: AmqpConsumer[] = [];
+    private broadcastListener: ((event: unknown) => void) | null = null;
+    private closing: boolean = false;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private readonly retry: QueueRetryPolicy;
+    private readonly reconnectDelayMs: number;
+
+    constructor(private readonly config: AmqpQueueDriverConfig) {
+        this.retry = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+        this.reconnectDelayMs = config.reconnectDelayMs ?? 5000;
+    }
+
+    /**
+     * Connect and declare the queues. A failed attempt is rejected and retried in the background,
+     * except a QueueSetupError, which retrying cannot fix.
+     */
+    async connect(): Promise<void> {
+        this.closing = false;
+
+        try {
+            this.connection = await amqp.connect(this.config.url);
+
+            this.connection.on('error', (error) => {
+                console.error('AMQP connection error:', error);
+                this.scheduleReconnect();
+            });
+
+            this.connection.on('close', () => {
+                console.log('AMQP connection closed');
+                this.scheduleReconnect();
+            });
+
+            const channel = await this.connection.createChannel();
+            // Also rejects the pending call, which reports the error
+            channel.on('error', (error) => {
+                console.error('AMQP channel error:', error);
+            });
+
+            await channel.assertExchange(DEAD_LETTER_EXCHANGE, 'direct');
+            await channel.assertQueue(DEAD_LETTER_QUEUE, {
+                durable: true
+            });
+            await channel.bindQueue(DEAD_LETTER_QUEUE, DEAD_LETTER_EXCHANGE, this.config.queue);
+
+            await this.assertWorkQueue(channel);
+            for (let retryCount = 1; retryCount <= this.retry.maxRetries; retryCount++) {
+                await channel.assertQueue(this.retryQueue(retryCount), {
+                    durable: true,
+                    // Expired retries go back to the work queue through the default exchange
+                    deadLetterExchange: '',
+                    deadLetterRoutingKey: this.config.queue
+                });
+            }
+
+            await channel.assertExchange(this.eventsExchange, 'fanout', { durable: false });
+
+            this.channel = channel;
+            console.log('AMQP connection established');
+
+            if (this.broadcastListener) {
+                await this.subscribeBroadcasts(channel, this.broadcastListener);
+            }
+            if (this.consumer) {
+                await this.startConsuming(this.consumer);
+            }
+        } catch (error) {
+            if (error instanceof QueueSetupError) {
+                await this.close().catch(() => undefined);
+                throw error;
+            }
+            console.error('AMQP initialization error:', error);
+            this.scheduleReconnect();
+            throw error;
+        }
+    }
+
+    /**
+     * Declare the priority work queue. A queue declared by an earlier version without
+     * x-max-priority cannot be redeclared, and the broker closes the channel.
+     */
+    private async assertWorkQueue(channel: amqp.Channel): Promise<void> {
+        try {
+            await channel.assertQueue(this.config.queue, {
+                durable: true,
+                deadLetterExchange: DEAD_LETTER_EXCHANGE,
+                messageTtl: this.retry.messageTtlMs,
+                maxPriority: MAX_PRIORITY
+            });
+        } catch (error) {
+            if ((error as { code?: number }).code === PRECONDITION_FAILED) {
+                throw new QueueSetupError(
+                    `AMQP queue ${this.config.queue} exists with other arguments than this version declares ` +
+                    `(x-max-priority ${MAX_PRIORITY}). Drain and delete it so it can be recreated. ${(error as Error).message}`
+                );
+            }
+            throw error;
+        }
+    }
+
+    async publish(id: string, body: T, options: PublishOptions = {}): Promise<void> {
+        const timestamp = Date.now();
+        this.requireChannel().sendToQueue(
+            this.config.queue,
+            Buffer.from(JSON.stringify(body)),
+            {
+                persistent: true,
+                messageId: id,
+                timestamp,
+                priority: Math.min(Math.max(options.priority ?? 0, 0), MAX_PRIORITY),
+                contentType: 'application/json',
+                headers: {
+                    'x-retry-count': 0
+                }
+            }
+        );
+    }
+
+    /**
+     * AMQP cannot remove a single queued message; consumers skip cancelled jobs on delivery instead
+     */
+    async remove(): Promise<boolean> {
+        return false;
+    }
+
+    async consume(consumer: QueueConsumer<T>, options: ConsumeOptions = {}): Promise<void> {
+        this.consumer = consumer;
+        this.consumeOptions = options;
+
+        // Otherwise consuming starts once connect succeeds
+        if (this.channel) {
+            await this.startConsuming(consumer);
+        }
+    }
+
+    async broadcast(event: unknown): Promise<void> {
+        if (!this.channel) return;
+        this.channel.publish(this.eventsExchange, '', Buffer.from(JSON.stringify(event)), {
+            contentType: 'application/json'
+        });
+    }
+
+    onBroadcast(listener: (event: unknown) => void): void {
+        this.broadcastListener = listener;
+
+        // Otherwise the subscription is made once connect succeeds
+        if (this.channel) {
+            this.subscribeBroadcasts(this.channel, listener).catch(error => {
+                console.error('Error subscribing to queue broadcasts:', error);
+            });
+        }
+    }
+
+    async close(): Promise<void> {
+        this.closing = true;
+        this.consumer = null;
+
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+
+        // Stop deliveries, then let the messages being handled finish and be acked
+        const consumers = this.consumers;
+        this.consumers = [];
+        await Promise.all(consumers.map(({ channel, consumerTag }) => channel.cancel(consumerTag).catch(() => undefined)));
+        await Promise.all(consumers.map(({ idle }) => idle));
+
+        try {
+            await Promise.all(consumers.map(({ channel }) => channel.close().catch(() => undefined)));
+            if (this.channel) {
+                await this.channel.close();
+            }
+            if (this.connection) {
+                await this.connection.close();
+            }
+        } finally {
+            this.channel = null;
+            this.connection = null;
+        }
+    }
+
+    private get eventsExchange(): string {
+        return `${this.config.queue}.events`;
+    }
+
+    // Every message in it waits the same backoff, so none blocks another from expiring
+    private retryQueue(retryCount: number): string {
+        return `${this.config.queue}.retry.${retryCount}`;
+    }
+
+    /**
+     * Start one consumer per unit of concurrency, each on its own channel and handling its
+     * messages in order
+     */
+    private async startConsuming(consumer: QueueConsumer<T>): Promise<void> {
+        if (!this.connection) return;
+        const prefetch = Math.max(this.consumeOptions.prefetch ?? 1, 1);
+
+        for (let i = this.consumers.length; i < consumerCount(this.consumeOptions); i++) {
+            const channel = await this.connection.createChannel();
+            await channel.prefetch(prefetch);
+
+            const entry: AmqpConsumer = { channel, consumerTag: '', idle: Promise.resolve() };
+            const { consumerTag } = await channel.consume(
+                this.config.queue,
+                (msg: amqp.ConsumeMessage | null) => {
+                    if (!msg) return;
+                    entry.idle = entry.idle
+                        .then(() => this.handleDelivery(channel, msg, consumer))
+                        .catch(error => {
+                            console.error('Error settling message:', error);
+                        });
+                },
+                { noAck: false }
+            );
+            entry.consumerTag = consumerTag;
+            this.consumers.push(entry);
+        }
+
+        console.log(`Consuming AMQP queue ${this.config.queue} with ${this.consumers.length} consumers`);
+    }
+
+    private async handleDelivery(channel: amqp.Channel, msg: amqp.ConsumeMessage, consumer: QueueConsumer<T>): Promise<void> {
+        // Prefetched messages not started before close go back to the queue
+        if (this.closing) {
+            channel.nack(msg, false, true);
+            return;
+        }
+
+        let message: QueueMessage<T>;
+        try {
+            message = this.toMessage(msg);
+        } catch (error) {
+            console.error('Dead-lettering unreadable message:', error);
+            channel.nack(msg, false, false);
+            return;
+        }
+
+        try {
+            await consumer.handle(message);
+            channel.ack(msg);
+        } catch (error) {
+            console.error('Error processing message:', error);
+            const retryCount = message.retryCount + 1;
+
+            if (retryCount <= this.retry.maxRetries) {
+                // Published on the same channel, so the broker has the retry before the ack
+                this.publishRetry(channel, msg, retryCount);
+                channel.ack(msg);
+            } else {
+                await consumer.onDeadLetter?.(message, error).catch(deadLetterError => {
+                    console.error('Error handling dead-lettered message:', deadLetterError);
+                });
+                this.deadLetter(channel, msg, retryCount - 1, error);
+            }
+        }
+    }
+
+    /**
+     * Receive broadcasts on a temporary queue of this connection
+     */
+    private async subscribeBroadcasts(channel: amqp.Channel, listener: (event: unknown) => void): Promise<void> {
+        const { queue } = await channel.assertQueue('', { exclusive: true, autoDelete: true });
+        await channel.bindQueue(queue, this.eventsExchange, '');
+        await channel.consume(queue, (msg: amqp.ConsumeMessage | null) => {
+            if (!msg) return;
+            try {
+                listener(JSON.parse(msg.content.toString()));
+            } catch (error) {
+                console.error('Error handling queue broadcast:', error);
+            }
+        }, { noAck: true });
+    }
+
+    async listDeadLetters(): Promise<DeadLetter<T>[]> {
+        return this.withDeadLetters(async (_channel, messages) => messages.map(msg => this.toDeadLetter(msg)));
+    }
+
+    async replayDeadLetters(ids?: string[]): Promise<string[]> {
+        return this.withDeadLetters(async (channel, messages) => {
+            const replayed: string[] = [];
+
+            for (const msg of messages) {
+                if (ids && !ids.includes(msg.properties.messageId)) continue;
+
+                const headers = Object.fromEntries(
+                    Object.entries(msg.properties.headers ?? {}).filter(([name]) => !DEAD_LETTER_HEADERS.includes(name))
+                );
+
+                this.requireChannel().sendToQueue(this.config.queue, msg.content, {
+                    ...msg.properties,
+                    // A replayed message gets the full TTL again
+                    expiration: undefined,
+                    timestamp: Date.now(),
+                    headers: {
+                        ...headers,
+                        'x-retry-count': 0
+                    }
+                });
+                channel.ack(msg);
+                replayed.push(msg.properties.messageId);
+            }
+
+            return replayed;
+        });
+    }
+
+    async purgeDeadLetters(ids?: string[]): Promise<string[]> {
+        return this.withDeadLetters(async (channel, messages) => {
+            const purged: string[] = [];
+
+            for (const msg of messages) {
+                if (ids && !ids.includes(msg.properties.messageId)) continue;
+                channel.ack(msg);
+                purged.push(msg.properties.messageId);
+            }
+
+            return purged;
+        });
+    }
+
+    /**
+     * Fetch every message on the dead-letter queue on a separate channel. Messages visit
+     * does not ack go back onto the queue when that channel closes.
+     */
+    private async withDeadLetters<R>(
+        visit: (channel: amqp.Channel, messages: amqp.GetMessage[]) => Promise<R>
+    ): Promise<R> {
+        if (!this.connection) {
+            throw new Error('AMQP connection not initialized');
+        }
+
+        const channel = await this.connection.createChannel();
+        try {
+            const messages: amqp.GetMessage[] = [];
+            let msg: amqp.GetMessage | false;
+            while ((msg = await channel.get(DEAD_LETTER_QUEUE, { noAck: false }))) {
+                messages.push(msg);
+            }
+            return await visit(channel, messages);
+        } finally {
+            await channel.close();
+        }
+    }
+
+    /**
+     * Move a message to the dead-letter queue, recording why it failed
+     */
+    private deadLetter(channel: amqp.Channel, msg: amqp.ConsumeMessage, retryCount: number, error: unknown): void {
+        channel.publish(DEAD_LETTER_EXCHANGE, this.config.queue, msg.content, {
+            ...msg.properties,
+            persistent: true,
+            headers: {
+                ...msg.properties.headers,
+                'x-retry-count': retryCount,
+                'x-last-error': error instanceof Error ? error.message : String(error),
+                'x-dead-letter-reason': 'retries-exhausted',
+                'x-dead-lettered-at': Date.now()
+            }
+        });
+        channel.ack(msg);
+    }
+
+    private toDeadLetter(msg: amqp.GetMessage): DeadLetter<T> {
+        const headers = msg.properties.headers ?? {};
+        // Set by the broker when it dead-letters a message itself, e.g. on expiry
+        const death = headers['x-death']?.[0];
+
+        return {
+            ...this.toMessage(msg),
+            reason: headers['x-dead-letter-reason'] || death?.reason || 'rejected',
+            lastError: headers['x-last-error'],
+            deadLetteredAt: headers['x-dead-lettered-at'] || (death ? death.time.value * 1000 : Date.now())
+        };
+    }
+
+    private requireChannel(): amqp.Channel {
+        if (!this.channel) {
+            throw new Error('AMQP channel not initialized');
+        }
+        return this.channel;
+    }
+
+    private toMessage(msg: amqp.Message): QueueMessage<T> {
+        return {
+            id: msg.properties.messageId,
+            body: JSON.parse(msg.content.toString()),
+            retryCount: ((msg.properties.headers ?? {})['x-retry-count'] as number) || 0,
+            enqueuedAt: msg.properties.timestamp || Date.now(),
+            priority: msg.properties.priority ?? 0
+        };
+    }
+
+    /**
+     * Park a failed message in the delay queue of its retry number until its backoff expires
+     */
+    private publishRetry(channel: amqp.Channel, msg: amqp.ConsumeMessage, retryCount: number): void {
+        channel.sendToQueue(this.retryQueue(retryCount), msg.content, {
+            ...msg.properties,
+            persistent: true,
+            expiration: String(retryDelay(this.retry, retryCount)),
+            headers: {
+                ...msg.properties.headers,
+                'x-retry-count': retryCount
+            }
+        });
+    }
+
+    private scheduleReconnect(): void {
+        // 'error' and 'close' both fire for one failure
+        if (this.closing || this.reconnectTimer) return;
+
+        this.channel = null;
+        this.connection = null;
+        this.consumers = [];
+
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = null;
+            try {
+                await this.connect();
+            } catch (error) {
+                console.error('Failed to reconnect:', error);
+            }
+        }, this.reconnectDelayMs);
+    }
+}
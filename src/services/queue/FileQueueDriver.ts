@@ -0,0 +1,248 @@
+// src/services/queue/FileQueueDriver.ts
+import { JsonFileStore } from '../../utils/jsonFileStore';
+import {
+    ConsumeOptions,
+    consumerCount,
+    DeadLetter,
+    DEFAULT_RETRY_POLICY,
+    MAX_PRIORITY,
+    PublishOptions,
+    QueueConsumer,
+    QueueDriver,
+    QueueMessage,
+    QueueRetryPolicy,
+    retryDelay
+} from './QueueDriver';
+
+export interface FileQueueDriverConfig {
+    path: string;
+    retry?: Partial<QueueRetryPolicy>;
+    pollIntervalMs?: number;
+}
+
+interface StoredMessage<T> extends QueueMessage<T> {
+    // Not delivered before this time (retry backoff)
+    availableAt: number;
+    lastError?: string;
+}
+
+interface FileQueueState<T> {
+    messages: StoredMessage<T>[];
+    deadLetters: Array<DeadLetter<T> & StoredMessage<T>>;
+}
+
+/**
+ * Durable in-process queue kept in a local JSON file, for running without a message broker.
+ * Follows the same retry and dead-letter rules as the AMQP driver. Only one process may
+ * use a given file, so broadcasts only reach this process.
+ */
+export class FileQueueDriver<T> implements QueueDriver<T> {
+    readonly name = 'file';
+    private readonly store: JsonFileStore<FileQueueState<T>>;
+    private readonly retry: QueueRetryPolicy;
+    private readonly pollIntervalMs: number;
+    private consumer: QueueConsumer<T> | null = null;
+    private concurrency: number = 1;
+    private pollTimer: NodeJS.Timeout | null = null;
+    private workers: Set<Promise<void>> = new Set();
+    private delivering: Set<string> = new Set();
+    private broadcastListener: ((event: unknown) => void) | null = null;
+
+    constructor(config: FileQueueDriverConfig) {
+        this.store = new JsonFileStore(config.path, () => ({ messages: [], deadLetters: [] }));
+        this.retry = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+        this.pollIntervalMs = config.pollIntervalMs ?? 1000;
+    }
+
+    async connect(): Promise<void> {
+        const state = await this.store.read();
+        if (state.messages.length > 0) {
+            console.log(`File queue has ${state.messages.length} pending messages`);
+        }
+    }
+
+    async publish(id: string, body: T, options: PublishOptions = {}): Promise<void> {
+        const now = Date.now();
+        const priority = Math.min(Math.max(options.priority ?? 0, 0), MAX_PRIORITY);
+        await this.store.update(state => {
+            state.messages.push({ id, body, retryCount: 0, enqueuedAt: now, priority, availableAt: now });
+        });
+        this.drain();
+    }
+
+    async remove(id: string): Promise<boolean> {
+        if (this.delivering.has(id)) return false;
+
+        return this.store.update(state => {
+            const remaining = state.messages.filter(message => message.id !== id);
+            const removed = remaining.length < state.messages.length;
+            state.messages = remaining;
+            return removed;
+        });
+    }
+
+    async consume(consumer: QueueConsumer<T>, options: ConsumeOptions = {}): Promise<void> {
+        this.consumer = consumer;
+        this.concurrency = consumerCount(options);
+
+        if (!this.pollTimer) {
+            this.pollTimer = setInterval(() => this.drain(), this.pollIntervalMs);
+        }
+        this.drain();
+    }
+
+    async close(): Promise<void> {
+        this.consumer = null;
+
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+
+        // Let the deliveries in flight finish
+        await Promise.all(this.workers);
+    }
+
+    async broadcast(event: unknown): Promise<void> {
+        this.broadcastListener?.(event);
+    }
+
+    onBroadcast(listener: (event: unknown) => void): void {
+        this.broadcastListener = listener;
+    }
+
+    async listDeadLetters(): Promise<DeadLetter<T>[]> {
+        const state = await this.store.read();
+        return state.deadLetters.map(({ id, body, retryCount, enqueuedAt, priority, reason, lastError, deadLetteredAt }) => (
+            { id, body, retryCount, enqueuedAt, priority, reason, lastError, deadLetteredAt }
+        ));
+    }
+
+    async replayDeadLetters(ids?: string[]): Promise<string[]> {
+        const now = Date.now();
+        const replayed = await this.store.update(state => {
+            const [selected, kept] = partition(state.deadLetters, ids);
+            state.deadLetters = kept;
+            state.messages.push(...selected.map(({ id, body, priority }) => ({
+                id,
+                body,
+                retryCount: 0,
+                enqueuedAt: now,
+                priority: priority ?? 0,
+                availableAt: now
+            })));
+            return selected.map(deadLetter => deadLetter.id);
+        });
+        this.drain();
+        return replayed;
+    }
+
+    purgeDeadLetters(ids?: string[]): Promise<string[]> {
+        return this.store.update(state => {
+            const [selected, kept] = partition(state.deadLetters, ids);
+            state.deadLetters = kept;
+            return selected.map(deadLetter => deadLetter.id);
+        });
+    }
+
+    /**
+     * Start workers, up to the consumer's concurrency, that deliver available messages
+     * until none are left
+     */
+    private drain(): void {
+        while (this.consumer && this.workers.size < this.concurrency) {
+            const worker: Promise<void> = this.work().finally(() => {
+                this.workers.delete(worker);
+            });
+            this.workers.add(worker);
+        }
+    }
+
+    private async work(): Promise<void> {
+        try {
+            let message = await this.takeNext();
+            while (message) {
+                if (!this.consumer) {
+                    this.delivering.delete(message.id);
+                    break;
+                }
+                await this.deliver(message, this.consumer);
+                message = await this.takeNext();
+            }
+        } catch (error) {
+            console.error('Error draining file queue:', error);
+        }
+    }
+
+    private takeNext(): Promise<StoredMessage<T> | undefined> {
+        const now = Date.now();
+
+        return this.store.update(state => {
+            const expired = state.messages.filter(message =>
+                now - message.enqueuedAt > this.retry.messageTtlMs && !this.delivering.has(message.id));
+            for (const message of expired) {
+                this.moveToDeadLetters(state, message, 'expired', now);
+            }
+
+            // Highest priority first, oldest first within a priority
+            const available = state.messages.filter(message =>
+                message.availableAt <= now && !this.delivering.has(message.id));
+            const next = available.reduce<StoredMessage<T> | undefined>(
+                (best, message) => (!best || (message.priority ?? 0) > (best.priority ?? 0) ? message : best),
+                undefined
+            );
+
+            if (next) this.delivering.add(next.id);
+            return next;
+        });
+    }
+
+    private async deliver(message: StoredMessage<T>, consumer: QueueConsumer<T>): Promise<void> {
+        try {
+            await consumer.handle(message);
+            await this.store.update(state => {
+                state.messages = state.messages.filter(stored => stored !== message);
+            });
+        } catch (error) {
+            console.error('Error processing message:', error);
+            const retryCount = message.retryCount + 1;
+
+            if (retryCount <= this.retry.maxRetries) {
+                await this.store.update(() => {
+                    message.retryCount = retryCount;
+                    message.availableAt = Date.now() + retryDelay(this.retry, retryCount);
+                    message.lastError = error instanceof Error ? error.message : String(error);
+                });
+            } else {
+                await consumer.onDeadLetter?.(message, error).catch(deadLetterError => {
+                    console.error('Error handling dead-lettered message:', deadLetterError);
+                });
+                await this.store.update(state => {
+                    message.lastError = error instanceof Error ? error.message : String(error);
+                    this.moveToDeadLetters(state, message, 'retries-exhausted', Date.now());
+                });
+            }
+        } finally {
+            this.delivering.delete(message.id);
+        }
+    }
+
+    private moveToDeadLetters(
+        state: FileQueueState<T>,
+        message: StoredMessage<T>,
+        reason: DeadLetter<T>['reason'],
+        now: number
+    ): void {
+        state.messages = state.messages.filter(stored => stored !== message);
+        state.deadLetters.push({ ...message, reason, deadLetteredAt: now });
+    }
+}
+
+// Split messages into those listed in ids (all of them when ids is omitted) and the rest
+function partition<M extends { id: string }>(messages: M[], ids?: string[]): [M[], M[]] {
+    const selected = ids ? new Set(ids) : null;
+    return [
+        messages.filter(message => !selected || selected.has(message.id)),
+        messages.filter(message => selected && !selected.has(message.id))
+    ];
+}
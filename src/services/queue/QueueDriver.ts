@@ -0,0 +1,97 @@
+// src/services/queue/QueueDriver.ts
+
+export interface QueueMessage<T> {
+    id: string;
+    body: T;
+    // Deliveries of this message that already failed
+    retryCount: number;
+    enqueuedAt: number;
+    // 0 to MAX_PRIORITY; higher priority messages are delivered first
+    priority: number;
+}
+
+export interface PublishOptions {
+    priority?: number;
+}
+
+export interface ConsumeOptions {
+    // Consumers handling messages side by side, one message at a time each
+    concurrency?: number;
+    // Messages the broker hands each consumer ahead of time (AMQP only)
+    prefetch?: number;
+}
+
+export const MAX_PRIORITY = 9;
+
+/**
+ * The broker refused to set up the queue in a way that reconnecting cannot fix
+ */
+export class QueueSetupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'QueueSetupError';
+    }
+}
+
+export interface DeadLetter<T> extends QueueMessage<T> {
+    reason: 'retries-exhausted' | 'expired' | 'rejected';
+    lastError?: string;
+    deadLetteredAt: number;
+}
+
+export interface QueueRetryPolicy {
+    // Failed deliveries are retried this many times before the message is dead-lettered
+    maxRetries: number;
+    // Retry n waits baseDelayMs * 2^n
+    baseDelayMs: number;
+    // Messages still queued after this long are dead-lettered unprocessed
+    messageTtlMs: number;
+}
+
+export interface QueueConsumer<T> {
+    handle(message: QueueMessage<T>): Promise<void>;
+    // Called once retries are exhausted, just before the message is dead-lettered
+    onDeadLetter?(message: QueueMessage<T>, error: unknown): Promise<void>;
+}
+
+/**
+ * A durable work queue. Messages are delivered at least once, to up to concurrency
+ * consumers at a time; a message is only removed after handle resolves, and failures
+ * follow the retry policy.
+ */
+export interface QueueDriver<T> {
+    readonly name: string;
+    connect(): Promise<void>;
+    publish(id: string, body: T, options?: PublishOptions): Promise<void>;
+    // Drop a message that has not been delivered yet. Resolves false if it is not queued,
+    // is being delivered, or the driver cannot remove single messages.
+    remove(id: string): Promise<boolean>;
+    consume(consumer: QueueConsumer<T>, options?: ConsumeOptions): Promise<void>;
+    // Stop taking messages, wait for those being handled, then disconnect
+    close(): Promise<void>;
+
+    // Send an event to every process using this queue, this one included. Best effort:
+    // events are dropped while disconnected.
+    broadcast(event: unknown): Promise<void>;
+    onBroadcast(listener: (event: unknown) => void): void;
+
+    listDeadLetters(): Promise<DeadLetter<T>[]>;
+    // Move dead letters (all when ids is omitted) back onto the queue with a fresh retry count
+    replayDeadLetters(ids?: string[]): Promise<string[]>;
+    // Delete dead letters (all when ids is omitted); resolves with the ids removed
+    purgeDeadLetters(ids?: string[]): Promise<string[]>;
+}
+
+export const DEFAULT_RETRY_POLICY: QueueRetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    messageTtlMs: 24 * 60 * 60 * 1000
+};
+
+export function consumerCount(options: ConsumeOptions = {}): number {
+    return Math.max(options.concurrency ?? 1, 1);
+}
+
+export function retryDelay(policy: QueueRetryPolicy, retryCount: number): number {
+    return policy.baseDelayMs * Math.pow(2, retryCount);
+}
@@ -0,0 +1,233 @@
+// src/services/queue/__tests__/FileQueueDriver.test.ts
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileQueueDriver, FileQueueDriverConfig } from '../FileQueueDriver';
+import { QueueMessage } from '../QueueDriver';
+
+interface Job {
+    name: string;
+}
+
+async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await condition())) {
+        if (Date.now() > deadline) {
+            throw new Error('Timed out waiting for the queue');
+        }
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+}
+
+describe('FileQueueDriver', () => {
+    let dir: string;
+    let queuePath: string;
+    const drivers: Array<FileQueueDriver<Job>> = [];
+
+    const createDriver = (config: Partial<FileQueueDriverConfig> = {}) => {
+        const driver = new FileQueueDriver<Job>({
+            path: queuePath,
+            pollIntervalMs: 5,
+            ...config,
+            retry: { maxRetries: 2, baseDelayMs: 1, ...config.retry }
+        });
+        drivers.push(driver);
+        return driver;
+    };
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-queue-'));
+        queuePath = path.join(dir, 'queue.json');
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+        await Promise.all(drivers.splice(0).map(driver => driver.close()));
+        await fs.rm(dir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    it('delivers higher priorities first and older messages first within a priority', async () => {
+        const driver = createDriver();
+        await driver.publish('routine-1', { name: 'routine-1' }, { priority: 3 });
+        await driver.publish('background', { name: 'background' });
+        await driver.publish('stat', { name: 'stat' }, { priority: 9 });
+        await driver.publish('routine-2', { name: 'routine-2' }, { priority: 3 });
+        await driver.publish('clamped', { name: 'clamped' }, { priority: 42 });
+
+        const delivered: string[] = [];
+        await driver.consume({
+            handle: async message => {
+                delivered.push(message.id);
+            }
+        });
+
+        await waitFor(() => delivered.length === 5);
+        expect(delivered).toEqual(['stat', 'clamped', 'routine-1', 'routine-2', 'background']);
+    });
+
+    it('retries a failed message until it succeeds', async () => {
+        const driver = createDriver();
+        const attempts: number[] = [];
+        await driver.consume({
+            handle: async message => {
+                attempts.push(message.retryCount);
+                if (attempts.length < 3) {
+                    throw new Error('model timeout');
+                }
+            }
+        });
+
+        await driver.publish('job', { name: 'job' });
+
+        await waitFor(() => attempts.length === 3);
+        await driver.close();
+        expect(attempts).toEqual([0, 1, 2]);
+        expect(await driver.listDeadLetters()).toEqual([]);
+        expect(await driver.remove('job')).toBe(false);
+    });
+
+    it('backs off exponentially between retries', async () => {
+        const driver = createDriver({ retry: { baseDelayMs: 40 } });
+        const attemptedAt: number[] = [];
+        await driver.consume({
+            handle: async () => {
+                attemptedAt.push(Date.now());
+                throw new Error('model timeout');
+            }
+        });
+
+        await driver.publish('job', { name: 'job' });
+
+        await waitFor(() => attemptedAt.length === 3);
+        // Retry 1 waits 80 ms and retry 2 waits 160 ms
+        expect(attemptedAt[1] - attemptedAt[0]).toBeGreaterThanOrEqual(80);
+        expect(attemptedAt[2] - attemptedAt[1]).toBeGreaterThanOrEqual(160);
+    });
+
+    it('dead-letters a message once its retries are exhausted', async () => {
+        const driver = createDriver();
+        const handled: Array<QueueMessage<Job>> = [];
+        const deadLettered: string[] = [];
+        await driver.consume({
+            handle: async message => {
+                handled.push(message);
+                throw new Error('invalid patient data');
+            },
+            onDeadLetter: async (message, error) => {
+                deadLettered.push(`${message.id}: ${(error as Error).message}`);
+            }
+        });
+
+        await driver.publish('job', { name: 'job' }, { priority: 5 });
+
+        await waitFor(async () => (await driver.listDeadLetters()).length === 1);
+        expect(handled).toHaveLength(3);
+        expect(deadLettered).toEqual(['job: invalid patient data']);
+        expect(await driver.listDeadLetters()).toEqual([expect.objectContaining({
+            id: 'job',
+            body: { name: 'job' },
+            priority: 5,
+            // Retries made, as the AMQP driver records it
+            retryCount: 2,
+            reason: 'retries-exhausted',
+            lastError: 'invalid patient data'
+        })]);
+    });
+
+    it('dead-letters messages that stay queued past their TTL', async () => {
+        const driver = createDriver({ retry: { messageTtlMs: 10 } });
+        await driver.publish('stale', { name: 'stale' });
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        const handle = jest.fn(async () => undefined);
+        await driver.consume({ handle });
+
+        await waitFor(async () => (await driver.listDeadLetters()).length === 1);
+        expect(handle).not.toHaveBeenCalled();
+        expect((await driver.listDeadLetters())[0]).toMatchObject({ id: 'stale', reason: 'expired', retryCount: 0 });
+    });
+
+    it('replays dead letters with a fresh retry count', async () => {
+        const driver = createDriver();
+        let failing = true;
+        const attempts: number[] = [];
+        await driver.consume({
+            handle: async message => {
+                attempts.push(message.retryCount);
+                if (failing) {
+                    throw new Error('FHIR server down');
+                }
+            }
+        });
+        await driver.publish('job', { name: 'job' });
+        await waitFor(async () => (await driver.listDeadLetters()).length === 1);
+
+        failing = false;
+        expect(await driver.replayDeadLetters()).toEqual(['job']);
+
+        await waitFor(() => attempts.length === 4);
+        expect(attempts[3]).toBe(0);
+        expect(await driver.listDeadLetters()).toEqual([]);
+    });
+
+    it('purges selected dead letters', async () => {
+        const driver = createDriver({ retry: { maxRetries: 0 } });
+        await driver.consume({
+            handle: async () => {
+                throw new Error('rejected');
+            }
+        });
+        await driver.publish('a', { name: 'a' });
+        await driver.publish('b', { name: 'b' });
+        await waitFor(async () => (await driver.listDeadLetters()).length === 2);
+
+        expect(await driver.purgeDeadLetters(['a'])).toEqual(['a']);
+        expect((await driver.listDeadLetters()).map(deadLetter => deadLetter.id)).toEqual(['b']);
+    });
+
+    it('removes messages that have not been delivered', async () => {
+        const driver = createDriver();
+        await driver.publish('job', { name: 'job' });
+
+        expect(await driver.remove('job')).toBe(true);
+        expect(await driver.remove('job')).toBe(false);
+    });
+
+    it('keeps undelivered messages across restarts', async () => {
+        await createDriver().publish('job', { name: 'job' });
+
+        const restarted = createDriver();
+        await restarted.connect();
+        const delivered: string[] = [];
+        await restarted.consume({
+            handle: async message => {
+                delivered.push(message.body.name);
+            }
+        });
+
+        await waitFor(() => delivered.length === 1);
+        expect(delivered).toEqual(['job']);
+    });
+
+    it('runs up to concurrency messages side by side', async () => {
+        const driver = createDriver();
+        let running = 0;
+        let mostRunning = 0;
+        let done = 0;
+        await driver.consume({
+            handle: async () => {
+                mostRunning = Math.max(mostRunning, ++running);
+                await new Promise(resolve => setTimeout(resolve, 20));
+                running--;
+                done++;
+            }
+        }, { concurrency: 2 });
+
+        await Promise.all(['a', 'b', 'c', 'd'].map(id => driver.publish(id, { name: id })));
+
+        await waitFor(() => done === 4);
+        expect(mostRunning).toBe(2);
+    });
+});
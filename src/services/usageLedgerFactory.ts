@@ -0,0 +1,16 @@
+// src/services/usageLedgerFactory.ts
+import { config } from '../config';
+import { UsageLedger } from './UsageLedger';
+
+let ledger: UsageLedger | null = null;
+
+/**
+ * The process's usage ledger. Routers share one instance, since two instances would
+ * overwrite each other's writes to the ledger file.
+ */
+export function getUsageLedger(): UsageLedger {
+    if (!ledger) {
+        ledger = new UsageLedger(config.usage);
+    }
+    return ledger;
+}
@@ -9,10 +9,17 @@ export interface PatientViewContext {
 }
 
 export interface OrderSelectContext extends PatientViewContext {
-  selections: Array<{
+  // CDS Hooks sends relative references (e.g. "MedicationRequest/123")
+  selections: Array<string | {
     resourceType: string;
     id: string;
   }>;
+  draftOrders: {
+    resourceType: 'Bundle';
+    entry: Array<{
+      resource: FhirResource;
+    }>;
+  };
 }
 
 export interface OrderSignContext extends PatientViewContext {
@@ -77,6 +84,14 @@ export interface Action {
   type: 'create' | 'update' | 'delete';
   description: string;
   resource?: FhirResource;
+  // Relative reference of the resource to delete, e.g. "MedicationRequest/123"
+  resourceId?: string;
+}
+
+export interface Coding {
+  code: string;
+  system: string;
+  display: string;
 }
 
 export interface Link {
@@ -87,6 +102,8 @@ export interface Link {
 }
 
 export interface Card {
+  // Stable identifier the EHR echoes back in feedback
+  uuid?: string;
   summary: string;
   detail?: string;
   indicator: Indicator;
@@ -94,13 +111,7 @@ export interface Card {
   suggestions?: Suggestion[];
   selectionBehavior?: 'at-most-one' | 'any';
   links?: Link[];
-  overrideReasons?: Array<{
-    reason: {
-      code: string;
-      system: string;
-      display: string;
-    };
-  }>;
+  overrideReasons?: Coding[];
 }
 
 // CDS Service Response
@@ -109,6 +120,30 @@ export interface CDSServiceResponse {
   systemActions?: Action[];
 }
 
+// CDS Feedback
+export type FeedbackOutcome = 'accepted' | 'overridden';
+
+export interface AcceptedSuggestion {
+  id: string;
+}
+
+export interface OverrideReason {
+  reason?: Coding;
+  userComment?: string;
+}
+
+export interface Feedback {
+  card: string;
+  outcome: FeedbackOutcome;
+  acceptedSuggestions?: AcceptedSuggestion[];
+  overrideReason?: OverrideReason;
+  outcomeTimestamp: string;
+}
+
+export interface FeedbackRequest {
+  feedback: Feedback[];
+}
+
 // CDS Service Definition
 export interface CDSService {
   hook: string;
@@ -174,7 +209,7 @@ export const isOrderSelectContext = (context: HookContext): context is OrderSele
 };
 
 export const isOrderSignContext = (context: HookContext): context is OrderSignContext => {
-  return 'draftOrders' in context;
+  return 'draftOrders' in context && !('selections' in context);
 };
 
 // Utility Types
@@ -201,11 +236,28 @@ export interface CDSServiceConfig {
   };
 }
 
+// An EHR allowed to call our services; a token's jku header must be one of its jwks
+export interface TrustedIssuer {
+  iss: string;
+  // JWKS URLs or local file paths
+  jwks: string[];
+  tenant?: string;
+}
+
+export interface CDSClientAuthConfig {
+  type: 'jwt' | 'oauth2';
+  enabled: boolean;
+  trustedIssuers: TrustedIssuer[];
+  // Accepted aud values in addition to the invoked service URL
+  audiences?: string[];
+  clockToleranceSec?: number;
+  // Longest exp - iat we accept; the spec asks EHRs for at most five minutes
+  maxLifetimeSec?: number;
+  jwksCacheTtlMs?: number;
+}
+
 export interface CDSHooksConfig {
   baseUrl: string;
   services: CDSServiceConfig[];
-  auth?: {
-    type: 'jwt' | 'oauth2';
-    [key: string]: any;
-  };
+  auth?: CDSClientAuthConfig;
 }
\ No newline at end of file
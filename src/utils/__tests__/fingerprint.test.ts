@@ -0,0 +1,68 @@
+// src/utils/__tests__/fingerprint.test.ts
+import { canonicalJson, clinicalFingerprint } from '../fingerprint';
+
+describe('canonicalJson', () => {
+    it('sorts object keys at every level', () => {
+        expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } }))
+            .toBe('{"a":{"c":null,"d":[2,{"e":0,"f":1}]},"b":1}');
+    });
+
+    it('drops undefined values and resource bookkeeping', () => {
+        expect(canonicalJson({ id: 'c1', note: undefined, meta: { versionId: '3' }, text: { div: '<div/>' } }))
+            .toBe('{"id":"c1"}');
+    });
+
+    it('keeps array order', () => {
+        expect(canonicalJson([2, 1])).not.toBe(canonicalJson([1, 2]));
+    });
+
+    it('serializes undefined as null', () => {
+        expect(canonicalJson(undefined)).toBe('null');
+    });
+});
+
+describe('clinicalFingerprint', () => {
+    const snapshot = {
+        patient: { id: 'p1', birthDate: '1960-01-01' },
+        conditions: [{ code: 'I10' }, { code: 'E11.9' }],
+        medications: [{ code: '860975', status: 'active' }],
+        observations: [{ code: '4548-4', value: 7.2 }, { code: '2160-0', value: 1.1 }],
+        encounters: { current: { id: 'e1' } }
+    };
+
+    it('is a sha256 hex digest', () => {
+        expect(clinicalFingerprint(snapshot)).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('ignores the order of conditions, medications and observations', () => {
+        const reordered = {
+            ...snapshot,
+            conditions: [...snapshot.conditions].reverse(),
+            observations: [...snapshot.observations].reverse()
+        };
+
+        expect(clinicalFingerprint(reordered)).toBe(clinicalFingerprint(snapshot));
+    });
+
+    it('ignores key order and metadata', () => {
+        const refetched = {
+            ...snapshot,
+            patient: { birthDate: '1960-01-01', id: 'p1', meta: { lastUpdated: '2024-05-01T00:00:00Z' } }
+        };
+
+        expect(clinicalFingerprint(refetched)).toBe(clinicalFingerprint(snapshot));
+    });
+
+    it('changes with the clinical data', () => {
+        const newResult = { ...snapshot, observations: [...snapshot.observations, { code: '4548-4', value: 8.1 }] };
+        const newEncounter = { ...snapshot, encounters: { current: { id: 'e2' } } };
+
+        expect(clinicalFingerprint(newResult)).not.toBe(clinicalFingerprint(snapshot));
+        expect(clinicalFingerprint(newEncounter)).not.toBe(clinicalFingerprint(snapshot));
+    });
+
+    it('treats missing lists as empty', () => {
+        expect(clinicalFingerprint({ patient: snapshot.patient }))
+            .toBe(clinicalFingerprint({ patient: snapshot.patient, conditions: [], medications: [], observations: [] }));
+    });
+});
@@ -0,0 +1,57 @@
+// src/utils/__tests__/jwt.test.ts
+import * as crypto from 'crypto';
+import { JwtError, decodeJwt, isSupportedAlgorithm, verifyJwtSignature } from '../jwt';
+import { generateTestKey, signJwt } from './jwtFixtures';
+
+describe('jwt', () => {
+    const rsaKey = generateTestKey('rsa-1', 'RS256');
+    const ecKey = generateTestKey('ec-1', 'ES256');
+
+    it('decodes the header and claims', () => {
+        const jwt = decodeJwt(signJwt(rsaKey, { iss: 'https://ehr.example.org', jti: 'abc' }));
+
+        expect(jwt.header).toMatchObject({ alg: 'RS256', kid: 'rsa-1' });
+        expect(jwt.claims).toEqual({ iss: 'https://ehr.example.org', jti: 'abc' });
+    });
+
+    it('rejects malformed tokens', () => {
+        expect(() => decodeJwt('not-a-jwt')).toThrow(JwtError);
+        expect(() => decodeJwt('a.b.c')).toThrow('Malformed JWT');
+    });
+
+    it.each([rsaKey, ecKey])('verifies $alg signatures', key => {
+        const jwt = decodeJwt(signJwt(key, { iss: 'https://ehr.example.org' }));
+
+        expect(verifyJwtSignature(jwt, key.jwk)).toBe(true);
+    });
+
+    it('fails a token whose claims were changed after signing', () => {
+        const [header, , signature] = signJwt(rsaKey, { sub: 'alice' }).split('.');
+        const forgedClaims = Buffer.from(JSON.stringify({ sub: 'mallory' })).toString('base64url');
+
+        expect(verifyJwtSignature(decodeJwt(`${header}.${forgedClaims}.${signature}`), rsaKey.jwk)).toBe(false);
+    });
+
+    it('fails a token signed with another key', () => {
+        const otherKey = generateTestKey('rsa-2', 'RS256');
+        const jwt = decodeJwt(signJwt(otherKey, { sub: 'alice' }));
+
+        expect(verifyJwtSignature(jwt, rsaKey.jwk)).toBe(false);
+    });
+
+    it.each(['none', 'HS256', 'PS256'])('does not accept %s', alg => {
+        expect(isSupportedAlgorithm(alg)).toBe(false);
+    });
+
+    it('refuses to verify an HMAC token with a public key as the secret', () => {
+        const header = Buffer.from(JSON.stringify({ alg: 'HS256', kid: 'rsa-1' })).toString('base64url');
+        const claims = Buffer.from(JSON.stringify({ sub: 'mallory' })).toString('base64url');
+        const signature = crypto
+            .createHmac('sha256', JSON.stringify(rsaKey.jwk))
+            .update(`${header}.${claims}`)
+            .digest('base64url');
+
+        expect(() => verifyJwtSignature(decodeJwt(`${header}.${claims}.${signature}`), rsaKey.jwk))
+            .toThrow('Unsupported JWT algorithm HS256');
+    });
+});
@@ -0,0 +1,37 @@
+// src/utils/__tests__/jwtFixtures.ts
+import * as crypto from 'crypto';
+import { JwtClaims, JwtHeader } from '../jwt';
+
+export interface TestKey {
+    kid: string;
+    alg: string;
+    privateKey: crypto.KeyObject;
+    jwk: crypto.JsonWebKey & { kid: string; alg: string; use: string };
+}
+
+export function generateTestKey(kid: string, alg: 'RS256' | 'ES256' = 'RS256'): TestKey {
+    const { privateKey, publicKey } = alg === 'RS256'
+        ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+        : crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+    return { kid, alg, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg, use: 'sig' } };
+}
+
+function encode(part: object): string {
+    return Buffer.from(JSON.stringify(part)).toString('base64url');
+}
+
+/**
+ * Compact JWS signed with the key; header fields override the key's alg and kid
+ */
+export function signJwt(key: TestKey, claims: JwtClaims, header: Partial<JwtHeader> = {}): string {
+    const fullHeader = { alg: key.alg, typ: 'JWT', kid: key.kid, ...header };
+    const signingInput = `${encode(fullHeader)}.${encode(claims)}`;
+    const signature = crypto.sign(
+        'sha256',
+        Buffer.from(signingInput),
+        key.alg.startsWith('ES') ? { key: key.privateKey, dsaEncoding: 'ieee-p1363' } : key.privateKey
+    );
+
+    return `${signingInput}.${signature.toString('base64url')}`;
+}
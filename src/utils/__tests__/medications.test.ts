@@ -0,0 +1,187 @@
+// src/utils/__tests__/medications.test.ts
+import { FhirResource, Medication, MedicationDispense, MedicationRequest, MedicationStatement } from 'fhir/r4';
+import { normalizeMedication, normalizeMedications, resolveMedicationConcept } from '../medications';
+
+const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+const METFORMIN = { coding: [{ system: RXNORM, code: '860975', display: 'Metformin 500 MG Oral Tablet' }] };
+const LISINOPRIL = { coding: [{ system: RXNORM, code: '314076', display: 'Lisinopril 10 MG Oral Tablet' }] };
+
+function request(overrides: Partial<MedicationRequest> = {}): MedicationRequest {
+    return {
+        resourceType: 'MedicationRequest',
+        id: 'req-1',
+        status: 'active',
+        intent: 'order',
+        subject: { reference: 'Patient/123' },
+        medicationCodeableConcept: METFORMIN,
+        authoredOn: '2024-01-10',
+        ...overrides
+    };
+}
+
+function statement(overrides: Partial<MedicationStatement> = {}): MedicationStatement {
+    return {
+        resourceType: 'MedicationStatement',
+        id: 'stmt-1',
+        status: 'active',
+        subject: { reference: 'Patient/123' },
+        medicationCodeableConcept: METFORMIN,
+        effectiveDateTime: '2023-06-01',
+        ...overrides
+    };
+}
+
+function dispense(overrides: Partial<MedicationDispense> = {}): MedicationDispense {
+    return {
+        resourceType: 'MedicationDispense',
+        id: 'disp-1',
+        status: 'completed',
+        medicationCodeableConcept: LISINOPRIL,
+        whenHandedOver: '2024-05-01T00:00:00Z',
+        daysSupply: { value: 30 },
+        ...overrides
+    };
+}
+
+describe('normalizeMedication', () => {
+    it('describes the code, dose, route and frequency of a request', () => {
+        const medication = normalizeMedication(request({
+            dosageInstruction: [{
+                text: '500 mg twice daily',
+                route: { coding: [{ code: '26643006', display: 'Oral route' }] },
+                timing: { repeat: { frequency: 2, period: 1, periodUnit: 'd' } },
+                doseAndRate: [{ doseQuantity: { value: 500, unit: 'mg' } }]
+            }]
+        }));
+
+        expect(medication).toMatchObject({
+            resourceType: 'MedicationRequest',
+            status: 'active',
+            intent: 'order',
+            code: '860975',
+            system: RXNORM,
+            display: 'Metformin 500 MG Oral Tablet',
+            dose: { value: 500, unit: 'mg' },
+            dosageText: '500 mg twice daily',
+            route: 'Oral route',
+            frequency: '2 times per day',
+            startDate: '2024-01-10',
+            sources: ['MedicationRequest']
+        });
+    });
+
+    it('describes multi-unit periods', () => {
+        const medication = normalizeMedication(request({
+            dosageInstruction: [{ timing: { repeat: { frequency: 1, period: 2, periodUnit: 'wk' } } }]
+        }));
+
+        expect(medication.frequency).toBe('1 time per 2 weeks');
+    });
+
+    it.each([
+        ['MedicationRequest', 'cancelled', 'stopped'],
+        ['MedicationRequest', 'draft', 'intended'],
+        ['MedicationStatement', 'not-taken', 'stopped'],
+        ['MedicationStatement', 'intended', 'intended'],
+        ['MedicationDispense', 'declined', 'stopped']
+    ])('maps a %s status of %s to %s', (resourceType, status, expected) => {
+        const resource = { resourceType, status, medicationCodeableConcept: METFORMIN };
+
+        expect(normalizeMedication(resource as MedicationRequest).status).toBe(expected);
+    });
+
+    it('keeps a dispense active only while its supply lasts', () => {
+        const current = new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString();
+
+        expect(normalizeMedication(dispense({ whenHandedOver: current })).status).toBe('active');
+        expect(normalizeMedication(dispense({ whenHandedOver: '2020-01-01T00:00:00Z' }))).toMatchObject({
+            status: 'completed',
+            endDate: '2020-01-31T00:00:00.000Z'
+        });
+    });
+
+    it('falls back to the reference display', () => {
+        const medication = normalizeMedication(request({
+            medicationCodeableConcept: undefined,
+            medicationReference: { reference: 'Medication/unknown', display: 'Insulin glargine' }
+        }));
+
+        expect(medication).toMatchObject({ code: undefined, display: 'Insulin glargine' });
+    });
+});
+
+describe('resolveMedicationConcept', () => {
+    it('follows a reference to a contained Medication', () => {
+        const contained: Medication = { resourceType: 'Medication', id: 'med', code: LISINOPRIL };
+        const resource = request({
+            medicationCodeableConcept: undefined,
+            medicationReference: { reference: '#med' },
+            contained: [contained]
+        });
+
+        expect(resolveMedicationConcept(resource)).toBe(LISINOPRIL);
+    });
+
+    it('follows an absolute reference to a Medication in the bundle', () => {
+        const included = new Map<string, Medication>([['Medication/42', { resourceType: 'Medication', id: '42', code: LISINOPRIL }]]);
+        const resource = request({
+            medicationCodeableConcept: undefined,
+            medicationReference: { reference: 'https://fhir.example.org/Medication/42/_history/2' }
+        });
+
+        expect(resolveMedicationConcept(resource, included)).toBe(LISINOPRIL);
+    });
+});
+
+describe('normalizeMedications', () => {
+    it('merges records of the same medication, keeping the request', () => {
+        const medications = normalizeMedications([
+            statement({ dosage: [{ text: 'one tablet twice daily' }] }),
+            request()
+        ]);
+
+        expect(medications).toHaveLength(1);
+        expect(medications[0]).toMatchObject({
+            id: 'req-1',
+            resourceType: 'MedicationRequest',
+            dosageText: 'one tablet twice daily',
+            startDate: '2023-06-01',
+            sources: ['MedicationStatement', 'MedicationRequest']
+        });
+    });
+
+    it('prefers an active record over a more authoritative inactive one', () => {
+        const [medication] = normalizeMedications([request({ status: 'stopped' }), statement()]);
+
+        expect(medication).toMatchObject({ resourceType: 'MedicationStatement', status: 'active' });
+    });
+
+    it('resolves references to Medication resources in the input', () => {
+        const resources: FhirResource[] = [
+            { resourceType: 'Medication', id: 'lis', code: LISINOPRIL },
+            request({ medicationCodeableConcept: undefined, medicationReference: { reference: 'Medication/lis' } })
+        ];
+
+        expect(normalizeMedications(resources).map(medication => medication.code)).toEqual(['314076']);
+    });
+
+    it('drops entered-in-error records, uncoded records and other resources', () => {
+        const resources: Array<FhirResource | undefined> = [
+            request({ status: 'entered-in-error' }),
+            request({ id: 'req-2', medicationCodeableConcept: {} }),
+            { resourceType: 'Condition', subject: { reference: 'Patient/123' } },
+            undefined
+        ];
+
+        expect(normalizeMedications(resources)).toEqual([]);
+    });
+
+    it('merges uncoded records by display name', () => {
+        const medications = normalizeMedications([
+            request({ medicationCodeableConcept: { text: 'Vitamin D 1000 IU' } }),
+            statement({ medicationCodeableConcept: { text: 'vitamin d 1000 iu' } })
+        ]);
+
+        expect(medications).toHaveLength(1);
+    });
+});
@@ -0,0 +1,153 @@
+// src/utils/__tests__/observations.test.ts
+import { FhirResource, Observation } from 'fhir/r4';
+import {
+    formatObservationValue,
+    formatReferenceRange,
+    normalizeObservation,
+    normalizeObservations
+} from '../observations';
+
+const LOINC = 'http://loinc.org';
+
+function observation(overrides: Partial<Observation> = {}): Observation {
+    return {
+        resourceType: 'Observation',
+        id: 'obs-1',
+        status: 'final',
+        category: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/observation-category', code: 'laboratory' }] }],
+        code: { coding: [{ system: LOINC, code: '2823-3', display: 'Potassium' }] },
+        effectiveDateTime: '2024-05-01T08:00:00Z',
+        ...overrides
+    };
+}
+
+describe('normalizeObservation', () => {
+    it('describes a quantity with its interpretation and reference range', () => {
+        const normalized = normalizeObservation(observation({
+            valueQuantity: { value: 5.9, unit: 'mmol/L', system: 'http://unitsofmeasure.org', code: 'mmol/L' },
+            interpretation: [{ coding: [{ code: 'H' }] }],
+            referenceRange: [{ low: { value: 3.5, unit: 'mmol/L' }, high: { value: 5.1, unit: 'mmol/L' } }]
+        }));
+
+        expect(normalized).toEqual({
+            id: 'obs-1',
+            status: 'final',
+            code: '2823-3',
+            system: LOINC,
+            display: 'Potassium',
+            category: { code: 'laboratory', system: 'http://terminology.hl7.org/CodeSystem/observation-category', display: undefined },
+            effectiveDateTime: '2024-05-01T08:00:00Z',
+            issued: undefined,
+            value: { type: 'Quantity', value: 5.9, unit: 'mmol/L', system: 'http://unitsofmeasure.org', code: 'mmol/L' },
+            interpretation: 'H',
+            referenceRange: [{ low: { value: 3.5, unit: 'mmol/L' }, high: { value: 5.1, unit: 'mmol/L' } }]
+        });
+    });
+
+    it('keeps the comparator of a censored result', () => {
+        const normalized = normalizeObservation(observation({ valueQuantity: { value: 90, comparator: '>', code: 'mL/min/{1.73_m2}' } }));
+
+        expect(normalized.value).toEqual({
+            type: 'Quantity',
+            value: 90,
+            unit: 'mL/min/{1.73_m2}',
+            system: undefined,
+            code: 'mL/min/{1.73_m2}',
+            comparator: '>'
+        });
+    });
+
+    it('describes each component of a panel', () => {
+        const normalized = normalizeObservation(observation({
+            code: { text: 'Blood pressure', coding: [{ system: LOINC, code: '85354-9' }] },
+            component: [
+                { code: { coding: [{ system: LOINC, code: '8480-6', display: 'Systolic' }] }, valueQuantity: { value: 142, unit: 'mmHg' } },
+                { code: { coding: [{ system: LOINC, code: '8462-4', display: 'Diastolic' }] }, valueQuantity: { value: 91, unit: 'mmHg' } }
+            ]
+        }));
+
+        expect(normalized.display).toBe('Blood pressure');
+        expect(normalized.value).toBeUndefined();
+        expect(normalized.components?.map(component => [component.code, formatObservationValue(component.value)]))
+            .toEqual([['8480-6', '142 mmHg'], ['8462-4', '91 mmHg']]);
+    });
+
+    it('records why a value is absent', () => {
+        const normalized = normalizeObservation(observation({ dataAbsentReason: { coding: [{ code: 'error', display: 'Error' }] } }));
+
+        expect(normalized).toMatchObject({ dataAbsentReason: 'Error' });
+        expect(normalized.value).toBeUndefined();
+    });
+
+    it('lists the members of a panel by id', () => {
+        const normalized = normalizeObservation(observation({
+            hasMember: [{ reference: 'Observation/k' }, { reference: 'https://fhir.example.org/Observation/na' }]
+        }));
+
+        expect(normalized.members).toEqual(['k', 'na']);
+    });
+
+    it('takes the start of an effective period', () => {
+        const normalized = normalizeObservation(observation({
+            effectiveDateTime: undefined,
+            effectivePeriod: { start: '2024-05-01T00:00:00Z', end: '2024-05-02T00:00:00Z' }
+        }));
+
+        expect(normalized.effectiveDateTime).toBe('2024-05-01T00:00:00Z');
+    });
+
+    it.each<[string, Partial<Observation>, string]>([
+        ['CodeableConcept', { valueCodeableConcept: { coding: [{ code: '10828004', display: 'Positive' }] } }, 'Positive'],
+        ['String', { valueString: 'Trace' }, 'Trace'],
+        ['Boolean', { valueBoolean: false }, 'No'],
+        ['Integer', { valueInteger: 0 }, '0'],
+        ['Range', { valueRange: { low: { value: 1, unit: 'mg' }, high: { value: 2, unit: 'mg' } } }, '1 mg - 2 mg'],
+        ['Ratio', { valueRatio: { numerator: { value: 1 }, denominator: { value: 40 } } }, '1:40'],
+        ['Period', { valuePeriod: { start: '2024-01-01' } }, '2024-01-01 to ?']
+    ])('normalizes and formats %s values', (type, value, formatted) => {
+        const normalized = normalizeObservation(observation(value));
+
+        expect(normalized.value?.type).toBe(type);
+        expect(formatObservationValue(normalized.value)).toBe(formatted);
+    });
+});
+
+describe('normalizeObservations', () => {
+    it('drops cancelled and entered-in-error observations and other resources', () => {
+        const resources: Array<FhirResource | undefined> = [
+            observation(),
+            observation({ id: 'cancelled', status: 'cancelled' }),
+            observation({ id: 'error', status: 'entered-in-error' }),
+            { resourceType: 'Condition', subject: { reference: 'Patient/123' } },
+            undefined
+        ];
+
+        expect(normalizeObservations(resources).map(normalized => normalized.id)).toEqual(['obs-1']);
+    });
+});
+
+describe('formatReferenceRange', () => {
+    it('prefers the text of the range', () => {
+        expect(formatReferenceRange({ text: '<5.7%', high: { value: 5.7, unit: '%' } })).toBe('<5.7%');
+    });
+
+    it('describes open ranges', () => {
+        expect(formatReferenceRange({ low: { value: 60, unit: 'mL/min' } })).toBe('>= 60 mL/min');
+        expect(formatReferenceRange({ high: { value: 200, unit: 'mg/dL' } })).toBe('<= 200 mg/dL');
+        expect(formatReferenceRange({})).toBe('');
+    });
+
+    it('describes the age and population a range applies to', () => {
+        const [range] = normalizeObservation(observation({
+            referenceRange: [{
+                low: { value: 0.6 },
+                high: { value: 1.2 },
+                appliesTo: [{ text: 'Male' }],
+                age: { low: { value: 18, unit: 'years' }, high: { value: 65, unit: 'years' } }
+            }]
+        })).referenceRange!;
+
+        expect(range).toMatchObject({ appliesTo: ['Male'], age: '18-65 years' });
+        expect(formatReferenceRange(range)).toBe('0.6 - 1.2');
+    });
+});
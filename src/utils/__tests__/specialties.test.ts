@@ -0,0 +1,98 @@
+// src/utils/__tests__/specialties.test.ts
+import { CodedSpecialty, matchSpecialtyName, normalizeSpecialist } from '../specialties';
+
+const CARDIOLOGY = '394579002';
+const NEPHROLOGY = '394589003';
+
+describe('normalizeSpecialist', () => {
+    it.each<[string, CodedSpecialty, Partial<CodedSpecialty>]>([
+        ['a known code and its display', { specialty: 'Nephrology', code: NEPHROLOGY }, { specialty: 'Nephrology', code: NEPHROLOGY }],
+        ['a known code and a synonym', { specialty: 'Cardiologist', code: CARDIOLOGY }, { specialty: 'Cardiology', code: CARDIOLOGY }],
+        ['a known code with whitespace', { specialty: 'Nephrology', code: ` ${NEPHROLOGY} ` }, { code: NEPHROLOGY }],
+        ['a known code and a loosely named specialty', { specialty: 'Heart doctor', code: CARDIOLOGY }, { specialty: 'Cardiology' }]
+    ])('keeps %s', (_case, specialist, expected) => {
+        const normalized = normalizeSpecialist(specialist);
+
+        expect(normalized).toMatchObject(expected);
+        expect(normalized.codeValidation?.status).toBe('valid');
+        if (normalized.specialty !== specialist.specialty) {
+            expect(normalized.codeValidation?.originalSpecialty).toBe(specialist.specialty);
+        }
+    });
+
+    it.each<[string, string, string]>([
+        ['nephrologist', 'Nephrology', NEPHROLOGY],
+        ['ENT', 'Ear, nose and throat surgery', '394604002'],
+        ['OB/GYN', 'Obstetrics and gynecology', '394585009'],
+        ['Allergy & Immunology', 'Allergy', '408439002'],
+        ['Primary care', 'General practice', '394814009'],
+        ['Pulmonology', 'Pulmonary medicine', '418112009']
+    ])('maps the alias %s to %s', (specialty, display, code) => {
+        const normalized = normalizeSpecialist({ specialty, code: '000000' });
+
+        expect(normalized).toMatchObject({
+            specialty: display,
+            code,
+            codeValidation: { status: 'mapped', originalCode: '000000', originalSpecialty: specialty, similarity: 1 }
+        });
+    });
+
+    it.each<[string, string]>([
+        ['Cardiolgy', 'Cardiology'],
+        ['Gastroenterolgist', 'Gastroenterology'],
+        ['Rheumatologists', 'Rheumatology'],
+        ['Dermatolgist', 'Dermatology'],
+        ['Paediatrician', 'Pediatric specialty']
+    ])('maps the near miss %s to %s', (specialty, display) => {
+        const normalized = normalizeSpecialist<CodedSpecialty>({ specialty, code: 'unknown' });
+
+        expect(normalized.specialty).toBe(display);
+        expect(normalized.codeValidation?.status).toBe('mapped');
+        expect(normalized.codeValidation?.similarity).toBeGreaterThanOrEqual(0.75);
+        expect(normalized.codeValidation?.similarity).toBeLessThan(1);
+    });
+
+    it('replaces a valid code that contradicts an exact specialty name', () => {
+        const normalized = normalizeSpecialist({ specialty: 'Neurology', code: CARDIOLOGY });
+
+        expect(normalized).toMatchObject({
+            specialty: 'Neurology',
+            code: '394591006',
+            codeValidation: { status: 'mapped', originalCode: CARDIOLOGY, similarity: 1 }
+        });
+    });
+
+    it.each<[string, CodedSpecialty]>([
+        ['an unknown specialty', { specialty: 'Astrology', code: '123456' }],
+        ['a specialty outside the value set', { specialty: 'Veterinary medicine', code: '123456' }],
+        ['an empty specialty', { specialty: '', code: '' }],
+        ['punctuation only', { specialty: '???', code: 'n/a' }]
+    ])('flags %s as unverified and keeps what the model returned', (_case, specialist) => {
+        const normalized = normalizeSpecialist(specialist);
+
+        expect(normalized).toEqual({ ...specialist, codeValidation: { status: 'unverified' } });
+    });
+
+    it('keeps the other fields of the recommendation', () => {
+        const normalized = normalizeSpecialist({ specialty: 'Cardiologist', code: '1', priority: 'urgent', confidence: 0.9 });
+
+        expect(normalized).toMatchObject({ priority: 'urgent', confidence: 0.9, specialty: 'Cardiology' });
+    });
+
+    it('returns already checked specialties unchanged', () => {
+        const checked = normalizeSpecialist({ specialty: 'Astrology', code: '1' });
+
+        expect(normalizeSpecialist(checked)).toBe(checked);
+    });
+});
+
+describe('matchSpecialtyName', () => {
+    it('ignores case, punctuation and ampersands', () => {
+        expect(matchSpecialtyName('  EAR, NOSE & THROAT ')).toMatchObject({ concept: { code: '394604002' }, similarity: 1 });
+    });
+
+    it('matches nothing for an empty name', () => {
+        expect(matchSpecialtyName('')).toBeNull();
+        expect(matchSpecialtyName(' - ')).toBeNull();
+    });
+});
@@ -0,0 +1,13 @@
+// src/utils/cardIds.ts
+import { v5 as uuidv5 } from 'uuid';
+
+// Fixed namespace so the same card always gets the same uuid across restarts
+const CARD_NAMESPACE = '6f1c2a57-3f0e-4d8b-9a51-2c7d4e8b9f13';
+
+/**
+ * Builds a deterministic uuid for a card or suggestion from the parts that identify it,
+ * e.g. stableCardId('analysis', analysisId, 'recommendations')
+ */
+export function stableCardId(...parts: string[]): string {
+    return uuidv5(parts.join('/'), CARD_NAMESPACE);
+}
@@ -0,0 +1,99 @@
+// src/utils/encounters.ts
+import { Encounter, FhirResource } from 'fhir/r4';
+
+export type CareSetting = 'inpatient' | 'emergency' | 'observation' | 'outpatient' | 'virtual' | 'home' | 'other';
+
+export interface EncounterSummary {
+    id?: string;
+    status?: string;
+    class?: string;
+    setting: CareSetting;
+    types: string[];
+    reasons: string[];
+    start?: string;
+    end?: string;
+    dischargeDisposition?: string;
+}
+
+export interface EncounterContext {
+    current?: EncounterSummary;
+    recent: EncounterSummary[];
+}
+
+// HL7 v3 ActEncounterCode values used in Encounter.class
+const SETTING_BY_CLASS: Record<string, CareSetting> = {
+    IMP: 'inpatient',
+    ACUTE: 'inpatient',
+    NONAC: 'inpatient',
+    SS: 'inpatient',
+    EMER: 'emergency',
+    OBSENC: 'observation',
+    AMB: 'outpatient',
+    FLD: 'outpatient',
+    PRENC: 'outpatient',
+    VR: 'virtual',
+    HH: 'home'
+};
+
+const DEFAULT_RECENT_LIMIT = 5;
+
+function codeableText(concept?: { text?: string; coding?: Array<{ display?: string; code?: string }> }): string | undefined {
+    return concept?.text || concept?.coding?.[0]?.display || concept?.coding?.[0]?.code;
+}
+
+export function summarizeEncounter(encounter: Encounter): EncounterSummary {
+    const classCode = encounter.class?.code;
+
+    return {
+        id: encounter.id,
+        status: encounter.status,
+        class: encounter.class?.display || classCode,
+        setting: (classCode && SETTING_BY_CLASS[classCode.toUpperCase()]) || 'other',
+        types: (encounter.type || [])
+            .map(codeableText)
+            .filter((text): text is string => Boolean(text)),
+        reasons: [
+            ...(encounter.reasonCode || []).map(codeableText),
+            ...(encounter.reasonReference || []).map(reference => reference.display)
+        ].filter((text): text is string => Boolean(text)),
+        start: encounter.period?.start,
+        end: encounter.period?.end,
+        dischargeDisposition: codeableText(encounter.hospitalization?.dischargeDisposition)
+    };
+}
+
+/**
+ * Split prefetched encounters into the encounter the hook was invoked in and the most
+ * recent others. Without an encounterId, an in-progress encounter is treated as current.
+ */
+export function buildEncounterContext(
+    resources: Array<FhirResource | undefined>,
+    currentEncounterId?: string,
+    recentLimit: number = DEFAULT_RECENT_LIMIT
+): EncounterContext {
+    const byId = new Map<string, Encounter>();
+    const encounters: Encounter[] = [];
+
+    for (const resource of resources) {
+        if (!resource || resource.resourceType !== 'Encounter') continue;
+        if (resource.id) {
+            if (byId.has(resource.id)) continue;
+            byId.set(resource.id, resource);
+        }
+        encounters.push(resource);
+    }
+
+    const current = (currentEncounterId && byId.get(currentEncounterId)) ||
+        (!currentEncounterId ? encounters.find(encounter => encounter.status === 'in-progress') : undefined);
+
+    const recent = encounters
+        .filter(encounter => encounter !== current && encounter.status !== 'entered-in-error' && encounter.status !== 'cancelled')
+        .sort((a, b) => new Date(b.period?.start || 0).getTime() - new Date(a.period?.start || 0).getTime())
+        .slice(0, recentLimit)
+        .map(summarizeEncounter);
+
+    return {
+        ...(current && { current: summarizeEncounter(current) }),
+        recent
+    };
+}
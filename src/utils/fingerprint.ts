@@ -0,0 +1,52 @@
+// src/utils/fingerprint.ts
+import { createHash } from 'crypto';
+
+export interface ClinicalSnapshot {
+    patient?: unknown;
+    conditions?: unknown[];
+    medications?: unknown[];
+    observations?: unknown[];
+    encounters?: unknown;
+}
+
+// Resource bookkeeping that changes without the clinical content changing
+const IGNORED_KEYS = new Set(['meta', 'text']);
+
+/**
+ * JSON with object keys sorted and undefined values dropped, so equal data always
+ * serializes to the same string
+ */
+export function canonicalJson(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value) ?? 'null';
+    }
+
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+
+    const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([key, entry]) => entry !== undefined && !IGNORED_KEYS.has(key))
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+
+    return `{${entries.join(',')}}`;
+}
+
+/**
+ * Hash of the clinical data an analysis is based on. The order of conditions, medications
+ * and observations does not matter, so the same chart fetched twice hashes the same.
+ */
+export function clinicalFingerprint(snapshot: ClinicalSnapshot): string {
+    const unordered = (items: unknown[] = []) => items.map(canonicalJson).sort();
+
+    return createHash('sha256')
+        .update(canonicalJson({
+            patient: snapshot.patient,
+            conditions: unordered(snapshot.conditions),
+            medications: unordered(snapshot.medications),
+            observations: unordered(snapshot.observations),
+            encounters: snapshot.encounters
+        }))
+        .digest('hex');
+}
@@ -0,0 +1,57 @@
+// src/utils/jsonFileStore.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * A JSON document kept in a local file. Updates are serialized and written atomically
+ * (temporary file, then rename), so a crash never leaves a half-written file behind.
+ */
+export class JsonFileStore<T> {
+    private data: T | null = null;
+    // Serializes read-modify-write cycles against the file
+    private writeChain: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        private readonly filePath: string,
+        private readonly initial: () => T
+    ) {}
+
+    async read(): Promise<T> {
+        if (this.data === null) {
+            this.data = await this.load();
+        }
+        return this.data;
+    }
+
+    /**
+     * Apply mutate to the document and persist it. Resolves with mutate's return value.
+     */
+    update<R>(mutate: (data: T) => R): Promise<R> {
+        const result = this.writeChain.then(async () => {
+            const data = await this.read();
+            const value = mutate(data);
+            await this.write(data);
+            return value;
+        });
+        this.writeChain = result.catch(() => undefined);
+        return result;
+    }
+
+    private async load(): Promise<T> {
+        try {
+            return JSON.parse(await fs.readFile(this.filePath, 'utf8')) as T;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return this.initial();
+            }
+            throw error;
+        }
+    }
+
+    private async write(data: T): Promise<void> {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(data));
+        await fs.rename(tempPath, this.filePath);
+    }
+}
@@ -0,0 +1,91 @@
+// src/utils/jwt.ts
+import * as crypto from 'crypto';
+
+export interface JwtHeader {
+    alg: string;
+    typ?: string;
+    kid?: string;
+    jku?: string;
+}
+
+export interface JwtClaims {
+    iss?: string;
+    sub?: string;
+    aud?: string | string[];
+    exp?: number;
+    iat?: number;
+    jti?: string;
+    tenant?: string;
+    [key: string]: unknown;
+}
+
+export interface DecodedJwt {
+    header: JwtHeader;
+    claims: JwtClaims;
+    signingInput: string;
+    signature: Buffer;
+}
+
+export class JwtError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JwtError';
+    }
+}
+
+// Algorithms CDS Hooks EHRs are expected to use; 'none' and HMAC are never accepted
+const ALGORITHMS: Record<string, { hash: string; ecdsa: boolean }> = {
+    RS256: { hash: 'sha256', ecdsa: false },
+    RS384: { hash: 'sha384', ecdsa: false },
+    RS512: { hash: 'sha512', ecdsa: false },
+    ES256: { hash: 'sha256', ecdsa: true },
+    ES384: { hash: 'sha384', ecdsa: true },
+    ES512: { hash: 'sha512', ecdsa: true }
+};
+
+export function isSupportedAlgorithm(alg: string): boolean {
+    return alg in ALGORITHMS;
+}
+
+/**
+ * Split a compact JWS into its parts without verifying anything
+ */
+export function decodeJwt(token: string): DecodedJwt {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new JwtError('Malformed JWT');
+    }
+
+    const [encodedHeader, encodedClaims, encodedSignature] = parts;
+
+    try {
+        return {
+            header: JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8')),
+            claims: JSON.parse(Buffer.from(encodedClaims, 'base64url').toString('utf8')),
+            signingInput: `${encodedHeader}.${encodedClaims}`,
+            signature: Buffer.from(encodedSignature, 'base64url')
+        };
+    } catch {
+        throw new JwtError('Malformed JWT');
+    }
+}
+
+/**
+ * Check a decoded JWT's signature against a public JWK
+ */
+export function verifyJwtSignature(jwt: DecodedJwt, jwk: crypto.JsonWebKey): boolean {
+    const algorithm = ALGORITHMS[jwt.header.alg];
+    if (!algorithm) {
+        throw new JwtError(`Unsupported JWT algorithm ${jwt.header.alg}`);
+    }
+
+    const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+
+    return crypto.verify(
+        algorithm.hash,
+        Buffer.from(jwt.signingInput),
+        // JWS carries ECDSA signatures as raw r||s rather than DER
+        algorithm.ecdsa ? { key, dsaEncoding: 'ieee-p1363' } : key,
+        jwt.signature
+    );
+}
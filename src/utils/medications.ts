@@ -0,0 +1,306 @@
+// src/utils/medications.ts
+import {
+    CodeableConcept,
+    Dosage,
+    FhirResource,
+    Medication,
+    MedicationAdministration,
+    MedicationDispense,
+    MedicationRequest,
+    MedicationStatement,
+    Quantity,
+    Reference
+} from 'fhir/r4';
+
+export type MedicationResource = MedicationRequest | MedicationStatement | MedicationDispense | MedicationAdministration;
+
+export const MEDICATION_RESOURCE_TYPES = ['MedicationRequest', 'MedicationStatement', 'MedicationDispense', 'MedicationAdministration'];
+
+// Medication list status, comparable across all four resource types
+export type MedicationListStatus = 'active' | 'intended' | 'on-hold' | 'completed' | 'stopped' | 'entered-in-error' | 'unknown';
+
+export interface NormalizedMedication {
+    id?: string;
+    resourceType: MedicationResource['resourceType'];
+    status: MedicationListStatus;
+    // Status exactly as recorded on the source resource
+    resourceStatus?: string;
+    intent?: string;
+    code?: string;
+    system?: string;
+    display?: string;
+    dose?: {
+        value?: number;
+        unit?: string;
+    };
+    dosageText?: string;
+    route?: string;
+    frequency?: string;
+    asNeeded?: boolean;
+    startDate?: string;
+    endDate?: string;
+    authoredOn?: string;
+    // Every resource type this medication was reported by, after merging duplicates
+    sources: Array<MedicationResource['resourceType']>;
+}
+
+const STATUS_MAP: Record<MedicationResource['resourceType'], Record<string, MedicationListStatus>> = {
+    MedicationRequest: {
+        active: 'active',
+        'on-hold': 'on-hold',
+        completed: 'completed',
+        stopped: 'stopped',
+        cancelled: 'stopped',
+        draft: 'intended',
+        'entered-in-error': 'entered-in-error'
+    },
+    MedicationStatement: {
+        active: 'active',
+        intended: 'intended',
+        'on-hold': 'on-hold',
+        completed: 'completed',
+        stopped: 'stopped',
+        'not-taken': 'stopped',
+        'entered-in-error': 'entered-in-error'
+    },
+    MedicationDispense: {
+        preparation: 'intended',
+        'in-progress': 'active',
+        completed: 'active',
+        'on-hold': 'on-hold',
+        cancelled: 'stopped',
+        declined: 'stopped',
+        stopped: 'stopped',
+        'entered-in-error': 'entered-in-error'
+    },
+    MedicationAdministration: {
+        'in-progress': 'active',
+        'not-done': 'stopped',
+        'on-hold': 'on-hold',
+        completed: 'completed',
+        stopped: 'stopped',
+        'entered-in-error': 'entered-in-error'
+    }
+};
+
+// Which record to keep when several describe the same medication, most authoritative first
+const SOURCE_PRIORITY: Array<MedicationResource['resourceType']> = [
+    'MedicationRequest',
+    'MedicationStatement',
+    'MedicationDispense',
+    'MedicationAdministration'
+];
+
+const PERIOD_UNITS: Record<string, string> = {
+    s: 'second', min: 'minute', h: 'hour', d: 'day', wk: 'week', mo: 'month', a: 'year'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The medication concept of a medication resource, following medicationReference into
+ * contained resources (#id) or Medication resources included in the same bundle
+ */
+export function resolveMedicationConcept(
+    resource: MedicationResource,
+    includedMedications: Map<string, Medication> = new Map()
+): CodeableConcept | undefined {
+    if (resource.medicationCodeableConcept) {
+        return resource.medicationCodeableConcept;
+    }
+
+    const reference = resource.medicationReference;
+    if (!reference) {
+        return undefined;
+    }
+
+    const medication = findReferencedMedication(resource, reference, includedMedications);
+    if (medication?.code) {
+        return medication.code;
+    }
+
+    return reference.display ? { text: reference.display } : undefined;
+}
+
+/**
+ * Normalize medication resources of any of the four FHIR medication types into one list.
+ * Medication resources in the input are used to resolve medicationReference; entries for
+ * the same medication are merged, keeping the most authoritative record.
+ */
+export function normalizeMedications(resources: Array<FhirResource | undefined>): NormalizedMedication[] {
+    const includedMedications = new Map<string, Medication>();
+    for (const resource of resources) {
+        if (resource?.resourceType === 'Medication' && resource.id) {
+            includedMedications.set(`Medication/${resource.id}`, resource);
+        }
+    }
+
+    const merged = new Map<string, NormalizedMedication>();
+
+    for (const resource of resources) {
+        if (!resource || !MEDICATION_RESOURCE_TYPES.includes(resource.resourceType)) continue;
+
+        const medication = normalizeMedication(resource as MedicationResource, includedMedications);
+        if (medication.status === 'entered-in-error' || (!medication.code && !medication.display)) continue;
+
+        const key = medication.code
+            ? `${medication.system || ''}|${medication.code}`
+            : `display|${medication.display?.toLowerCase()}`;
+        const existing = merged.get(key);
+
+        merged.set(key, existing ? mergeMedications(existing, medication) : medication);
+    }
+
+    return Array.from(merged.values());
+}
+
+export function normalizeMedication(
+    resource: MedicationResource,
+    includedMedications: Map<string, Medication> = new Map()
+): NormalizedMedication {
+    const concept = resolveMedicationConcept(resource, includedMedications);
+    const coding = concept?.coding?.find(c => c.code) || concept?.coding?.[0];
+    const dosing = describeDosing(resource);
+    const dates = describeDates(resource);
+
+    return {
+        id: resource.id,
+        resourceType: resource.resourceType,
+        status: listStatus(resource, dates.endDate),
+        resourceStatus: resource.status,
+        intent: resource.resourceType === 'MedicationRequest' ? resource.intent : undefined,
+        code: coding?.code,
+        system: coding?.system,
+        display: concept?.text || coding?.display,
+        ...dosing,
+        ...dates,
+        authoredOn: resource.resourceType === 'MedicationRequest' ? resource.authoredOn : undefined,
+        sources: [resource.resourceType]
+    };
+}
+
+function findReferencedMedication(
+    resource: MedicationResource,
+    reference: Reference,
+    includedMedications: Map<string, Medication>
+): Medication | undefined {
+    if (reference.reference?.startsWith('#')) {
+        const containedId = reference.reference.slice(1);
+        return resource.contained?.find(
+            (contained): contained is Medication => contained.resourceType === 'Medication' && contained.id === containedId
+        );
+    }
+
+    // Absolute references end in Medication/{id} as well
+    const match = reference.reference?.match(/Medication\/([^/]+)(\/_history\/[^/]+)?$/);
+    return match ? includedMedications.get(`Medication/${match[1]}`) : undefined;
+}
+
+function listStatus(resource: MedicationResource, endDate?: string): MedicationListStatus {
+    const status = STATUS_MAP[resource.resourceType][resource.status] || 'unknown';
+
+    // A dispense is only current while its supply lasts
+    if (resource.resourceType === 'MedicationDispense' && status === 'active' && endDate) {
+        return new Date(endDate).getTime() < Date.now() ? 'completed' : 'active';
+    }
+
+    return status;
+}
+
+function describeDosing(resource: MedicationResource): Pick<NormalizedMedication, 'dose' | 'dosageText' | 'route' | 'frequency' | 'asNeeded'> {
+    if (resource.resourceType === 'MedicationAdministration') {
+        const dosage = resource.dosage;
+        return {
+            dose: toDose(dosage?.dose),
+            dosageText: dosage?.text,
+            route: codeText(dosage?.route)
+        };
+    }
+
+    const dosage: Dosage | undefined = resource.resourceType === 'MedicationStatement'
+        ? resource.dosage?.[0]
+        : resource.dosageInstruction?.[0];
+
+    if (!dosage) {
+        return {};
+    }
+
+    return {
+        dose: toDose(dosage.doseAndRate?.[0]?.doseQuantity),
+        dosageText: dosage.text,
+        route: codeText(dosage.route),
+        frequency: describeFrequency(dosage),
+        asNeeded: dosage.asNeededBoolean ?? (dosage.asNeededCodeableConcept ? true : undefined)
+    };
+}
+
+function describeDates(resource: MedicationResource): Pick<NormalizedMedication, 'startDate' | 'endDate'> {
+    switch (resource.resourceType) {
+        case 'MedicationRequest': {
+            const bounds = resource.dosageInstruction?.[0]?.timing?.repeat?.boundsPeriod;
+            const validity = resource.dispenseRequest?.validityPeriod;
+            return {
+                startDate: bounds?.start || validity?.start || resource.authoredOn,
+                endDate: bounds?.end || validity?.end
+            };
+        }
+        case 'MedicationStatement':
+            return {
+                startDate: resource.effectiveDateTime || resource.effectivePeriod?.start || resource.dateAsserted,
+                endDate: resource.effectivePeriod?.end
+            };
+        case 'MedicationDispense': {
+            const handedOver = resource.whenHandedOver || resource.whenPrepared;
+            const days = resource.daysSupply?.value;
+            return {
+                startDate: handedOver,
+                endDate: handedOver && days
+                    ? new Date(new Date(handedOver).getTime() + days * DAY_MS).toISOString()
+                    : undefined
+            };
+        }
+        case 'MedicationAdministration':
+            return {
+                startDate: resource.effectiveDateTime || resource.effectivePeriod?.start,
+                endDate: resource.effectiveDateTime || resource.effectivePeriod?.end
+            };
+    }
+}
+
+function describeFrequency(dosage: Dosage): string | undefined {
+    const timing = dosage.timing;
+    const repeat = timing?.repeat;
+
+    if (repeat?.frequency && repeat.period && repeat.periodUnit) {
+        const unit = PERIOD_UNITS[repeat.periodUnit] || repeat.periodUnit;
+        const every = repeat.period === 1 ? unit : `${repeat.period} ${unit}s`;
+        return `${repeat.frequency} time${repeat.frequency === 1 ? '' : 's'} per ${every}`;
+    }
+
+    return codeText(timing?.code);
+}
+
+function mergeMedications(existing: NormalizedMedication, incoming: NormalizedMedication): NormalizedMedication {
+    const sources = Array.from(new Set([...existing.sources, ...incoming.sources]));
+    const rank = (medication: NormalizedMedication) =>
+        (medication.status === 'active' ? 0 : SOURCE_PRIORITY.length) + SOURCE_PRIORITY.indexOf(medication.resourceType);
+    const [primary, secondary] = rank(incoming) < rank(existing) ? [incoming, existing] : [existing, incoming];
+
+    return {
+        ...primary,
+        dose: primary.dose || secondary.dose,
+        dosageText: primary.dosageText || secondary.dosageText,
+        route: primary.route || secondary.route,
+        frequency: primary.frequency || secondary.frequency,
+        startDate: [primary.startDate, secondary.startDate].filter(Boolean).sort()[0],
+        sources
+    };
+}
+
+function toDose(quantity?: Quantity): NormalizedMedication['dose'] {
+    return quantity ? { value: quantity.value, unit: quantity.unit || quantity.code } : undefined;
+}
+
+function codeText(concept?: CodeableConcept): string | undefined {
+    return concept?.text || concept?.coding?.[0]?.display || concept?.coding?.[0]?.code;
+}
@@ -0,0 +1,232 @@
+// src/utils/observations.ts
+import {
+    CodeableConcept,
+    FhirResource,
+    Observation,
+    ObservationComponent,
+    ObservationReferenceRange,
+    Quantity
+} from 'fhir/r4';
+
+export interface SimpleQuantity {
+    value?: number;
+    unit?: string;
+    comparator?: string;
+}
+
+export type ObservationValue =
+    | { type: 'Quantity'; value?: number; unit?: string; system?: string; code?: string; comparator?: string }
+    | { type: 'CodeableConcept'; code?: string; system?: string; display?: string }
+    | { type: 'String'; value: string }
+    | { type: 'Boolean'; value: boolean }
+    | { type: 'Integer'; value: number }
+    | { type: 'Range'; low?: SimpleQuantity; high?: SimpleQuantity }
+    | { type: 'Ratio'; numerator?: SimpleQuantity; denominator?: SimpleQuantity }
+    | { type: 'DateTime'; value: string }
+    | { type: 'Time'; value: string }
+    | { type: 'Period'; start?: string; end?: string };
+
+export interface ReferenceRange {
+    low?: SimpleQuantity;
+    high?: SimpleQuantity;
+    type?: string;
+    appliesTo?: string[];
+    age?: string;
+    text?: string;
+}
+
+export interface NormalizedObservationComponent {
+    code?: string;
+    system?: string;
+    display?: string;
+    value?: ObservationValue;
+    dataAbsentReason?: string;
+    interpretation?: string;
+    referenceRange?: ReferenceRange[];
+}
+
+export interface NormalizedObservation extends NormalizedObservationComponent {
+    id?: string;
+    status?: string;
+    category: {
+        code?: string;
+        system?: string;
+        display?: string;
+    };
+    effectiveDateTime?: string;
+    issued?: string;
+    components?: NormalizedObservationComponent[];
+    // Ids of the member observations of a panel (hasMember)
+    members?: string[];
+}
+
+export function normalizeObservations(resources: Array<FhirResource | undefined>): NormalizedObservation[] {
+    return resources
+        .filter((resource): resource is Observation => resource?.resourceType === 'Observation')
+        .filter(observation => observation.status !== 'entered-in-error' && observation.status !== 'cancelled')
+        .map(normalizeObservation);
+}
+
+export function normalizeObservation(resource: Observation): NormalizedObservation {
+    const codeCoding = resource.code?.coding?.[0];
+    const categoryCoding = resource.category?.[0]?.coding?.[0];
+    const members = (resource.hasMember || [])
+        .map(member => member.reference?.split('/').pop())
+        .filter((id): id is string => Boolean(id));
+
+    return {
+        id: resource.id,
+        status: resource.status,
+        code: codeCoding?.code,
+        system: codeCoding?.system,
+        display: resource.code?.text || codeCoding?.display,
+        category: {
+            code: categoryCoding?.code,
+            system: categoryCoding?.system,
+            display: categoryCoding?.display
+        },
+        effectiveDateTime: resource.effectiveDateTime || resource.effectivePeriod?.start || resource.effectiveInstant,
+        issued: resource.issued,
+        ...describeMeasurement(resource),
+        ...(resource.component?.length && {
+            components: resource.component.map(component => ({
+                code: component.code?.coding?.[0]?.code,
+                system: component.code?.coding?.[0]?.system,
+                display: component.code?.text || component.code?.coding?.[0]?.display,
+                ...describeMeasurement(component)
+            }))
+        }),
+        ...(members.length && { members })
+    };
+}
+
+/**
+ * Human readable value, e.g. "120 mmHg", "> 5.0 mg/L", "1:40" or "Positive"
+ */
+export function formatObservationValue(value?: ObservationValue): string | undefined {
+    if (!value) return undefined;
+
+    switch (value.type) {
+        case 'Quantity':
+            return formatQuantity(value);
+        case 'CodeableConcept':
+            return value.display || value.code;
+        case 'String':
+        case 'DateTime':
+        case 'Time':
+            return value.value;
+        case 'Boolean':
+            return value.value ? 'Yes' : 'No';
+        case 'Integer':
+            return String(value.value);
+        case 'Range':
+            return `${formatQuantity(value.low) || '?'} - ${formatQuantity(value.high) || '?'}`;
+        case 'Ratio':
+            return `${formatQuantity(value.numerator) || '?'}:${formatQuantity(value.denominator) || '?'}`;
+        case 'Period':
+            return `${value.start || '?'} to ${value.end || '?'}`;
+    }
+}
+
+export function formatReferenceRange(range: ReferenceRange): string {
+    if (range.text) return range.text;
+    if (range.low && range.high) return `${formatQuantity(range.low)} - ${formatQuantity(range.high)}`;
+    if (range.low) return `>= ${formatQuantity(range.low)}`;
+    if (range.high) return `<= ${formatQuantity(range.high)}`;
+    return '';
+}
+
+// Fields shared by an Observation and each of its components
+function describeMeasurement(source: Observation | ObservationComponent): Omit<NormalizedObservationComponent, 'code' | 'system' | 'display'> {
+    const value = extractValue(source);
+
+    return {
+        ...(value && { value }),
+        ...(!value && source.dataAbsentReason && { dataAbsentReason: codeText(source.dataAbsentReason) }),
+        ...(source.interpretation?.length && { interpretation: source.interpretation[0].coding?.[0]?.code || source.interpretation[0].text }),
+        ...(source.referenceRange?.length && { referenceRange: source.referenceRange.map(normalizeRange) })
+    };
+}
+
+function extractValue(source: Observation | ObservationComponent): ObservationValue | undefined {
+    if (source.valueQuantity) {
+        return {
+            type: 'Quantity',
+            value: source.valueQuantity.value,
+            unit: source.valueQuantity.unit || source.valueQuantity.code,
+            system: source.valueQuantity.system,
+            code: source.valueQuantity.code,
+            ...(source.valueQuantity.comparator && { comparator: source.valueQuantity.comparator })
+        };
+    }
+    if (source.valueCodeableConcept) {
+        const valueCoding = source.valueCodeableConcept.coding?.[0];
+        return {
+            type: 'CodeableConcept',
+            code: valueCoding?.code,
+            system: valueCoding?.system,
+            display: source.valueCodeableConcept.text || valueCoding?.display
+        };
+    }
+    if (source.valueString !== undefined) {
+        return { type: 'String', value: source.valueString };
+    }
+    if (source.valueBoolean !== undefined) {
+        return { type: 'Boolean', value: source.valueBoolean };
+    }
+    if (source.valueInteger !== undefined) {
+        return { type: 'Integer', value: source.valueInteger };
+    }
+    if (source.valueRange) {
+        return { type: 'Range', low: toQuantity(source.valueRange.low), high: toQuantity(source.valueRange.high) };
+    }
+    if (source.valueRatio) {
+        return { type: 'Ratio', numerator: toQuantity(source.valueRatio.numerator), denominator: toQuantity(source.valueRatio.denominator) };
+    }
+    if (source.valueDateTime) {
+        return { type: 'DateTime', value: source.valueDateTime };
+    }
+    if (source.valueTime) {
+        return { type: 'Time', value: source.valueTime };
+    }
+    if (source.valuePeriod) {
+        return { type: 'Period', start: source.valuePeriod.start, end: source.valuePeriod.end };
+    }
+    return undefined;
+}
+
+function normalizeRange(range: ObservationReferenceRange): ReferenceRange {
+    const appliesTo = (range.appliesTo || [])
+        .map(codeText)
+        .filter((text): text is string => Boolean(text));
+    const age = range.age && (range.age.low || range.age.high)
+        ? `${range.age.low?.value ?? ''}-${range.age.high?.value ?? ''} ${range.age.low?.unit || range.age.high?.unit || 'years'}`
+        : undefined;
+
+    return {
+        ...(range.low && { low: toQuantity(range.low) }),
+        ...(range.high && { high: toQuantity(range.high) }),
+        ...(range.type && { type: range.type.coding?.[0]?.code || range.type.text }),
+        ...(appliesTo.length && { appliesTo }),
+        ...(age && { age }),
+        ...(range.text && { text: range.text })
+    };
+}
+
+function toQuantity(quantity?: Quantity): SimpleQuantity | undefined {
+    if (!quantity) return undefined;
+    return {
+        value: quantity.value,
+        unit: quantity.unit || quantity.code,
+        ...(quantity.comparator && { comparator: quantity.comparator })
+    };
+}
+
+function formatQuantity(quantity?: SimpleQuantity): string | undefined {
+    if (!quantity || quantity.value === undefined) return undefined;
+    return [quantity.comparator, quantity.value, quantity.unit].filter(part => part !== undefined && part !== '').join(' ');
+}
+
+function codeText(concept?: CodeableConcept): string | undefined {
+    return concept?.text || concept?.coding?.[0]?.display || concept?.coding?.[0]?.code;
+}
@@ -0,0 +1,117 @@
+// src/utils/specialties.ts
+import { SPECIALTY_VALUE_SET, SpecialtyConcept } from '../knowledge/specialties';
+
+export type SpecialtyCodeStatus = 'valid' | 'mapped' | 'unverified';
+
+export interface SpecialtyCodeValidation {
+    // valid: the code is in the value set; mapped: replaced by the concept the specialty
+    // name matches; unverified: neither code nor name matched, so nothing is coded
+    status: SpecialtyCodeStatus;
+    // What the model returned, when normalization replaced it
+    originalCode?: string;
+    originalSpecialty?: string;
+    // Name similarity of a mapped specialty, 0-1
+    similarity?: number;
+}
+
+export interface CodedSpecialty {
+    specialty: string;
+    code: string;
+    codeValidation?: SpecialtyCodeValidation;
+}
+
+// Lowest name similarity at which an unknown code is replaced rather than flagged
+const MIN_SIMILARITY = 0.75;
+
+/**
+ * Check a recommended specialty against the local value set. Known codes get the value
+ * set's display name; unknown ones are mapped by specialty name, or flagged unverified.
+ * Specialties already checked are returned unchanged.
+ */
+export function normalizeSpecialist<T extends CodedSpecialty>(specialist: T): T {
+    if (specialist.codeValidation) return specialist;
+
+    const byCode = SPECIALTY_VALUE_SET.find(concept => concept.code === specialist.code?.trim());
+    const byName = matchSpecialtyName(specialist.specialty);
+
+    // A code that contradicts an exact specialty name is as suspect as an unknown one
+    if (byCode && !(byName?.similarity === 1 && byName.concept !== byCode)) {
+        return {
+            ...specialist,
+            code: byCode.code,
+            specialty: byCode.display,
+            codeValidation: {
+                status: 'valid',
+                ...(specialist.specialty !== byCode.display && { originalSpecialty: specialist.specialty })
+            }
+        };
+    }
+
+    if (byName && byName.similarity >= MIN_SIMILARITY) {
+        return {
+            ...specialist,
+            code: byName.concept.code,
+            specialty: byName.concept.display,
+            codeValidation: {
+                status: 'mapped',
+                originalCode: specialist.code,
+                originalSpecialty: specialist.specialty,
+                similarity: Math.round(byName.similarity * 100) / 100
+            }
+        };
+    }
+
+    return { ...specialist, codeValidation: { status: 'unverified' } };
+}
+
+/**
+ * The value set concept whose display name or a synonym is most similar to name
+ */
+export function matchSpecialtyName(name: string): { concept: SpecialtyConcept; similarity: number } | null {
+    const normalized = normalizeName(name || '');
+    if (!normalized) return null;
+
+    let best: { concept: SpecialtyConcept; similarity: number } | null = null;
+    for (const concept of SPECIALTY_VALUE_SET) {
+        for (const candidate of [concept.display, ...concept.synonyms]) {
+            const similarity = nameSimilarity(normalized, normalizeName(candidate));
+            if (!best || similarity > best.similarity) {
+                best = { concept, similarity };
+            }
+        }
+    }
+    return best;
+}
+
+function normalizeName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9/]+/g, ' ')
+        .trim();
+}
+
+// Dice coefficient of the character bigrams, so "Cardiologist" is close to "Cardiology"
+function nameSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+
+    const bigrams = (text: string) => {
+        const compact = text.replace(/\s+/g, '');
+        const counts = new Map<string, number>();
+        for (let i = 0; i < compact.length - 1; i++) {
+            const bigram = compact.slice(i, i + 2);
+            counts.set(bigram, (counts.get(bigram) || 0) + 1);
+        }
+        return { counts, total: Math.max(compact.length - 1, 0) };
+    };
+
+    const first = bigrams(a);
+    const second = bigrams(b);
+    if (first.total === 0 || second.total === 0) return 0;
+
+    let shared = 0;
+    for (const [bigram, count] of first.counts) {
+        shared += Math.min(count, second.counts.get(bigram) || 0);
+    }
+    return (2 * shared) / (first.total + second.total);
+}
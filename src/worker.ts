@@ -0,0 +1,30 @@
+// src/worker.ts
+import { createAnalysisQueue } from './services/analysisQueueFactory';
+import { config } from './config';
+
+// Runs analyses from the queue without serving HTTP, so workers scale apart from the API.
+// API servers then run with ANALYSIS_WORKER_EMBEDDED=false.
+const analysisQueue = createAnalysisQueue('worker');
+
+console.log(`Analysis worker started with ${config.analysisQueue.worker.concurrency} consumers`);
+
+let stopping = false;
+
+// Finish in-flight analyses before exiting; prefetched ones go back to the queue
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+    if (stopping) return;
+    stopping = true;
+    console.log(`Received ${signal}, draining analysis worker`);
+
+    try {
+        await analysisQueue.stopProcessing();
+        console.log('Analysis worker stopped');
+        process.exit(0);
+    } catch (error) {
+        console.error('Error stopping analysis worker:', error);
+        process.exit(1);
+    }
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);